@@ -1,6 +1,6 @@
 /**
  * Metigan - Complete Marketing Automation Library
- * Email, Forms, Contacts, Audiences, and Templates management
+ * Email, Forms, Contacts, Audiences, Templates, Domains, Suppressions and Webhooks management
  * @version 2.2.0
  */
 
@@ -12,12 +12,54 @@ export { MetiganForms } from './lib/forms';
 export { MetiganContacts } from './lib/contacts';
 export { MetiganAudiences } from './lib/audiences';
 export { MetiganTemplates } from './lib/templates';
+export { MetiganWebhooks } from './lib/webhooks';
+export { MetiganSuppressions } from './lib/suppressions';
+export type { SuppressionsModuleOptions, SuppressionFilterResult } from './lib/suppressions';
+export { MetiganDomains } from './lib/domains';
+export type { DomainsModuleOptions } from './lib/domains';
 
 // Export errors
-export { MetiganError, ValidationError, ApiError } from './lib/errors';
+export {
+  MetiganError,
+  ValidationError,
+  ApiError,
+  AuthenticationError,
+  PermissionError,
+  NotFoundError,
+  ConflictError,
+  RateLimitError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+  AbortError,
+  DomainNotVerifiedError,
+  UnsafeHtmlError,
+  EmailLintError,
+  WebhookSignatureError
+} from './lib/errors';
+export type { ApiErrorDetails } from './lib/errors';
 
 // Export configuration constants
-export { API_URL, SDK_VERSION, DEFAULT_TIMEOUT, DEFAULT_RETRY_COUNT, DEFAULT_RETRY_DELAY, MAX_FILE_SIZE } from './lib/config';
+export { API_URL, SDK_VERSION, DEFAULT_TIMEOUT, DEFAULT_RETRY_COUNT, DEFAULT_RETRY_DELAY, MAX_FILE_SIZE, WEBHOOK_SIGNATURE_HEADER } from './lib/config';
+
+// Export webhook utilities
+export {
+  verifySignature,
+  constructEvent,
+  computeSignature,
+  parseSignatureHeader,
+  createWebhookHandler,
+  WEBHOOK_EVENT_TYPES
+} from './lib/webhooks';
+export type {
+  WebhookPayload,
+  WebhookSignature,
+  WebhookModuleOptions,
+  WebhookEventHandler,
+  WebhookHandlers,
+  WebhookHandlerOptions,
+  WebhookHandler
+} from './lib/webhooks';
 
 // Export security utilities
 export { 
@@ -26,16 +68,68 @@ export {
   sanitizeSubject, 
   isAllowedMimeType, 
   isSafeFileExtension,
+  isSafeHeaderName,
+  isSafeHeaderValue,
   RateLimiter,
   DebugLogger,
   ALLOWED_MIME_TYPES,
-  BLOCKED_MIME_TYPES
+  BLOCKED_MIME_TYPES,
+  RESERVED_HEADERS,
+  DEFAULT_ALLOWED_TAGS,
+  DEFAULT_ALLOWED_ATTRIBUTES,
+  DEFAULT_ALLOWED_SCHEMES,
+  DEFAULT_ALLOWED_CSS_PROPERTIES
 } from './lib/security';
-export type { RateLimiterConfig } from './lib/security';
+export type { RateLimiterConfig, HtmlSanitizerOptions } from './lib/security';
+
+// Export HTML analysis
+export { analyzeHtml } from './utils/sanitize';
+export type { HtmlAnalysis, HtmlRemoval, HtmlRemovalReason } from './utils/sanitize';
+
+// Export HTTP transport
+export { Transport, fetchAdapter, axiosAdapter } from './utils/http';
+export type {
+  HttpMethod,
+  HttpRequest,
+  HttpResponse,
+  HttpAdapter,
+  HttpAdapterName,
+  HttpError,
+  Interceptor,
+  RequestContext,
+  ResponseContext,
+  ErrorContext,
+  RetryContext,
+  TransportOptions,
+  TransportRequestOptions
+} from './utils/http';
+export { DEFAULT_RETRYABLE_STATUSES } from './utils/retry';
+export type { RetryPolicy, RetryRules, BackoffStrategy } from './utils/retry';
+
+// Export merge tag utilities
+export { renderMergeTags, compileTemplate, extractMergeTags, findMissingVariables } from './utils/merge';
+export type { RenderOptions } from './utils/merge';
+
+// Export plain-text conversion
+export { htmlToText } from './utils/text';
+export type { HtmlToTextOptions } from './utils/text';
+
+// Export rate limiting
+export { TokenBucketLimiter } from './utils/rate-limit';
+export type { TokenBucketOptions, BucketOptions, RateLimitMode } from './utils/rate-limit';
+
+// Export CSS inliner
+export { inlineCss } from './utils/inline';
+export type { InlineCssOptions } from './utils/inline';
+
+// Export email HTML linter
+export { lintEmailHtml } from './utils/lint';
+export type { LintOptions, LintResult, LintDiagnostic, LintRule, LintSeverity, EmailClientFamily } from './utils/lint';
 
 // Export all types
 export type {
   // Email types
+  EmailMetadata,
   EmailOptions,
   OtpSendOptions,
   TransactionalSendOptions,
@@ -45,6 +139,20 @@ export type {
   EmailErrorResponse,
   ApiKeyErrorResponse,
   EmailApiResponse,
+  EmailBatchOptions,
+  EmailBatchItemResult,
+  EmailBatchResult,
+  ScheduledEmailStatus,
+  ScheduledEmail,
+  ScheduledEmailListOptions,
+  ScheduledEmailListResponse,
+  EmailMessageStatus,
+  EmailEventType,
+  EmailEvent,
+  EmailMessage,
+  EmailMessageListFilters,
+  EmailMessageListResponse,
+  EmailEventListResponse,
   NodeAttachment,
   CustomAttachment,
   ProcessedAttachment,
@@ -84,8 +192,14 @@ export type {
   
   // Common types
   PaginationOptions,
+  PaginationInfo,
+  IterateOptions,
+  RequestOptions,
+  MutationOptions,
   ApiResponse,
   MetiganClientOptions,
+  SanitizeMode,
+  SanitizeHtmlOptions,
   
   // Template types
   TemplateComponentStyle,
@@ -93,7 +207,36 @@ export type {
   TemplateStyles,
   EmailTemplate,
   EmailTemplateListResponse,
-  TemplateModuleOptions
+  TemplateModuleOptions,
+  
+  // Domain types
+  DomainStatus,
+  DnsRecordPurpose,
+  DnsRecord,
+  Domain,
+  CreateDomainOptions,
+  DomainListResponse,
+  
+  // Suppression types
+  SuppressionReason,
+  Suppression,
+  AddSuppressionOptions,
+  AddSuppressionResult,
+  SuppressionListFilters,
+  SuppressionListResponse,
+  SuppressionCheckResult,
+  SuppressionCheckResponse,
+  SkippedRecipient,
+  
+  // Webhook types
+  WebhookEventBase,
+  EmailDeliveredEvent,
+  EmailBouncedEvent,
+  ContactUnsubscribedEvent,
+  FormSubmittedEvent,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookVerifyOptions
 } from './lib/types';
 
 // Import modules for unified client
@@ -102,7 +245,13 @@ import { MetiganForms } from './lib/forms';
 import { MetiganContacts } from './lib/contacts';
 import { MetiganAudiences } from './lib/audiences';
 import { MetiganTemplates } from './lib/templates';
+import { MetiganWebhooks } from './lib/webhooks';
+import { MetiganSuppressions } from './lib/suppressions';
+import { MetiganDomains } from './lib/domains';
 import { MetiganError } from './lib/errors';
+import { Transport } from './utils/http';
+import type { Interceptor } from './utils/http';
+import { createRateLimiter } from './utils/rate-limit';
 import type { MetiganClientOptions } from './lib/types';
 
 /**
@@ -125,6 +274,18 @@ export class Metigan {
   /** Templates module for managing email templates */
   public templates: MetiganTemplates;
 
+  /** Domains module for sending domains and their DNS records */
+  public domains: MetiganDomains;
+
+  /** Suppressions module for the account-level suppression list */
+  public suppressions: MetiganSuppressions;
+
+  /** Webhooks module for verifying and parsing webhook events */
+  public webhooks: MetiganWebhooks;
+
+  /** Transport shared by every module */
+  private transport: Transport;
+
   /**
    * Create a new Metigan client
    * @param options - Client options
@@ -134,46 +295,81 @@ export class Metigan {
       throw new MetiganError('API key is required');
     }
 
+    // Single transport shared by every module
+    const transport = new Transport({
+      apiKey: options.apiKey,
+      baseUrl: options.baseUrl,
+      timeout: options.timeout,
+      retryCount: options.retryCount,
+      retryDelay: options.retryDelay,
+      retryPolicy: options.retryPolicy,
+      idempotencyKeys: options.idempotencyKeys,
+      adapter: options.adapter,
+      interceptors: options.interceptors,
+      rateLimit: createRateLimiter(options)
+    });
+    this.transport = transport;
+
+    // Shared with the email module so filterSuppressed reuses the same cache
+    this.suppressions = new MetiganSuppressions({
+      apiKey: options.apiKey,
+      transport,
+      cacheTtl: options.suppressionCacheTtl
+    });
+
+    // Shared with the email module so requireVerifiedDomain reuses the same cache
+    this.domains = new MetiganDomains({
+      apiKey: options.apiKey,
+      transport,
+      cacheTtl: options.domainCacheTtl
+    });
+
     // Initialize all modules with security options
     this.email = new MetiganEmailClientInternal(options.apiKey, {
       userId: options.userId,
       disableLogs: options.disableLogs,
-      timeout: options.timeout,
-      retryCount: options.retryCount,
-      retryDelay: options.retryDelay,
       debug: options.debug,
       sanitizeHtml: options.sanitizeHtml,
-      enableRateLimit: options.enableRateLimit,
-      maxRequestsPerSecond: options.maxRequestsPerSecond
+      transport,
+      suppressions: this.suppressions,
+      domains: this.domains,
+      requireVerifiedDomain: options.requireVerifiedDomain,
+      inlineCss: options.inlineCss,
+      lint: options.lint
     });
 
     this.forms = new MetiganForms({
       apiKey: options.apiKey,
-      timeout: options.timeout,
-      retryCount: options.retryCount,
-      retryDelay: options.retryDelay
+      transport
     });
 
     this.contacts = new MetiganContacts({
       apiKey: options.apiKey,
-      timeout: options.timeout,
-      retryCount: options.retryCount,
-      retryDelay: options.retryDelay
+      transport
     });
 
     this.audiences = new MetiganAudiences({
       apiKey: options.apiKey,
-      timeout: options.timeout,
-      retryCount: options.retryCount,
-      retryDelay: options.retryDelay
+      transport
     });
     
     this.templates = new MetiganTemplates({
       apiKey: options.apiKey,
-      timeout: options.timeout,
-      retryCount: options.retryCount,
-      retryDelay: options.retryDelay
+      transport
     });
+
+    this.webhooks = new MetiganWebhooks({
+      secret: options.webhookSecret
+    });
+  }
+
+  /**
+   * Register an interceptor applied to every module's requests
+   * @param interceptor - Hooks to run (onRequest, onResponse, onError, onRetry)
+   * @returns Function removing the interceptor
+   */
+  use(interceptor: Interceptor): () => void {
+    return this.transport.use(interceptor);
   }
 }
 
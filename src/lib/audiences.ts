@@ -4,16 +4,23 @@
  * @version 2.0.0
  */
 
-import * as http from '../utils/http';
-import { MetiganError, ApiError, ValidationError } from './errors';
-import { API_URL, DEFAULT_TIMEOUT, DEFAULT_RETRY_COUNT, DEFAULT_RETRY_DELAY } from './config';
+import { Transport } from '../utils/http';
+import type { HttpAdapter, HttpAdapterName, Interceptor } from '../utils/http';
+import type { RetryPolicy } from '../utils/retry';
+import type { TokenBucketLimiter, TokenBucketOptions } from '../utils/rate-limit';
+import { paginate } from '../utils/pagination';
+import { MetiganError, ValidationError } from './errors';
+import { DEFAULT_PAGE_SIZE } from './config';
 import type {
   Audience,
   CreateAudienceOptions,
   UpdateAudienceOptions,
   AudienceListResponse,
   AudienceStats,
-  PaginationOptions
+  PaginationOptions,
+  RequestOptions,
+  MutationOptions,
+  IterateOptions
 } from './types';
 
 /**
@@ -21,19 +28,30 @@ import type {
  */
 export interface AudiencesModuleOptions {
   apiKey: string;
+  /** Base URL of the Metigan API */
+  baseUrl?: string;
   timeout?: number;
   retryCount?: number;
   retryDelay?: number;
+  /** Retry policy */
+  retryPolicy?: RetryPolicy;
+  /** Attach generated idempotency keys to mutating requests */
+  idempotencyKeys?: boolean;
+  /** HTTP adapter or built-in adapter name */
+  adapter?: HttpAdapter | HttpAdapterName;
+  /** Request/response interceptors */
+  interceptors?: Interceptor[];
+  /** Token-bucket rate limiter, or its options */
+  rateLimit?: TokenBucketLimiter | TokenBucketOptions;
+  /** Shared transport (created from the options above when omitted) */
+  transport?: Transport;
 }
 
 /**
  * MetiganAudiences class for audience operations
  */
 export class MetiganAudiences {
-  private apiKey: string;
-  private timeout: number;
-  private retryCount: number;
-  private retryDelay: number;
+  private transport: Transport;
 
   /**
    * Create a new MetiganAudiences instance
@@ -44,81 +62,16 @@ export class MetiganAudiences {
       throw new MetiganError('API key is required');
     }
 
-    this.apiKey = options.apiKey;
-    this.timeout = options.timeout || DEFAULT_TIMEOUT;
-    this.retryCount = options.retryCount || DEFAULT_RETRY_COUNT;
-    this.retryDelay = options.retryDelay || DEFAULT_RETRY_DELAY;
-  }
-
-  /**
-   * Get default headers for API requests
-   */
-  private getHeaders(): Record<string, string> {
-    return {
-      'Content-Type': 'application/json',
-      'x-api-key': this.apiKey,
-      'User-Agent': 'MetiganSDK/2.0'
-    };
-  }
-
-  /**
-   * Make request with retry logic
-   */
-  private async makeRequest<T>(
-    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
-    endpoint: string,
-    data?: any,
-    params?: Record<string, any>
-  ): Promise<T> {
-    const url = `${API_URL}${endpoint}`;
-    const headers = this.getHeaders();
-    let lastError: any;
-
-    for (let attempt = 0; attempt < this.retryCount; attempt++) {
-      try {
-        switch (method) {
-          case 'GET':
-            return await http.get<T>(url, headers, { timeout: this.timeout, params });
-          case 'POST':
-            return await http.post<T>(url, data, headers, { timeout: this.timeout });
-          case 'PUT':
-            return await http.put<T>(url, data, headers, { timeout: this.timeout });
-          case 'PATCH':
-            return await http.patch<T>(url, data, headers, { timeout: this.timeout });
-          case 'DELETE':
-            return await http.del<T>(url, headers, { timeout: this.timeout });
-        }
-      } catch (error: any) {
-        lastError = error;
-
-        // Don't retry on client errors (4xx)
-        if (error.status && error.status >= 400 && error.status < 500) {
-          throw new ApiError(
-            error.data?.message || error.data?.error || `Request failed with status ${error.status}`,
-            error.status
-          );
-        }
-
-        // Wait before retrying
-        if (attempt < this.retryCount - 1) {
-          const delay = this.retryDelay * Math.pow(2, attempt);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-      }
-    }
-
-    throw new ApiError(
-      lastError?.data?.message || 'Request failed after multiple attempts',
-      lastError?.status
-    );
+    this.transport = options.transport || new Transport(options);
   }
 
   /**
    * Create a new audience
    * @param options - Audience creation options
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Created audience
    */
-  async create(options: CreateAudienceOptions): Promise<Audience> {
+  async create(options: CreateAudienceOptions, requestOptions: RequestOptions = {}): Promise<Audience> {
     if (!options.name) {
       throw new ValidationError('Audience name is required');
     }
@@ -127,10 +80,10 @@ export class MetiganAudiences {
       throw new ValidationError('Audience name must be at least 2 characters');
     }
 
-    const response = await this.makeRequest<Audience>('POST', '/api/audiences', {
+    const response = await this.transport.request<Audience>('POST', '/api/audiences', {
       name: options.name.trim(),
       description: options.description?.trim()
-    });
+    }, { ...requestOptions, idempotencyKey: options.idempotencyKey });
 
     return response;
   }
@@ -138,14 +91,15 @@ export class MetiganAudiences {
   /**
    * Get an audience by ID
    * @param audienceId - Audience ID
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Audience data
    */
-  async get(audienceId: string): Promise<Audience> {
+  async get(audienceId: string, requestOptions: RequestOptions = {}): Promise<Audience> {
     if (!audienceId) {
       throw new ValidationError('Audience ID is required');
     }
 
-    const response = await this.makeRequest<Audience>('GET', `/api/audiences/${audienceId}`);
+    const response = await this.transport.request<Audience>('GET', `/api/audiences/${audienceId}`, undefined, requestOptions);
     return response;
   }
 
@@ -153,9 +107,10 @@ export class MetiganAudiences {
    * Update an audience
    * @param audienceId - Audience ID
    * @param options - Update options
+   * @param requestOptions - Per-call options (signal, timeout, idempotencyKey)
    * @returns Updated audience
    */
-  async update(audienceId: string, options: UpdateAudienceOptions): Promise<Audience> {
+  async update(audienceId: string, options: UpdateAudienceOptions, requestOptions: MutationOptions = {}): Promise<Audience> {
     if (!audienceId) {
       throw new ValidationError('Audience ID is required');
     }
@@ -164,13 +119,14 @@ export class MetiganAudiences {
       throw new ValidationError('Audience name must be at least 2 characters');
     }
 
-    const response = await this.makeRequest<Audience>(
+    const response = await this.transport.request<Audience>(
       'PATCH',
       `/api/audiences/${audienceId}`,
       {
         name: options.name?.trim(),
         description: options.description?.trim()
-      }
+      },
+      requestOptions
     );
 
     return response;
@@ -179,16 +135,19 @@ export class MetiganAudiences {
   /**
    * Delete an audience
    * @param audienceId - Audience ID
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Success status
    */
-  async delete(audienceId: string): Promise<{ success: boolean }> {
+  async delete(audienceId: string, requestOptions: RequestOptions = {}): Promise<{ success: boolean }> {
     if (!audienceId) {
       throw new ValidationError('Audience ID is required');
     }
 
-    const response = await this.makeRequest<{ success: boolean }>(
+    const response = await this.transport.request<{ success: boolean }>(
       'DELETE',
-      `/api/audiences/${audienceId}`
+      `/api/audiences/${audienceId}`,
+      undefined,
+      requestOptions
     );
 
     return response;
@@ -197,12 +156,15 @@ export class MetiganAudiences {
   /**
    * List all audiences
    * @param options - Pagination options
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Audience list
    */
-  async list(options?: PaginationOptions): Promise<AudienceListResponse> {
+  async list(options?: PaginationOptions, requestOptions: RequestOptions = {}): Promise<AudienceListResponse> {
     const params = new URLSearchParams();
 
-    if (options?.page) {
+    if (options?.cursor) {
+      params.append('cursor', options.cursor);
+    } else if (options?.page) {
       params.append('page', options.page.toString());
     }
     if (options?.limit) {
@@ -212,23 +174,44 @@ export class MetiganAudiences {
     const queryString = params.toString();
     const endpoint = queryString ? `/api/audiences?${queryString}` : '/api/audiences';
 
-    const response = await this.makeRequest<AudienceListResponse>('GET', endpoint);
+    const response = await this.transport.request<AudienceListResponse>('GET', endpoint, undefined, requestOptions);
     return response;
   }
 
+  /**
+   * Iterate over every audience, fetching pages lazily
+   * @param options - Page size, prefetch depth and per-call options
+   * @returns Async iterator of audiences
+   */
+  iterate(options: IterateOptions = {}): AsyncIterableIterator<Audience> {
+    const { pageSize = DEFAULT_PAGE_SIZE, prefetch, ...requestOptions } = options;
+
+    return paginate<Audience>(async ({ page, cursor, limit }) => {
+      const response = await this.list({ page, cursor, limit }, requestOptions);
+      return {
+        items: response.audiences || [],
+        pages: response.pagination?.pages,
+        nextCursor: response.pagination?.nextCursor
+      };
+    }, { pageSize, prefetch });
+  }
+
   /**
    * Get audience statistics
    * @param audienceId - Audience ID
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Audience statistics
    */
-  async getStats(audienceId: string): Promise<AudienceStats> {
+  async getStats(audienceId: string, requestOptions: RequestOptions = {}): Promise<AudienceStats> {
     if (!audienceId) {
       throw new ValidationError('Audience ID is required');
     }
 
-    const response = await this.makeRequest<AudienceStats>(
+    const response = await this.transport.request<AudienceStats>(
       'GET',
-      `/api/audiences/${audienceId}/stats`
+      `/api/audiences/${audienceId}/stats`,
+      undefined,
+      requestOptions
     );
 
     return response;
@@ -237,16 +220,19 @@ export class MetiganAudiences {
   /**
    * Get total count of contacts in an audience
    * @param audienceId - Audience ID
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Contact count
    */
-  async getCount(audienceId: string): Promise<number> {
+  async getCount(audienceId: string, requestOptions: RequestOptions = {}): Promise<number> {
     if (!audienceId) {
       throw new ValidationError('Audience ID is required');
     }
 
-    const response = await this.makeRequest<{ count: number }>(
+    const response = await this.transport.request<{ count: number }>(
       'GET',
-      `/api/audiences/${audienceId}/count`
+      `/api/audiences/${audienceId}/count`,
+      undefined,
+      requestOptions
     );
 
     return response.count;
@@ -256,9 +242,10 @@ export class MetiganAudiences {
    * Merge two audiences
    * @param sourceAudienceId - Source audience ID (will be deleted)
    * @param targetAudienceId - Target audience ID (will receive contacts)
+   * @param requestOptions - Per-call options (signal, timeout, idempotencyKey)
    * @returns Merged audience
    */
-  async merge(sourceAudienceId: string, targetAudienceId: string): Promise<Audience> {
+  async merge(sourceAudienceId: string, targetAudienceId: string, requestOptions: MutationOptions = {}): Promise<Audience> {
     if (!sourceAudienceId) {
       throw new ValidationError('Source audience ID is required');
     }
@@ -271,13 +258,14 @@ export class MetiganAudiences {
       throw new ValidationError('Source and target audiences must be different');
     }
 
-    const response = await this.makeRequest<Audience>(
+    const response = await this.transport.request<Audience>(
       'POST',
       '/api/audiences/merge',
       {
         sourceAudienceId,
         targetAudienceId
-      }
+      },
+      requestOptions
     );
 
     return response;
@@ -287,9 +275,10 @@ export class MetiganAudiences {
    * Duplicate an audience
    * @param audienceId - Audience ID to duplicate
    * @param newName - Name for the new audience
+   * @param requestOptions - Per-call options (signal, timeout, idempotencyKey)
    * @returns New duplicated audience
    */
-  async duplicate(audienceId: string, newName: string): Promise<Audience> {
+  async duplicate(audienceId: string, newName: string, requestOptions: MutationOptions = {}): Promise<Audience> {
     if (!audienceId) {
       throw new ValidationError('Audience ID is required');
     }
@@ -298,10 +287,11 @@ export class MetiganAudiences {
       throw new ValidationError('New audience name must be at least 2 characters');
     }
 
-    const response = await this.makeRequest<Audience>(
+    const response = await this.transport.request<Audience>(
       'POST',
       `/api/audiences/${audienceId}/duplicate`,
-      { name: newName.trim() }
+      { name: newName.trim() },
+      requestOptions
     );
 
     return response;
@@ -310,16 +300,19 @@ export class MetiganAudiences {
   /**
    * Clean audience (remove bounced and unsubscribed contacts)
    * @param audienceId - Audience ID
+   * @param requestOptions - Per-call options (signal, timeout, idempotencyKey)
    * @returns Cleanup result
    */
-  async clean(audienceId: string): Promise<{ removed: number }> {
+  async clean(audienceId: string, requestOptions: MutationOptions = {}): Promise<{ removed: number }> {
     if (!audienceId) {
       throw new ValidationError('Audience ID is required');
     }
 
-    const response = await this.makeRequest<{ removed: number }>(
+    const response = await this.transport.request<{ removed: number }>(
       'POST',
-      `/api/audiences/${audienceId}/clean`
+      `/api/audiences/${audienceId}/clean`,
+      undefined,
+      requestOptions
     );
 
     return response;
@@ -328,18 +321,19 @@ export class MetiganAudiences {
   /**
    * Search audiences by name
    * @param query - Search query
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Matching audiences
    */
-  async search(query: string): Promise<Audience[]> {
+  async search(query: string, requestOptions: RequestOptions = {}): Promise<Audience[]> {
     if (!query || query.length < 2) {
       throw new ValidationError('Search query must be at least 2 characters');
     }
 
-    const response = await this.makeRequest<{ audiences: Audience[] }>(
+    const response = await this.transport.request<{ audiences: Audience[] }>(
       'GET',
       '/api/audiences/search',
       undefined,
-      { q: query }
+      { ...requestOptions, params: { q: query } }
     );
 
     return response.audiences;
@@ -7,7 +7,8 @@
  * Default API URL for Metigan services
  * All API calls are routed through this single endpoint
  * 
- * Can be overridden with METIGAN_API_URL environment variable for testing
+ * Can be overridden with METIGAN_API_URL environment variable for testing,
+ * or per client with the `baseUrl` option
  */
 export const API_URL = (typeof process !== 'undefined' && process.env?.METIGAN_API_URL) 
   || 'https://api.metigan.com';
@@ -28,6 +29,61 @@ export const DEFAULT_TIMEOUT = 30000;
 export const DEFAULT_RETRY_COUNT = 3;
 export const DEFAULT_RETRY_DELAY = 1000;
 
+/**
+ * Default page size used by the list iterators
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Maximum number of messages accepted by a single batch send request
+ */
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * Default number of batch chunks sent concurrently
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+/**
+ * Default client-side rate limit (requests per second)
+ */
+export const DEFAULT_RATE_LIMIT = 10;
+
+/**
+ * Default maximum number of requests waiting for the rate limiter
+ */
+export const DEFAULT_RATE_LIMIT_QUEUE_SIZE = 100;
+
+/**
+ * Default time a request may wait for the rate limiter (in milliseconds)
+ */
+export const DEFAULT_RATE_LIMIT_QUEUE_TIMEOUT = 30000;
+
+/**
+ * Default lifetime of the cached suppression set (in milliseconds)
+ */
+export const DEFAULT_SUPPRESSION_CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * Default lifetime of cached sending domain statuses (in milliseconds)
+ */
+export const DEFAULT_DOMAIN_CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * Header carrying the webhook signature (`t=<unix seconds>,v1=<hex HMAC-SHA256>`)
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-metigan-signature';
+
+/**
+ * Default maximum age of a webhook signature (in seconds)
+ */
+export const DEFAULT_WEBHOOK_TOLERANCE = 300;
+
+/**
+ * HTML size above which Gmail clips the message (in bytes)
+ */
+export const GMAIL_CLIP_SIZE = 102 * 1024;
+
 /**
  * Maximum file size for attachments (7MB)
  */
@@ -4,16 +4,23 @@
  * @version 2.0.0
  */
 
-import * as http from '../utils/http';
-import { MetiganError, ApiError, ValidationError } from './errors';
-import { API_URL, DEFAULT_TIMEOUT, DEFAULT_RETRY_COUNT, DEFAULT_RETRY_DELAY } from './config';
+import { Transport } from '../utils/http';
+import type { HttpAdapter, HttpAdapterName, Interceptor } from '../utils/http';
+import type { RetryPolicy } from '../utils/retry';
+import type { TokenBucketLimiter, TokenBucketOptions } from '../utils/rate-limit';
+import { paginate } from '../utils/pagination';
+import { MetiganError, ValidationError } from './errors';
+import { DEFAULT_PAGE_SIZE } from './config';
 import type {
   Contact,
   CreateContactOptions,
   UpdateContactOptions,
   ContactListFilters,
   ContactListResponse,
-  BulkContactResult
+  BulkContactResult,
+  RequestOptions,
+  MutationOptions,
+  IterateOptions
 } from './types';
 
 /**
@@ -21,19 +28,30 @@ import type {
  */
 export interface ContactsModuleOptions {
   apiKey: string;
+  /** Base URL of the Metigan API */
+  baseUrl?: string;
   timeout?: number;
   retryCount?: number;
   retryDelay?: number;
+  /** Retry policy */
+  retryPolicy?: RetryPolicy;
+  /** Attach generated idempotency keys to mutating requests */
+  idempotencyKeys?: boolean;
+  /** HTTP adapter or built-in adapter name */
+  adapter?: HttpAdapter | HttpAdapterName;
+  /** Request/response interceptors */
+  interceptors?: Interceptor[];
+  /** Token-bucket rate limiter, or its options */
+  rateLimit?: TokenBucketLimiter | TokenBucketOptions;
+  /** Shared transport (created from the options above when omitted) */
+  transport?: Transport;
 }
 
 /**
  * MetiganContacts class for contact operations
  */
 export class MetiganContacts {
-  private apiKey: string;
-  private timeout: number;
-  private retryCount: number;
-  private retryDelay: number;
+  private transport: Transport;
 
   /**
    * Create a new MetiganContacts instance
@@ -44,21 +62,7 @@ export class MetiganContacts {
       throw new MetiganError('API key is required');
     }
 
-    this.apiKey = options.apiKey;
-    this.timeout = options.timeout || DEFAULT_TIMEOUT;
-    this.retryCount = options.retryCount || DEFAULT_RETRY_COUNT;
-    this.retryDelay = options.retryDelay || DEFAULT_RETRY_DELAY;
-  }
-
-  /**
-   * Get default headers for API requests
-   */
-  private getHeaders(): Record<string, string> {
-    return {
-      'Content-Type': 'application/json',
-      'x-api-key': this.apiKey,
-      'User-Agent': 'MetiganSDK/2.0'
-    };
+    this.transport = options.transport || new Transport(options);
   }
 
   /**
@@ -75,64 +79,13 @@ export class MetiganContacts {
     return true;
   }
 
-  /**
-   * Make request with retry logic
-   */
-  private async makeRequest<T>(
-    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
-    endpoint: string,
-    data?: any,
-    params?: Record<string, any>
-  ): Promise<T> {
-    const url = `${API_URL}${endpoint}`;
-    const headers = this.getHeaders();
-    let lastError: any;
-
-    for (let attempt = 0; attempt < this.retryCount; attempt++) {
-      try {
-        switch (method) {
-          case 'GET':
-            return await http.get<T>(url, headers, { timeout: this.timeout, params });
-          case 'POST':
-            return await http.post<T>(url, data, headers, { timeout: this.timeout });
-          case 'PUT':
-            return await http.put<T>(url, data, headers, { timeout: this.timeout });
-          case 'PATCH':
-            return await http.patch<T>(url, data, headers, { timeout: this.timeout });
-          case 'DELETE':
-            return await http.del<T>(url, headers, { timeout: this.timeout });
-        }
-      } catch (error: any) {
-        lastError = error;
-
-        // Don't retry on client errors (4xx)
-        if (error.status && error.status >= 400 && error.status < 500) {
-          throw new ApiError(
-            error.data?.message || error.data?.error || `Request failed with status ${error.status}`,
-            error.status
-          );
-        }
-
-        // Wait before retrying
-        if (attempt < this.retryCount - 1) {
-          const delay = this.retryDelay * Math.pow(2, attempt);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-      }
-    }
-
-    throw new ApiError(
-      lastError?.data?.message || 'Request failed after multiple attempts',
-      lastError?.status
-    );
-  }
-
   /**
    * Create a new contact
    * @param options - Contact creation options
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Created contact
    */
-  async create(options: CreateContactOptions): Promise<Contact> {
+  async create(options: CreateContactOptions, requestOptions: RequestOptions = {}): Promise<Contact> {
     // Validate required fields
     if (!options.email) {
       throw new ValidationError('Email is required');
@@ -146,7 +99,7 @@ export class MetiganContacts {
       throw new ValidationError('Audience ID is required');
     }
 
-    const response = await this.makeRequest<Contact>('POST', '/api/contacts', {
+    const response = await this.transport.request<Contact>('POST', '/api/contacts', {
       email: options.email.toLowerCase().trim(),
       firstName: options.firstName,
       lastName: options.lastName,
@@ -155,7 +108,7 @@ export class MetiganContacts {
       tags: options.tags || [],
       customFields: options.customFields || {},
       status: options.status || 'subscribed'
-    });
+    }, { ...requestOptions, idempotencyKey: options.idempotencyKey });
 
     return response;
   }
@@ -163,14 +116,15 @@ export class MetiganContacts {
   /**
    * Get a contact by ID
    * @param contactId - Contact ID
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Contact data
    */
-  async get(contactId: string): Promise<Contact> {
+  async get(contactId: string, requestOptions: RequestOptions = {}): Promise<Contact> {
     if (!contactId) {
       throw new ValidationError('Contact ID is required');
     }
 
-    const response = await this.makeRequest<Contact>('GET', `/api/contacts/${contactId}`);
+    const response = await this.transport.request<Contact>('GET', `/api/contacts/${contactId}`, undefined, requestOptions);
     return response;
   }
 
@@ -178,9 +132,10 @@ export class MetiganContacts {
    * Get a contact by email
    * @param email - Contact email
    * @param audienceId - Audience ID
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Contact data
    */
-  async getByEmail(email: string, audienceId: string): Promise<Contact> {
+  async getByEmail(email: string, audienceId: string, requestOptions: RequestOptions = {}): Promise<Contact> {
     if (!email) {
       throw new ValidationError('Email is required');
     }
@@ -189,11 +144,11 @@ export class MetiganContacts {
       throw new ValidationError('Audience ID is required');
     }
 
-    const response = await this.makeRequest<Contact>(
+    const response = await this.transport.request<Contact>(
       'GET',
       `/api/contacts/email/${encodeURIComponent(email)}`,
       undefined,
-      { audienceId }
+      { ...requestOptions, params: { audienceId } }
     );
 
     return response;
@@ -203,17 +158,19 @@ export class MetiganContacts {
    * Update a contact
    * @param contactId - Contact ID
    * @param options - Update options
+   * @param requestOptions - Per-call options (signal, timeout, idempotencyKey)
    * @returns Updated contact
    */
-  async update(contactId: string, options: UpdateContactOptions): Promise<Contact> {
+  async update(contactId: string, options: UpdateContactOptions, requestOptions: MutationOptions = {}): Promise<Contact> {
     if (!contactId) {
       throw new ValidationError('Contact ID is required');
     }
 
-    const response = await this.makeRequest<Contact>(
+    const response = await this.transport.request<Contact>(
       'PATCH',
       `/api/contacts/${contactId}`,
-      options
+      options,
+      requestOptions
     );
 
     return response;
@@ -223,17 +180,20 @@ export class MetiganContacts {
    * Delete a contact
    * @param contactId - Contact ID
    * @param audienceId - Audience ID (required by server)
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Success status
    */
-  async delete(contactId: string, audienceId?: string): Promise<{ success: boolean }> {
+  async delete(contactId: string, audienceId?: string, requestOptions: RequestOptions = {}): Promise<{ success: boolean }> {
     if (!contactId) {
       throw new ValidationError('Contact ID is required');
     }
 
     const queryString = audienceId ? `?audienceId=${audienceId}` : '';
-    const response = await this.makeRequest<{ success: boolean }>(
+    const response = await this.transport.request<{ success: boolean }>(
       'DELETE',
-      `/api/contacts/${contactId}${queryString}`
+      `/api/contacts/${contactId}${queryString}`,
+      undefined,
+      requestOptions
     );
 
     return response;
@@ -242,9 +202,10 @@ export class MetiganContacts {
   /**
    * List contacts with filters
    * @param filters - List filters
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Contact list
    */
-  async list(filters?: ContactListFilters): Promise<ContactListResponse> {
+  async list(filters?: ContactListFilters, requestOptions: RequestOptions = {}): Promise<ContactListResponse> {
     const params = new URLSearchParams();
 
     if (filters?.audienceId) {
@@ -259,7 +220,9 @@ export class MetiganContacts {
     if (filters?.search) {
       params.append('search', filters.search);
     }
-    if (filters?.page) {
+    if (filters?.cursor) {
+      params.append('cursor', filters.cursor);
+    } else if (filters?.page) {
       params.append('page', filters.page.toString());
     }
     if (filters?.limit) {
@@ -269,35 +232,64 @@ export class MetiganContacts {
     const queryString = params.toString();
     const endpoint = queryString ? `/api/contacts?${queryString}` : '/api/contacts';
 
-    const response = await this.makeRequest<ContactListResponse>('GET', endpoint);
+    const response = await this.transport.request<ContactListResponse>('GET', endpoint, undefined, requestOptions);
     return response;
   }
 
+  /**
+   * Iterate over every contact matching the filters, fetching pages lazily
+   * @param filters - List filters (page and limit are managed by the iterator)
+   * @param options - Page size, prefetch depth and per-call options
+   * @returns Async iterator of contacts
+   *
+   * @example
+   * ```typescript
+   * for await (const contact of metigan.contacts.iterate({ audienceId: 'audience-123' })) {
+   *   console.log(contact.email);
+   * }
+   * ```
+   */
+  iterate(filters: ContactListFilters = {}, options: IterateOptions = {}): AsyncIterableIterator<Contact> {
+    const { pageSize = filters.limit || DEFAULT_PAGE_SIZE, prefetch, ...requestOptions } = options;
+
+    return paginate<Contact>(async ({ page, cursor, limit }) => {
+      const response = await this.list({ ...filters, page, cursor, limit }, requestOptions);
+      return {
+        items: response.contacts || [],
+        pages: response.pagination?.pages,
+        nextCursor: response.pagination?.nextCursor
+      };
+    }, { pageSize, prefetch, cursor: filters.cursor });
+  }
+
   /**
    * Subscribe a contact (set status to subscribed)
    * @param contactId - Contact ID
+   * @param requestOptions - Per-call options (signal, timeout, idempotencyKey)
    * @returns Updated contact
    */
-  async subscribe(contactId: string): Promise<Contact> {
-    return this.update(contactId, { status: 'subscribed' });
+  async subscribe(contactId: string, requestOptions: MutationOptions = {}): Promise<Contact> {
+    return this.update(contactId, { status: 'subscribed' }, requestOptions);
   }
 
   /**
    * Unsubscribe a contact
    * @param contactId - Contact ID
+   * @param requestOptions - Per-call options (signal, timeout, idempotencyKey)
    * @returns Updated contact
    */
-  async unsubscribe(contactId: string): Promise<Contact> {
-    return this.update(contactId, { status: 'unsubscribed' });
+  async unsubscribe(contactId: string, requestOptions: MutationOptions = {}): Promise<Contact> {
+    return this.update(contactId, { status: 'unsubscribed' }, requestOptions);
   }
 
   /**
    * Add tags to a contact
    * @param contactId - Contact ID
    * @param tags - Tags to add
+   * @param requestOptions - Per-call options (signal, timeout, idempotencyKey)
    * @returns Updated contact
    */
-  async addTags(contactId: string, tags: string[]): Promise<Contact> {
+  async addTags(contactId: string, tags: string[], requestOptions: MutationOptions = {}): Promise<Contact> {
     if (!contactId) {
       throw new ValidationError('Contact ID is required');
     }
@@ -306,10 +298,11 @@ export class MetiganContacts {
       throw new ValidationError('At least one tag is required');
     }
 
-    const response = await this.makeRequest<Contact>(
+    const response = await this.transport.request<Contact>(
       'POST',
       `/api/contacts/${contactId}/tags`,
-      { tags }
+      { tags },
+      requestOptions
     );
 
     return response;
@@ -319,9 +312,10 @@ export class MetiganContacts {
    * Remove tags from a contact
    * @param contactId - Contact ID
    * @param tags - Tags to remove
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Updated contact
    */
-  async removeTags(contactId: string, tags: string[]): Promise<Contact> {
+  async removeTags(contactId: string, tags: string[], requestOptions: RequestOptions = {}): Promise<Contact> {
     if (!contactId) {
       throw new ValidationError('Contact ID is required');
     }
@@ -330,10 +324,11 @@ export class MetiganContacts {
       throw new ValidationError('At least one tag is required');
     }
 
-    const response = await this.makeRequest<Contact>(
+    const response = await this.transport.request<Contact>(
       'DELETE',
       `/api/contacts/${contactId}/tags`,
-      { tags }
+      { tags },
+      requestOptions
     );
 
     return response;
@@ -343,11 +338,13 @@ export class MetiganContacts {
    * Bulk import contacts
    * @param contacts - Array of contacts to import
    * @param audienceId - Target audience ID
+   * @param options - Per-call options (signal, timeout, idempotencyKey)
    * @returns Import result
    */
   async bulkImport(
     contacts: Array<{ email: string; firstName?: string; lastName?: string; tags?: string[] }>,
-    audienceId: string
+    audienceId: string,
+    options: MutationOptions = {}
   ): Promise<BulkContactResult> {
     if (!contacts || contacts.length === 0) {
       throw new ValidationError('At least one contact is required');
@@ -365,7 +362,7 @@ export class MetiganContacts {
       );
     }
 
-    const response = await this.makeRequest<BulkContactResult>(
+    const response = await this.transport.request<BulkContactResult>(
       'POST',
       '/api/contacts/bulk',
       {
@@ -374,7 +371,8 @@ export class MetiganContacts {
           email: c.email.toLowerCase().trim()
         })),
         audienceId
-      }
+      },
+      options
     );
 
     return response;
@@ -384,21 +382,23 @@ export class MetiganContacts {
    * Export contacts from an audience
    * @param audienceId - Audience ID
    * @param format - Export format (csv or json)
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Export data
    */
   async export(
     audienceId: string,
-    format: 'csv' | 'json' = 'json'
+    format: 'csv' | 'json' = 'json',
+    requestOptions: RequestOptions = {}
   ): Promise<string | Contact[]> {
     if (!audienceId) {
       throw new ValidationError('Audience ID is required');
     }
 
-    const response = await this.makeRequest<{ data: string | Contact[] }>(
+    const response = await this.transport.request<{ data: string | Contact[] }>(
       'GET',
       `/api/contacts/export`,
       undefined,
-      { audienceId, format }
+      { ...requestOptions, params: { audienceId, format } }
     );
 
     return response.data;
@@ -408,9 +408,10 @@ export class MetiganContacts {
    * Search contacts
    * @param query - Search query
    * @param audienceId - Optional audience ID to filter
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Matching contacts
    */
-  async search(query: string, audienceId?: string): Promise<Contact[]> {
+  async search(query: string, audienceId?: string, requestOptions: RequestOptions = {}): Promise<Contact[]> {
     if (!query || query.length < 2) {
       throw new ValidationError('Search query must be at least 2 characters');
     }
@@ -420,11 +421,11 @@ export class MetiganContacts {
       params.audienceId = audienceId;
     }
 
-    const response = await this.makeRequest<{ contacts: Contact[] }>(
+    const response = await this.transport.request<{ contacts: Contact[] }>(
       'GET',
       '/api/contacts/search',
       undefined,
-      params
+      { ...requestOptions, params }
     );
 
     return response.contacts;
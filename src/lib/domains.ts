@@ -0,0 +1,299 @@
+/**
+ * Metigan Domains Module
+ * Handles sending domains and the DNS records they require
+ * @version 2.0.0
+ */
+
+import { Transport } from '../utils/http';
+import type { HttpAdapter, HttpAdapterName, Interceptor } from '../utils/http';
+import type { RetryPolicy } from '../utils/retry';
+import { raceSignal } from '../utils/retry';
+import type { TokenBucketLimiter, TokenBucketOptions } from '../utils/rate-limit';
+import { paginate } from '../utils/pagination';
+import { MetiganError, ValidationError, DomainNotVerifiedError } from './errors';
+import { DEFAULT_PAGE_SIZE, DEFAULT_DOMAIN_CACHE_TTL } from './config';
+import { sanitizeEmail } from './security';
+import type {
+  Domain,
+  DomainStatus,
+  CreateDomainOptions,
+  DomainListResponse,
+  PaginationOptions,
+  RequestOptions,
+  MutationOptions,
+  IterateOptions
+} from './types';
+
+/**
+ * Page size used when loading every domain into the cache
+ */
+const CACHE_PAGE_SIZE = 100;
+
+/**
+ * Domains module options
+ */
+export interface DomainsModuleOptions {
+  apiKey: string;
+  /** Base URL of the Metigan API */
+  baseUrl?: string;
+  timeout?: number;
+  retryCount?: number;
+  retryDelay?: number;
+  /** Retry policy */
+  retryPolicy?: RetryPolicy;
+  /** Attach generated idempotency keys to mutating requests */
+  idempotencyKeys?: boolean;
+  /** HTTP adapter or built-in adapter name */
+  adapter?: HttpAdapter | HttpAdapterName;
+  /** Request/response interceptors */
+  interceptors?: Interceptor[];
+  /** Token-bucket rate limiter, or its options */
+  rateLimit?: TokenBucketLimiter | TokenBucketOptions;
+  /** Shared transport (created from the options above when omitted) */
+  transport?: Transport;
+  /** How long domain statuses used by assertVerified() are cached, in ms (default: 300000) */
+  cacheTtl?: number;
+}
+
+/**
+ * MetiganDomains class for sending domain operations
+ */
+export class MetiganDomains {
+  private transport: Transport;
+  private cacheTtl: number;
+  private cache: { domains: Map<string, DomainStatus>; loadedAt: number } | null = null;
+  private pendingLoad: Promise<Map<string, DomainStatus>> | null = null;
+
+  /**
+   * Create a new MetiganDomains instance
+   * @param options - Domains module options
+   */
+  constructor(options: DomainsModuleOptions) {
+    if (!options.apiKey) {
+      throw new MetiganError('API key is required');
+    }
+
+    this.transport = options.transport || new Transport(options);
+    this.cacheTtl = options.cacheTtl ?? DEFAULT_DOMAIN_CACHE_TTL;
+  }
+
+  /**
+   * Add a sending domain
+   * The returned domain lists the SPF, DKIM, DMARC and return-path records to configure.
+   * @param options - Domain name and return-path subdomain
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Created domain with its DNS records
+   */
+  async create(options: CreateDomainOptions, requestOptions: RequestOptions = {}): Promise<Domain> {
+    const name = this.normalizeDomain(options.name);
+    if (!name) {
+      throw new ValidationError('Domain name is required');
+    }
+    if (!this.isValidDomain(name)) {
+      throw new ValidationError(`Invalid domain name: ${options.name}`);
+    }
+
+    const response = await this.transport.request<Domain>('POST', '/api/domains', {
+      name,
+      returnPathSubdomain: options.returnPathSubdomain?.trim()
+    }, { ...requestOptions, idempotencyKey: options.idempotencyKey });
+
+    this.cache?.domains.set(name, response.status);
+
+    return response;
+  }
+
+  /**
+   * List sending domains
+   * @param options - Pagination options
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Domain list
+   */
+  async list(options: PaginationOptions = {}, requestOptions: RequestOptions = {}): Promise<DomainListResponse> {
+    const params = new URLSearchParams();
+
+    if (options.cursor) {
+      params.append('cursor', options.cursor);
+    } else if (options.page) {
+      params.append('page', options.page.toString());
+    }
+    if (options.limit) {
+      params.append('limit', options.limit.toString());
+    }
+
+    const queryString = params.toString();
+    const endpoint = queryString ? `/api/domains?${queryString}` : '/api/domains';
+
+    const response = await this.transport.request<DomainListResponse>('GET', endpoint, undefined, requestOptions);
+    return response;
+  }
+
+  /**
+   * Iterate over every sending domain, fetching pages lazily
+   * @param options - Page size, prefetch depth and per-call options
+   * @returns Async iterator of domains
+   */
+  iterate(options: IterateOptions = {}): AsyncIterableIterator<Domain> {
+    const { pageSize = DEFAULT_PAGE_SIZE, prefetch, ...requestOptions } = options;
+
+    return paginate<Domain>(async ({ page, cursor, limit }) => {
+      const response = await this.list({ page, cursor, limit }, requestOptions);
+      return {
+        items: response.domains || [],
+        pages: response.pagination?.pages,
+        nextCursor: response.pagination?.nextCursor
+      };
+    }, { pageSize, prefetch });
+  }
+
+  /**
+   * Get a sending domain by ID
+   * @param domainId - Domain ID
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Domain with its DNS records
+   */
+  async get(domainId: string, requestOptions: RequestOptions = {}): Promise<Domain> {
+    if (!domainId) {
+      throw new ValidationError('Domain ID is required');
+    }
+
+    const response = await this.transport.request<Domain>('GET', `/api/domains/${domainId}`, undefined, requestOptions);
+    return response;
+  }
+
+  /**
+   * Check the domain's DNS records now
+   * @param domainId - Domain ID
+   * @param requestOptions - Per-call options (signal, timeout, idempotencyKey)
+   * @returns Domain with updated record statuses
+   */
+  async verify(domainId: string, requestOptions: MutationOptions = {}): Promise<Domain> {
+    if (!domainId) {
+      throw new ValidationError('Domain ID is required');
+    }
+
+    const response = await this.transport.request<Domain>(
+      'POST',
+      `/api/domains/${domainId}/verify`,
+      undefined,
+      requestOptions
+    );
+
+    if (this.cache && response.name) {
+      this.cache.domains.set(this.normalizeDomain(response.name), response.status);
+    }
+
+    return response;
+  }
+
+  /**
+   * Delete a sending domain
+   * @param domainId - Domain ID
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Success status
+   */
+  async delete(domainId: string, requestOptions: RequestOptions = {}): Promise<{ success: boolean }> {
+    if (!domainId) {
+      throw new ValidationError('Domain ID is required');
+    }
+
+    const response = await this.transport.request<{ success: boolean }>(
+      'DELETE',
+      `/api/domains/${domainId}`,
+      undefined,
+      requestOptions
+    );
+
+    // The name is not known here, so reload on next use
+    this.clearCache();
+
+    return response;
+  }
+
+  /**
+   * Throw unless the domain of a sender address is verified
+   * Statuses come from a cached domain list, refreshed after `cacheTtl`.
+   * @param from - Sender address (plain or "Name <email>") or domain name
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @throws DomainNotVerifiedError if the domain is missing, pending or failed
+   */
+  async assertVerified(from: string, requestOptions: RequestOptions = {}): Promise<void> {
+    const domain = this.extractDomain(from);
+    if (!domain) {
+      throw new ValidationError(`Invalid sender address: ${from}`);
+    }
+
+    const domains = await this.getStatuses(requestOptions);
+    const status = domains.get(domain);
+    if (status !== 'verified') {
+      throw new DomainNotVerifiedError(domain, status || 'missing');
+    }
+  }
+
+  /**
+   * Drop the cached domain statuses so the next assertVerified() reloads them
+   */
+  clearCache(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Get the cached domain statuses, loading them when missing or stale
+   * Concurrent callers share a single load, started without any caller's signal;
+   * aborting only stops that caller's wait.
+   * @param requestOptions - Per-call options (signal, timeout)
+   */
+  private async getStatuses(requestOptions: RequestOptions): Promise<Map<string, DomainStatus>> {
+    if (this.cache && Date.now() - this.cache.loadedAt < this.cacheTtl) {
+      return this.cache.domains;
+    }
+
+    if (!this.pendingLoad) {
+      const { signal: _signal, ...loadOptions } = requestOptions;
+      this.pendingLoad = (async () => {
+        const domains = new Map<string, DomainStatus>();
+        for await (const domain of this.iterate({ ...loadOptions, pageSize: CACHE_PAGE_SIZE })) {
+          domains.set(this.normalizeDomain(domain.name), domain.status);
+        }
+        this.cache = { domains, loadedAt: Date.now() };
+        return domains;
+      })();
+      this.pendingLoad.then(
+        () => { this.pendingLoad = null; },
+        () => { this.pendingLoad = null; }
+      );
+    }
+
+    return raceSignal(this.pendingLoad, requestOptions.signal);
+  }
+
+  /**
+   * Get the lower-cased domain of a sender address or domain name
+   * @param from - Sender address (plain or "Name <email>") or domain name
+   */
+  private extractDomain(from: string): string {
+    const address = sanitizeEmail(from || '');
+    const match = address.match(/<([^>]+)>/);
+    const email = (match ? match[1] : address).trim();
+    const at = email.lastIndexOf('@');
+    return this.normalizeDomain(at >= 0 ? email.slice(at + 1) : email);
+  }
+
+  /**
+   * Trim and lower-case a domain name, dropping a trailing dot
+   * @param name - Domain name
+   */
+  private normalizeDomain(name: string): string {
+    return (name || '').trim().toLowerCase().replace(/\.$/, '');
+  }
+
+  /**
+   * Check a domain name's syntax
+   * @param name - Normalized domain name
+   */
+  private isValidDomain(name: string): boolean {
+    return name.length <= 253 && /^(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/.test(name);
+  }
+}
+
+export default MetiganDomains;
@@ -2,41 +2,234 @@
  * Custom error classes for Metigan
  */
 
+import type { HtmlRemoval } from '../utils/sanitize';
+import type { LintDiagnostic } from '../utils/lint';
+
 /**
  * Base error class for Metigan-specific errors
  * Hides implementation details from stack traces
  */
 export class MetiganError extends Error {
-    constructor(message: string) {
-      super(message);
-      this.name = 'MetiganError';
-      
-      // This prevents the implementation details from showing in the stack trace
-      if (Error.captureStackTrace) {
-        Error.captureStackTrace(this, this.constructor);
-      }
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetiganError';
+
+    // This prevents the implementation details from showing in the stack trace
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
     }
   }
-  
-  /**
-   * Error thrown when validation fails
-   */
-  export class ValidationError extends MetiganError {
-    constructor(message: string) {
-      super(message);
-      this.name = 'ValidationError';
-    }
+}
+
+/**
+ * Error thrown when validation fails
+ */
+export class ValidationError extends MetiganError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
   }
-  
-  /**
-   * Error thrown when API request fails
-   */
-  export class ApiError extends MetiganError {
-    status?: number;
-    
-    constructor(message: string, status?: number) {
-      super(message);
-      this.name = 'ApiError';
-      this.status = status;
-    }
-  }
\ No newline at end of file
+}
+
+/**
+ * Additional details attached to an ApiError
+ */
+export interface ApiErrorDetails {
+  /** Machine-readable error code returned by the server */
+  code?: string;
+  /** Parsed response body */
+  body?: any;
+  /** Request ID returned by the server (x-request-id) */
+  requestId?: string;
+  /** Whether retrying the same request may succeed */
+  isRetryable?: boolean;
+}
+
+/**
+ * Error thrown when API request fails
+ */
+export class ApiError extends MetiganError {
+  /** HTTP status code (undefined when no response was received) */
+  status?: number;
+  /** Machine-readable error code returned by the server */
+  code?: string;
+  /** Parsed response body */
+  body?: any;
+  /** Request ID returned by the server */
+  requestId?: string;
+  /** Whether retrying the same request may succeed */
+  isRetryable: boolean;
+
+  constructor(message: string, status?: number, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = details.code;
+    this.body = details.body;
+    this.requestId = details.requestId;
+    this.isRetryable = details.isRetryable ?? isRetryableStatus(status);
+  }
+}
+
+/**
+ * Error thrown when the API key is missing or invalid (401)
+ */
+export class AuthenticationError extends ApiError {
+  constructor(message: string, status: number = 401, details: ApiErrorDetails = {}) {
+    super(message, status, details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Error thrown when the API key lacks permission for the resource (403)
+ */
+export class PermissionError extends ApiError {
+  constructor(message: string, status: number = 403, details: ApiErrorDetails = {}) {
+    super(message, status, details);
+    this.name = 'PermissionError';
+  }
+}
+
+/**
+ * Error thrown when the resource does not exist (404)
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string, status: number = 404, details: ApiErrorDetails = {}) {
+    super(message, status, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Error thrown when the resource conflicts with existing state (409)
+ */
+export class ConflictError extends ApiError {
+  constructor(message: string, status: number = 409, details: ApiErrorDetails = {}) {
+    super(message, status, details);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Error thrown when the API rate limit is exceeded (429)
+ */
+export class RateLimitError extends ApiError {
+  /** Seconds to wait before retrying, from the Retry-After header */
+  retryAfter?: number;
+
+  constructor(message: string, retryAfter?: number, status: number = 429, details: ApiErrorDetails = {}) {
+    super(message, status, details);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Error thrown when the server fails to process the request (5xx)
+ */
+export class ServerError extends ApiError {
+  constructor(message: string, status: number = 500, details: ApiErrorDetails = {}) {
+    super(message, status, details);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Error thrown when no response was received from the API
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, undefined, details);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Error thrown when the request exceeded its timeout
+ */
+export class TimeoutError extends NetworkError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Error thrown when a request is cancelled through its AbortSignal
+ */
+export class AbortError extends MetiganError {
+  constructor(message: string = 'The request was aborted') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Error thrown in sanitize mode 'reject' when the sanitizer would alter the content
+ */
+export class UnsafeHtmlError extends ValidationError {
+  /** What the sanitizer would remove */
+  removals: HtmlRemoval[];
+
+  constructor(removals: HtmlRemoval[]) {
+    const first = removals[0];
+    super(`HTML content would be altered by the sanitizer (${removals.length} removal${removals.length === 1 ? '' : 's'}, first: ${first.type} "${first.name}" at line ${first.line}, column ${first.column})`);
+    this.name = 'UnsafeHtmlError';
+    this.removals = removals;
+  }
+}
+
+/**
+ * Error thrown before sending when linting finds error diagnostics
+ */
+export class EmailLintError extends ValidationError {
+  /** Every diagnostic, including warnings */
+  diagnostics: LintDiagnostic[];
+
+  constructor(diagnostics: LintDiagnostic[]) {
+    const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+    const first = errors[0];
+    super(`Email HTML failed linting (${errors.length} error${errors.length === 1 ? '' : 's'}, first: ${first.message} at line ${first.line}, column ${first.column})`);
+    this.name = 'EmailLintError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Error thrown before sending when the sender domain is not verified
+ */
+export class DomainNotVerifiedError extends ValidationError {
+  /** Sender domain */
+  domain: string;
+  /** Domain status, or 'missing' when the domain was never added */
+  status: 'pending' | 'failed' | 'missing';
+
+  constructor(domain: string, status: 'pending' | 'failed' | 'missing') {
+    super(status === 'missing'
+      ? `Sender domain ${domain} has not been added to your account`
+      : `Sender domain ${domain} is not verified (status: ${status})`);
+    this.name = 'DomainNotVerifiedError';
+    this.domain = domain;
+    this.status = status;
+  }
+}
+
+/**
+ * Error thrown when a webhook signature is missing, malformed, invalid or expired
+ */
+export class WebhookSignatureError extends MetiganError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookSignatureError';
+  }
+}
+
+/**
+ * Whether a failed request with this status may succeed when retried
+ * @param status - HTTP status code (undefined for network errors)
+ */
+export function isRetryableStatus(status?: number): boolean {
+  if (!status) return true;
+  return status === 408 || status === 429 || status >= 500;
+}
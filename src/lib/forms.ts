@@ -4,16 +4,23 @@
  * @version 2.0.0
  */
 
-import * as http from '../utils/http';
-import { MetiganError, ApiError, ValidationError } from './errors';
-import { API_URL, DEFAULT_TIMEOUT, DEFAULT_RETRY_COUNT, DEFAULT_RETRY_DELAY } from './config';
+import { Transport } from '../utils/http';
+import type { HttpAdapter, HttpAdapterName, Interceptor } from '../utils/http';
+import type { RetryPolicy } from '../utils/retry';
+import type { TokenBucketLimiter, TokenBucketOptions } from '../utils/rate-limit';
+import { paginate } from '../utils/pagination';
+import { MetiganError, ValidationError } from './errors';
+import { DEFAULT_PAGE_SIZE } from './config';
 import type {
   FormConfig,
   FormSubmissionOptions,
   FormSubmissionResponse,
   FormListResponse,
   FormAnalytics,
-  PaginationOptions
+  PaginationOptions,
+  RequestOptions,
+  MutationOptions,
+  IterateOptions
 } from './types';
 
 /**
@@ -21,19 +28,30 @@ import type {
  */
 export interface FormsModuleOptions {
   apiKey: string;
+  /** Base URL of the Metigan API */
+  baseUrl?: string;
   timeout?: number;
   retryCount?: number;
   retryDelay?: number;
+  /** Retry policy */
+  retryPolicy?: RetryPolicy;
+  /** Attach generated idempotency keys to mutating requests */
+  idempotencyKeys?: boolean;
+  /** HTTP adapter or built-in adapter name */
+  adapter?: HttpAdapter | HttpAdapterName;
+  /** Request/response interceptors */
+  interceptors?: Interceptor[];
+  /** Token-bucket rate limiter, or its options */
+  rateLimit?: TokenBucketLimiter | TokenBucketOptions;
+  /** Shared transport (created from the options above when omitted) */
+  transport?: Transport;
 }
 
 /**
  * MetiganForms class for form operations
  */
 export class MetiganForms {
-  private apiKey: string;
-  private timeout: number;
-  private retryCount: number;
-  private retryDelay: number;
+  private transport: Transport;
 
   /**
    * Create a new MetiganForms instance
@@ -44,78 +62,16 @@ export class MetiganForms {
       throw new MetiganError('API key is required');
     }
 
-    this.apiKey = options.apiKey;
-    this.timeout = options.timeout || DEFAULT_TIMEOUT;
-    this.retryCount = options.retryCount || DEFAULT_RETRY_COUNT;
-    this.retryDelay = options.retryDelay || DEFAULT_RETRY_DELAY;
-  }
-
-  /**
-   * Get default headers for API requests
-   */
-  private getHeaders(): Record<string, string> {
-    return {
-      'Content-Type': 'application/json',
-      'x-api-key': this.apiKey,
-      'User-Agent': 'MetiganSDK/2.0'
-    };
-  }
-
-  /**
-   * Make request with retry logic
-   */
-  private async makeRequest<T>(
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
-    endpoint: string,
-    data?: any
-  ): Promise<T> {
-    const url = `${API_URL}${endpoint}`;
-    const headers = this.getHeaders();
-    let lastError: any;
-
-    for (let attempt = 0; attempt < this.retryCount; attempt++) {
-      try {
-        switch (method) {
-          case 'GET':
-            return await http.get<T>(url, headers, { timeout: this.timeout });
-          case 'POST':
-            return await http.post<T>(url, data, headers, { timeout: this.timeout });
-          case 'PUT':
-            return await http.put<T>(url, data, headers, { timeout: this.timeout });
-          case 'DELETE':
-            return await http.del<T>(url, headers, { timeout: this.timeout });
-        }
-      } catch (error: any) {
-        lastError = error;
-
-        // Don't retry on client errors (4xx)
-        if (error.status && error.status >= 400 && error.status < 500) {
-          throw new ApiError(
-            error.data?.message || error.data?.error || `Request failed with status ${error.status}`,
-            error.status
-          );
-        }
-
-        // Wait before retrying
-        if (attempt < this.retryCount - 1) {
-          const delay = this.retryDelay * Math.pow(2, attempt);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-      }
-    }
-
-    throw new ApiError(
-      lastError?.data?.message || 'Request failed after multiple attempts',
-      lastError?.status
-    );
+    this.transport = options.transport || new Transport(options);
   }
 
   /**
    * Submit data to a form
    * @param options - Submission options
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Submission response
    */
-  async submit(options: FormSubmissionOptions): Promise<FormSubmissionResponse> {
+  async submit(options: FormSubmissionOptions, requestOptions: RequestOptions = {}): Promise<FormSubmissionResponse> {
     // Validate required fields
     if (!options.formId) {
       throw new ValidationError('Form ID is required');
@@ -125,13 +81,14 @@ export class MetiganForms {
       throw new ValidationError('Submission data is required');
     }
 
-    const response = await this.makeRequest<FormSubmissionResponse>(
+    const response = await this.transport.request<FormSubmissionResponse>(
       'POST',
       '/api/submissions',
       {
         formId: options.formId,
         data: options.data
-      }
+      },
+      { ...requestOptions, idempotencyKey: options.idempotencyKey }
     );
 
     return response;
@@ -140,16 +97,19 @@ export class MetiganForms {
   /**
    * Get form by ID or slug
    * @param formIdOrSlug - Form ID or slug
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Form configuration
    */
-  async getForm(formIdOrSlug: string): Promise<FormConfig> {
+  async getForm(formIdOrSlug: string, requestOptions: RequestOptions = {}): Promise<FormConfig> {
     if (!formIdOrSlug) {
       throw new ValidationError('Form ID or slug is required');
     }
 
-    const response = await this.makeRequest<FormConfig>(
+    const response = await this.transport.request<FormConfig>(
       'GET',
-      `/api/forms/${formIdOrSlug}`
+      `/api/forms/${formIdOrSlug}`,
+      undefined,
+      requestOptions
     );
 
     return response;
@@ -158,16 +118,19 @@ export class MetiganForms {
   /**
    * Get form by slug (public)
    * @param slug - Form slug
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Form configuration for public display
    */
-  async getPublicForm(slug: string): Promise<FormConfig> {
+  async getPublicForm(slug: string, requestOptions: RequestOptions = {}): Promise<FormConfig> {
     if (!slug) {
       throw new ValidationError('Form slug is required');
     }
 
-    const response = await this.makeRequest<FormConfig>(
+    const response = await this.transport.request<FormConfig>(
       'GET',
-      `/f/${slug}/api`
+      `/f/${slug}/api`,
+      undefined,
+      requestOptions
     );
 
     return response;
@@ -176,12 +139,15 @@ export class MetiganForms {
   /**
    * List all forms
    * @param options - Pagination options
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns List of forms
    */
-  async listForms(options?: PaginationOptions): Promise<FormListResponse> {
+  async listForms(options?: PaginationOptions, requestOptions: RequestOptions = {}): Promise<FormListResponse> {
     const params = new URLSearchParams();
     
-    if (options?.page) {
+    if (options?.cursor) {
+      params.append('cursor', options.cursor);
+    } else if (options?.page) {
       params.append('page', options.page.toString());
     }
     if (options?.limit) {
@@ -191,23 +157,44 @@ export class MetiganForms {
     const queryString = params.toString();
     const endpoint = queryString ? `/api/forms?${queryString}` : '/api/forms';
 
-    const response = await this.makeRequest<FormListResponse>('GET', endpoint);
+    const response = await this.transport.request<FormListResponse>('GET', endpoint, undefined, requestOptions);
     return response;
   }
 
+  /**
+   * Iterate over every form, fetching pages lazily
+   * @param options - Page size, prefetch depth and per-call options
+   * @returns Async iterator of forms
+   */
+  iterateForms(options: IterateOptions = {}): AsyncIterableIterator<FormConfig> {
+    const { pageSize = DEFAULT_PAGE_SIZE, prefetch, ...requestOptions } = options;
+
+    return paginate<FormConfig>(async ({ page, cursor, limit }) => {
+      const response = await this.listForms({ page, cursor, limit }, requestOptions);
+      return {
+        items: response.forms || [],
+        pages: response.pagination?.pages,
+        nextCursor: response.pagination?.nextCursor
+      };
+    }, { pageSize, prefetch });
+  }
+
   /**
    * Get form analytics
    * @param formId - Form ID
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Form analytics data
    */
-  async getAnalytics(formId: string): Promise<FormAnalytics> {
+  async getAnalytics(formId: string, requestOptions: RequestOptions = {}): Promise<FormAnalytics> {
     if (!formId) {
       throw new ValidationError('Form ID is required');
     }
 
-    const response = await this.makeRequest<FormAnalytics>(
+    const response = await this.transport.request<FormAnalytics>(
       'GET',
-      `/api/forms/${formId}/analytics`
+      `/api/forms/${formId}/analytics`,
+      undefined,
+      requestOptions
     );
 
     return response;
@@ -216,9 +203,10 @@ export class MetiganForms {
   /**
    * Create a new form
    * @param config - Form configuration
+   * @param requestOptions - Per-call options (signal, timeout, idempotencyKey)
    * @returns Created form
    */
-  async createForm(config: Omit<FormConfig, 'id'>): Promise<FormConfig> {
+  async createForm(config: Omit<FormConfig, 'id'>, requestOptions: MutationOptions = {}): Promise<FormConfig> {
     if (!config.title) {
       throw new ValidationError('Form title is required');
     }
@@ -227,7 +215,7 @@ export class MetiganForms {
       throw new ValidationError('At least one field is required');
     }
 
-    const response = await this.makeRequest<FormConfig>('POST', '/api/forms', config);
+    const response = await this.transport.request<FormConfig>('POST', '/api/forms', config, requestOptions);
     return response;
   }
 
@@ -235,17 +223,19 @@ export class MetiganForms {
    * Update an existing form
    * @param formId - Form ID
    * @param config - Updated form configuration
+   * @param requestOptions - Per-call options (signal, timeout, idempotencyKey)
    * @returns Updated form
    */
-  async updateForm(formId: string, config: Partial<FormConfig>): Promise<FormConfig> {
+  async updateForm(formId: string, config: Partial<FormConfig>, requestOptions: MutationOptions = {}): Promise<FormConfig> {
     if (!formId) {
       throw new ValidationError('Form ID is required');
     }
 
-    const response = await this.makeRequest<FormConfig>(
+    const response = await this.transport.request<FormConfig>(
       'PUT',
       `/api/forms/${formId}`,
-      config
+      config,
+      requestOptions
     );
 
     return response;
@@ -254,16 +244,19 @@ export class MetiganForms {
   /**
    * Delete a form
    * @param formId - Form ID
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Success status
    */
-  async deleteForm(formId: string): Promise<{ success: boolean }> {
+  async deleteForm(formId: string, requestOptions: RequestOptions = {}): Promise<{ success: boolean }> {
     if (!formId) {
       throw new ValidationError('Form ID is required');
     }
 
-    const response = await this.makeRequest<{ success: boolean }>(
+    const response = await this.transport.request<{ success: boolean }>(
       'DELETE',
-      `/api/forms/${formId}`
+      `/api/forms/${formId}`,
+      undefined,
+      requestOptions
     );
 
     return response;
@@ -273,17 +266,19 @@ export class MetiganForms {
    * Publish a form
    * @param formId - Form ID
    * @param slug - Optional custom slug
+   * @param requestOptions - Per-call options (signal, timeout, idempotencyKey)
    * @returns Published form URL
    */
-  async publishForm(formId: string, slug?: string): Promise<{ publishedUrl: string; slug: string }> {
+  async publishForm(formId: string, slug?: string, requestOptions: MutationOptions = {}): Promise<{ publishedUrl: string; slug: string }> {
     if (!formId) {
       throw new ValidationError('Form ID is required');
     }
 
-    const response = await this.makeRequest<{ publishedUrl: string; slug: string }>(
+    const response = await this.transport.request<{ publishedUrl: string; slug: string }>(
       'POST',
       `/api/forms/${formId}/publish`,
-      { slug }
+      { slug },
+      requestOptions
     );
 
     return response;
@@ -292,16 +287,19 @@ export class MetiganForms {
   /**
    * Unpublish a form
    * @param formId - Form ID
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Success status
    */
-  async unpublishForm(formId: string): Promise<{ success: boolean }> {
+  async unpublishForm(formId: string, requestOptions: RequestOptions = {}): Promise<{ success: boolean }> {
     if (!formId) {
       throw new ValidationError('Form ID is required');
     }
 
-    const response = await this.makeRequest<{ success: boolean }>(
+    const response = await this.transport.request<{ success: boolean }>(
       'DELETE',
-      `/api/forms/${formId}/publish`
+      `/api/forms/${formId}/publish`,
+      undefined,
+      requestOptions
     );
 
     return response;
@@ -311,11 +309,13 @@ export class MetiganForms {
    * Get form submissions
    * @param formId - Form ID
    * @param options - Pagination options
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns List of submissions
    */
   async getSubmissions(
     formId: string, 
-    options?: PaginationOptions
+    options?: PaginationOptions,
+    requestOptions: RequestOptions = {}
   ): Promise<{ submissions: any[]; pagination: any }> {
     if (!formId) {
       throw new ValidationError('Form ID is required');
@@ -324,21 +324,47 @@ export class MetiganForms {
     const params = new URLSearchParams();
     params.append('formId', formId);
     
-    if (options?.page) {
+    if (options?.cursor) {
+      params.append('cursor', options.cursor);
+    } else if (options?.page) {
       params.append('page', options.page.toString());
     }
     if (options?.limit) {
       params.append('limit', options.limit.toString());
     }
 
-    const response = await this.makeRequest<{ submissions: any[]; pagination: any }>(
+    const response = await this.transport.request<{ submissions: any[]; pagination: any }>(
       'GET',
-      `/api/submissions?${params.toString()}`
+      `/api/submissions?${params.toString()}`,
+      undefined,
+      requestOptions
     );
 
     return response;
   }
+
+  /**
+   * Iterate over every submission of a form, fetching pages lazily
+   * @param formId - Form ID
+   * @param options - Page size, prefetch depth and per-call options
+   * @returns Async iterator of submissions
+   */
+  iterateSubmissions(formId: string, options: IterateOptions = {}): AsyncIterableIterator<any> {
+    if (!formId) {
+      throw new ValidationError('Form ID is required');
+    }
+
+    const { pageSize = DEFAULT_PAGE_SIZE, prefetch, ...requestOptions } = options;
+
+    return paginate<any>(async ({ page, cursor, limit }) => {
+      const response = await this.getSubmissions(formId, { page, cursor, limit }, requestOptions);
+      return {
+        items: response.submissions || [],
+        pages: response.pagination?.pages,
+        nextCursor: response.pagination?.nextCursor
+      };
+    }, { pageSize, prefetch });
+  }
 }
 
 export default MetiganForms;
-
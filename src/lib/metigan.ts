@@ -5,19 +5,58 @@
  */
 
 // Import dependencies in a way that doesn't expose them in stack traces
-import * as http from '../utils/http';
-import axios from 'axios';
-import { API_URL, MAX_FILE_SIZE, DEFAULT_TIMEOUT, DEFAULT_RETRY_COUNT, DEFAULT_RETRY_DELAY } from './config';
+import { Transport } from '../utils/http';
+import type { HttpAdapter, HttpAdapterName, Interceptor } from '../utils/http';
+import type { RetryPolicy } from '../utils/retry';
+import { generateIdempotencyKey } from '../utils/retry';
+import { paginate } from '../utils/pagination';
+import { DEFAULT_PAGE_SIZE, MAX_FILE_SIZE, MAX_BATCH_SIZE, DEFAULT_BATCH_CONCURRENCY } from './config';
+import { MetiganError, ValidationError, ApiError, AbortError, AuthenticationError, PermissionError, NetworkError, UnsafeHtmlError, EmailLintError } from './errors';
+import { renderMergeTags, findMissingVariables } from '../utils/merge';
+import { htmlToText } from '../utils/text';
+import { MetiganSuppressions } from './suppressions';
+import { MetiganDomains } from './domains';
 import { 
   sanitizeHtml, 
   sanitizeEmail, 
   sanitizeSubject, 
   isAllowedMimeType, 
   isSafeFileExtension,
-  RateLimiter,
+  isSafeHeaderName,
+  isSafeHeaderValue,
   DebugLogger
 } from './security';
-import type { OtpSendOptions, TransactionalSendOptions, OtpSendResponse, TransactionalSendResponse } from './types';
+import { analyzeHtml } from '../utils/sanitize';
+import type { HtmlRemoval } from '../utils/sanitize';
+import { inlineCss } from '../utils/inline';
+import type { InlineCssOptions } from '../utils/inline';
+import { lintEmailHtml } from '../utils/lint';
+import { createRateLimiter } from '../utils/rate-limit';
+import type { TokenBucketLimiter, TokenBucketOptions } from '../utils/rate-limit';
+import type { LintOptions, LintDiagnostic } from '../utils/lint';
+import type {
+  OtpSendOptions,
+  TransactionalSendOptions,
+  OtpSendResponse,
+  TransactionalSendResponse,
+  EmailBatchOptions,
+  EmailBatchItemResult,
+  EmailBatchResult,
+  ScheduledEmail,
+  ScheduledEmailListOptions,
+  ScheduledEmailListResponse,
+  EmailMetadata,
+  SkippedRecipient,
+  EmailMessage,
+  EmailMessageListFilters,
+  EmailMessageListResponse,
+  EmailEventListResponse,
+  SanitizeMode,
+  SanitizeHtmlOptions,
+  RequestOptions,
+  MutationOptions,
+  IterateOptions
+} from './types';
 
 // Status options constants
 const STATUS_OPTIONS = [
@@ -56,16 +95,16 @@ class MetiganLogger {
   private apiKey: string;
   private userId: string;
   private disabled: boolean = false;
-  private retryCount: number = 3; // Number of retry attempts on failure
-  private retryDelay: number = 500; // Delay between retries (ms)
   private pendingLogs: Array<{endpoint: string, status: number, method: string}> = [];
   private isBatchProcessing: boolean = false;
   private batchTimeout: NodeJS.Timeout | null = null;
   private debug: DebugLogger;
+  private transport: Transport;
 
-  constructor(apiKey: string, userId: string, debugEnabled: boolean = false) {
+  constructor(apiKey: string, userId: string, transport: Transport, debugEnabled: boolean = false) {
     this.apiKey = apiKey;
     this.userId = userId;
+    this.transport = transport;
     this.debug = getDebugLogger(debugEnabled);
   }
 
@@ -130,49 +169,6 @@ class MetiganLogger {
     return 'SDK';
   }
 
-  /**
-   * Attempts to make a request with retries
-   * @param url - Request URL
-   * @param data - Data to send
-   * @param headers - Request headers
-   */
-  private async _makeRequestWithRetry(url: string, data: any, headers: any): Promise<any> {
-    let lastError;
-    
-    for (let attempt = 0; attempt < this.retryCount; attempt++) {
-      try {
-        return await axios.post(url, data, { headers, timeout: 5000 }); // 5 second timeout
-      } catch (err: any) {
-        lastError = err;
-        
-        // If error is 403 (Forbidden), check if it's an authentication problem
-        if (err.response && err.response.status === 403) {
-          // If last attempt, log the error silently
-          if (attempt === this.retryCount - 1) {
-            this.debug.warn('Authentication error while logging. Check your API key.');
-            return; // End attempts
-          }
-        }
-        
-        // If network error or timeout, try again more urgently
-        if (!err.response || err.code === 'ECONNABORTED') {
-          if (attempt === this.retryCount - 1) {
-            this.debug.warn('Connection error while logging. Check your connectivity.');
-            return;
-          }
-        }
-        
-        // Wait before retrying (except on last attempt)
-        if (attempt < this.retryCount - 1) {
-          await new Promise(resolve => setTimeout(resolve, this.retryDelay * (attempt + 1))); // Exponential backoff
-        }
-      }
-    }
-    
-    // If we got here, all attempts failed
-    throw lastError;
-  }
-
   /**
    * Processes the pending logs batch
    */
@@ -207,17 +203,20 @@ class MetiganLogger {
         };
       });
 
-      // Send batch
-      const headers = {
-        'Content-Type': 'application/json',
-        'x-api-key': this.apiKey,
-        'User-Agent': userAgent
-      };
-
-      await this._makeRequestWithRetry(`${API_URL}/api/logs`, { logs: batchData }, headers)
-        .catch(err => {
+      // Send batch as an internal request: one attempt, no rate limiting or interceptors
+      await this.transport.request('POST', '/api/logs', { logs: batchData }, {
+        headers: { 'User-Agent': userAgent },
+        timeout: 5000,
+        internal: true
+      }).catch(err => {
+        if (err instanceof AuthenticationError || err instanceof PermissionError) {
+          this.debug.warn('Authentication error while logging. Check your API key.');
+        } else if (err instanceof NetworkError) {
+          this.debug.warn('Connection error while logging. Check your connectivity.');
+        } else {
           this.debug.warn('Warning processing logs batch:', err.message || 'Unknown error');
-        });
+        }
+      });
     } catch (error: any) {
       this.debug.warn('Error processing logs batch:', error.message || 'Unknown error');
     } finally {
@@ -253,21 +252,6 @@ class MetiganLogger {
   }
 }
 
-/**
- * Custom error class for Metigan-specific errors
- */
-export class MetiganError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'MetiganError';
-    
-    // This prevents the implementation details from showing in the stack trace
-    if (Error.captureStackTrace) {
-      Error.captureStackTrace(this, this.constructor);
-    }
-  }
-}
-
 /**
  * Interface for email attachment in Node.js environment
  */
@@ -309,8 +293,14 @@ export interface EmailOptions {
   subject: string;
   /** Email content (HTML supported) - Required if not using templateId */
   content?: string;
+  /** Plain-text alternative (generated from content when omitted) */
+  text?: string;
   /** Template ID for using pre-created templates (optional) */
   templateId?: string;
+  /** Variables applied to every recipient ({{name}} merge tags or template data) */
+  variables?: TemplateVariables;
+  /** Variables for individual recipients, keyed by email address (override `variables`) */
+  recipientVariables?: Record<string, TemplateVariables>;
   /** Optional file attachments */
   attachments?: Array<File | NodeAttachment | CustomAttachment>;
   /** Optional CC recipients */
@@ -319,6 +309,28 @@ export interface EmailOptions {
   bcc?: string[];
   /** Optional reply-to address */
   replyTo?: string;
+  /** Custom headers (e.g. List-Unsubscribe, X-Entity-Ref-ID) */
+  headers?: Record<string, string>;
+  /** Tags used to categorize the email in analytics */
+  tags?: string[];
+  /** Arbitrary key/value data returned with message events */
+  metadata?: EmailMetadata;
+  /** Optional tracking ID to correlate the send with your own records */
+  trackingId?: string;
+  /** Drop recipients on the suppression list before sending (reported as skippedRecipients) */
+  filterSuppressed?: boolean;
+  /** Reject the send locally when the sender domain is not verified (overrides the client default) */
+  requireVerifiedDomain?: boolean;
+  /** Move <style> rules into style attributes before sending (overrides the client default) */
+  inlineCss?: boolean;
+  /** Lint the HTML before sending; error diagnostics reject the send (overrides the client default) */
+  lint?: boolean | LintOptions;
+  /** Schedule delivery for a later time (Date or ISO 8601 string) */
+  sendAt?: Date | string;
+  /** IANA timezone used to interpret a `sendAt` without an offset (e.g. 'America/Sao_Paulo') */
+  timezone?: string;
+  /** Optional idempotency key (generated automatically when omitted) */
+  idempotencyKey?: string;
 }
 
 /**
@@ -345,6 +357,16 @@ export interface EmailSuccessResponse {
   }[];
   recipientCount: number;
   emailsRemaining: number;
+  /** ID of the scheduled message when `sendAt` was set */
+  scheduledMessageId?: string;
+  /** Scheduled delivery time (ISO 8601) */
+  scheduledAt?: string;
+  /** Recipients dropped because they are suppressed (with filterSuppressed) */
+  skippedRecipients?: SkippedRecipient[];
+  /** What the sanitizer removed from the content (sanitize mode 'report') */
+  sanitizationReport?: HtmlRemoval[];
+  /** Lint warnings for the content (with lint) */
+  lintDiagnostics?: LintDiagnostic[];
 }
 
 /**
@@ -367,6 +389,21 @@ export interface ApiKeyErrorResponse {
  */
 export type EmailApiResponse = EmailSuccessResponse | EmailErrorResponse | ApiKeyErrorResponse;
 
+/**
+ * API response for a batch send request
+ * Results are returned in the order the messages were sent.
+ */
+interface EmailBatchApiResponse {
+  emailsRemaining?: number;
+  results: Array<{
+    success?: boolean;
+    message?: string;
+    error?: string;
+    successfulEmails?: EmailSuccessResponse['successfulEmails'];
+    failedEmails?: EmailSuccessResponse['failedEmails'];
+  }>;
+}
+
 /**
  * Template variables type
  */
@@ -381,6 +418,8 @@ export type TemplateFunction = (variables?: TemplateVariables) => string;
  * Metigan client options
  */
 export interface MetiganOptions {
+  /** Base URL of the Metigan API (default: METIGAN_API_URL or https://api.metigan.com) */
+  baseUrl?: string;
   /** User ID for logging */
   userId?: string;
   /** Disable logging */
@@ -389,30 +428,61 @@ export interface MetiganOptions {
   retryCount?: number;
   /** Base delay between retries (ms) */
   retryDelay?: number;
+  /** Retry policy (backoff, jitter, retryable statuses, per-method rules) */
+  retryPolicy?: RetryPolicy;
+  /** Attach a generated Idempotency-Key to POST/PUT/PATCH requests (default: true) */
+  idempotencyKeys?: boolean;
   /** Request timeout (ms) */
   timeout?: number;
   /** Enable debug mode (shows internal logs) */
   debug?: boolean;
-  /** Enable HTML sanitization (default: true) */
-  sanitizeHtml?: boolean;
+  /** Enable HTML sanitization, optionally with a mode and custom allowlists (default: true) */
+  sanitizeHtml?: boolean | SanitizeMode | SanitizeHtmlOptions;
   /** Enable rate limiting (default: true) */
   enableRateLimit?: boolean;
   /** Max requests per second (default: 10) */
   maxRequestsPerSecond?: number;
+  /** Token-bucket rate limiter, or its options (queueing, per-endpoint buckets, adaptive slow-down) */
+  rateLimit?: TokenBucketLimiter | TokenBucketOptions;
+  /** HTTP adapter or built-in adapter name (default: fetch when available, otherwise axios) */
+  adapter?: HttpAdapter | HttpAdapterName;
+  /** Request/response interceptors (onRequest, onResponse, onError, onRetry) */
+  interceptors?: Interceptor[];
+  /** Shared transport (created from the options above when omitted) */
+  transport?: Transport;
+  /** Shared suppressions module used by filterSuppressed (created when omitted) */
+  suppressions?: MetiganSuppressions;
+  /** How long the suppression set used by filterSuppressed is cached, in ms (default: 300000) */
+  suppressionCacheTtl?: number;
+  /** Shared domains module used by requireVerifiedDomain (created when omitted) */
+  domains?: MetiganDomains;
+  /** Check that the sender domain is verified before every send (default: false) */
+  requireVerifiedDomain?: boolean;
+  /** How long sending domain statuses are cached, in ms (default: 300000) */
+  domainCacheTtl?: number;
+  /** Inline <style> rules into style attributes before every send, optionally with inliner options (default: false) */
+  inlineCss?: boolean | InlineCssOptions;
+  /** Lint the HTML of every sendEmail, optionally with lint options (default: false) */
+  lint?: boolean | LintOptions;
 }
 
 /**
  * Metigan client for sending emails
  */
 export class Metigan {
-  private apiKey: string;
   private logger: MetiganLogger;
-  private timeout: number;
-  private retryCount: number;
-  private retryDelay: number;
+  private transport: Transport;
   private debug: DebugLogger;
   private shouldSanitizeHtml: boolean;
-  private rateLimiter: RateLimiter | null;
+  private sanitizerOptions: SanitizeHtmlOptions;
+  private sanitizeMode: SanitizeMode;
+  private suppressions: MetiganSuppressions;
+  private domains: MetiganDomains;
+  private requireVerifiedDomain: boolean;
+  private inlineCss: boolean;
+  private inlineCssOptions: InlineCssOptions;
+  private lint: boolean;
+  private lintOptions: LintOptions;
 
   /**
    * Create a new Metigan client
@@ -429,30 +499,54 @@ export class Metigan {
       throw new MetiganError('Invalid API key format');
     }
     
-    this.apiKey = apiKey;
-    
     // Advanced options
-    this.timeout = options.timeout || DEFAULT_TIMEOUT;
-    this.retryCount = options.retryCount || DEFAULT_RETRY_COUNT;
-    this.retryDelay = options.retryDelay || DEFAULT_RETRY_DELAY;
+    this.transport = options.transport || new Transport({
+      apiKey,
+      baseUrl: options.baseUrl,
+      timeout: options.timeout,
+      retryCount: options.retryCount,
+      retryDelay: options.retryDelay,
+      retryPolicy: options.retryPolicy,
+      idempotencyKeys: options.idempotencyKeys,
+      adapter: options.adapter,
+      interceptors: options.interceptors,
+      rateLimit: createRateLimiter(options)
+    });
+    
+    // Suppression list used by filterSuppressed
+    this.suppressions = options.suppressions || new MetiganSuppressions({
+      apiKey,
+      transport: this.transport,
+      cacheTtl: options.suppressionCacheTtl
+    });
+    
+    // Sending domains used by requireVerifiedDomain
+    this.domains = options.domains || new MetiganDomains({
+      apiKey,
+      transport: this.transport,
+      cacheTtl: options.domainCacheTtl
+    });
+    this.requireVerifiedDomain = options.requireVerifiedDomain === true;
+    
+    // CSS inlining (default: disabled)
+    this.inlineCss = !!options.inlineCss;
+    this.inlineCssOptions = typeof options.inlineCss === 'object' ? options.inlineCss : {};
+    
+    // Pre-send linting (default: disabled)
+    this.lint = !!options.lint;
+    this.lintOptions = typeof options.lint === 'object' ? options.lint : {};
     
     // Security options
     this.debug = getDebugLogger(options.debug || false);
     this.shouldSanitizeHtml = options.sanitizeHtml !== false; // Default: true
-    
-    // Rate limiting (default: enabled, 10 req/sec)
-    if (options.enableRateLimit !== false) {
-      this.rateLimiter = new RateLimiter({
-        maxRequests: options.maxRequestsPerSecond || 10,
-        windowMs: 1000
-      });
-    } else {
-      this.rateLimiter = null;
-    }
+    this.sanitizerOptions = typeof options.sanitizeHtml === 'object' ? options.sanitizeHtml : {};
+    this.sanitizeMode = typeof options.sanitizeHtml === 'string'
+      ? options.sanitizeHtml
+      : this.sanitizerOptions.mode || 'strip';
     
     // Initialize logger
     const userId = options.userId || 'anonymous';
-    this.logger = new MetiganLogger(apiKey, userId, options.debug || false);
+    this.logger = new MetiganLogger(apiKey, userId, this.transport, options.debug || false);
     
     // Disable logs if requested
     if (options.disableLogs) {
@@ -585,6 +679,76 @@ export class Metigan {
       }
     }
 
+    // Validate custom headers against header injection
+    if (messageData.headers) {
+      for (const name of Object.keys(messageData.headers)) {
+        if (!isSafeHeaderName(name)) {
+          return { isValid: false, error: `Invalid or reserved header name: ${name}` };
+        }
+        if (!isSafeHeaderValue(messageData.headers[name])) {
+          return { isValid: false, error: `Invalid value for header ${name}` };
+        }
+      }
+    }
+
+    // Validate tags
+    if (messageData.tags) {
+      if (!Array.isArray(messageData.tags)) {
+        return { isValid: false, error: 'Tags must be an array of strings' };
+      }
+      for (const tag of messageData.tags) {
+        if (typeof tag !== 'string' || !tag.trim() || !isSafeHeaderValue(tag)) {
+          return { isValid: false, error: `Invalid tag: ${String(tag)}` };
+        }
+      }
+    }
+
+    // Validate metadata
+    if (messageData.metadata) {
+      for (const key of Object.keys(messageData.metadata)) {
+        const value = messageData.metadata[key];
+        if (!key.trim() || !isSafeHeaderValue(key)) {
+          return { isValid: false, error: `Invalid metadata key: ${key}` };
+        }
+        if (!['string', 'number', 'boolean'].includes(typeof value) || (typeof value === 'string' && !isSafeHeaderValue(value))) {
+          return { isValid: false, error: `Invalid metadata value for ${key}` };
+        }
+      }
+    }
+
+    // Validate tracking ID
+    if (messageData.trackingId !== undefined && (!messageData.trackingId || !isSafeHeaderValue(messageData.trackingId))) {
+      return { isValid: false, error: 'Invalid tracking ID' };
+    }
+
+    // Validate scheduling options
+    const scheduleError = this._validateSchedule(messageData.sendAt, messageData.timezone);
+    if (scheduleError) {
+      return { isValid: false, error: scheduleError };
+    }
+
+    // Validate per-recipient variables
+    if (messageData.recipientVariables) {
+      const recipients = messageData.recipients.map(r => this._extractEmailAddress(r).toLowerCase());
+      for (const address of Object.keys(messageData.recipientVariables)) {
+        if (!recipients.includes(this._extractEmailAddress(address).toLowerCase())) {
+          return { isValid: false, error: `Recipient variables provided for unknown recipient: ${address}` };
+        }
+      }
+    }
+
+    // Validate merge tags rendered locally
+    if (!messageData.templateId && messageData.variables && !this._hasRecipientVariables(messageData)) {
+      const missing = [
+        ...findMissingVariables(messageData.subject, messageData.variables),
+        ...findMissingVariables(messageData.content || '', messageData.variables),
+        ...findMissingVariables(messageData.text || '', messageData.variables)
+      ];
+      if (missing.length > 0) {
+        return { isValid: false, error: `Missing template variables: ${Array.from(new Set(missing)).join(', ')}` };
+      }
+    }
+
     return { isValid: true };
   }
 
@@ -768,72 +932,266 @@ export class Metigan {
   }
   
   /**
-   * Attempts HTTP request with retry system
-   * @param url - Request URL
-   * @param data - Data to send
-   * @param headers - Request headers
-   * @param method - HTTP method
+   * Validate scheduling options
+   * @param sendAt - Requested delivery time
+   * @param timezone - IANA timezone name
+   * @returns Error message, or undefined when valid
    * @private
    */
-  private async _makeRequestWithRetry<T>(
-    url: string, 
-    data: any, 
-    headers: Record<string, string>,
-    method: 'GET' | 'POST' = 'POST'
-  ): Promise<T> {
-    let lastError;
-    
-    for (let attempt = 0; attempt < this.retryCount; attempt++) {
+  private _validateSchedule(sendAt?: Date | string, timezone?: string): string | undefined {
+    if (timezone && !sendAt) {
+      return 'timezone requires sendAt';
+    }
+    if (!sendAt) {
+      return undefined;
+    }
+    
+    const time = sendAt instanceof Date ? sendAt.getTime() : Date.parse(sendAt);
+    if (isNaN(time)) {
+      return `Invalid sendAt date: ${String(sendAt)}`;
+    }
+    
+    if (timezone) {
       try {
-        if (method === 'GET') {
-          return await http.get<T>(url, headers);
-        } else {
-          return await http.post<T>(url, data, headers);
-        }
-      } catch (error: any) {
-        lastError = error;
-        
-        // If authentication error (401/403), we can retry a limited number of times
-        if (error.status === 401 || error.status === 403) {
-          this.debug.warn(`Attempt ${attempt + 1}/${this.retryCount}: Authentication error (${error.status})`);
-        }
-        
-        // If server error (5xx), retry after waiting
-        else if (error.status >= 500) {
-          this.debug.warn(`Attempt ${attempt + 1}/${this.retryCount}: Server error (${error.status})`);
-        }
-        
-        // If network error, also retry
-        else if (!error.status) {
-          this.debug.warn(`Attempt ${attempt + 1}/${this.retryCount}: Network error or timeout`);
-        }
-        
-        // If not last retry, wait before trying again
-        if (attempt < this.retryCount - 1) {
-          // Exponential backoff with jitter
-          const delay = this.retryDelay * Math.pow(2, attempt) * (0.5 + Math.random() * 0.5);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        } else {
-          // On last attempt, propagate the error
-          throw error;
-        }
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      } catch {
+        return `Invalid timezone: ${timezone}`;
       }
     }
     
-    // Should never reach here, but just in case
-    throw lastError;
+    return undefined;
+  }
+
+  /**
+   * Serialize a date for the API
+   * Strings are forwarded unchanged so wall-clock times keep their meaning with `timezone`.
+   * @param date - Date or ISO 8601 string
+   * @private
+   */
+  private _serializeDate(date: Date | string): string {
+    return date instanceof Date ? date.toISOString() : date;
+  }
+
+  /**
+   * Sanitize HTML content according to the sanitize mode
+   * @param content - HTML content
+   * @returns Sanitized content and, in 'report' mode, what was removed
+   * @throws UnsafeHtmlError in 'reject' mode if the content would be altered
+   * @private
+   */
+  private _sanitizeContent(content: string): { content: string; removals: HtmlRemoval[] } {
+    if (!this.shouldSanitizeHtml) {
+      return { content, removals: [] };
+    }
+    if (this.sanitizeMode === 'strip') {
+      return { content: sanitizeHtml(content, this.sanitizerOptions), removals: [] };
+    }
+    
+    const analysis = analyzeHtml(content, this.sanitizerOptions);
+    if (analysis.removals.length > 0) {
+      if (this.sanitizeMode === 'reject') {
+        throw new UnsafeHtmlError(analysis.removals);
+      }
+      this.debug.warn(`Sanitizer removed ${analysis.removals.length} element(s), attribute(s) or declaration(s) from the content`);
+    }
+    
+    return { content: analysis.html, removals: analysis.removals };
+  }
+
+  /**
+   * Inline <style> rules into style attributes when enabled
+   * @param content - HTML content
+   * @param enabled - Per-message override of the client default
+   * @returns Content with inlined styles, or the content unchanged
+   * @private
+   */
+  private _inlineContent(content: string, enabled?: boolean): string {
+    if (!(enabled ?? this.inlineCss)) {
+      return content;
+    }
+    
+    return inlineCss(content, this.inlineCssOptions);
+  }
+
+  /**
+   * Lint HTML content when enabled
+   * @param content - HTML content as it will be sent
+   * @param lint - Per-message override of the client default
+   * @returns Warning diagnostics
+   * @throws EmailLintError if linting finds errors
+   * @private
+   */
+  private _lintContent(content: string, lint?: boolean | LintOptions): LintDiagnostic[] {
+    if (!(lint ?? this.lint)) {
+      return [];
+    }
+    
+    const result = lintEmailHtml(content, { ...this.lintOptions, ...(typeof lint === 'object' ? lint : {}) });
+    if (!result.valid) {
+      throw new EmailLintError(result.diagnostics);
+    }
+    if (result.diagnostics.length > 0) {
+      this.debug.warn(`Lint found ${result.diagnostics.length} warning(s) in the content`);
+    }
+    
+    return result.diagnostics;
+  }
+
+  /**
+   * Validate and sanitize a message before sending
+   * @param options - Email options
+   * @returns Sanitized copy of the options, the sanitization report and lint warnings
+   * @throws ValidationError if the message is invalid
+   * @throws EmailLintError if linting is enabled and finds errors
+   * @private
+   */
+  private _prepareMessage(options: EmailOptions): {
+    message: EmailOptions;
+    removals: HtmlRemoval[];
+    diagnostics: LintDiagnostic[];
+  } {
+    const validation = this._validateMessageData(options);
+    if (!validation.isValid) {
+      throw new ValidationError(validation.error || 'Invalid email data');
+    }
+    
+    // Render merge tags locally when no template is used
+    let subject = options.subject;
+    let content = options.content;
+    let text = options.text;
+    if (!options.templateId && options.variables) {
+      subject = renderMergeTags(subject, options.variables, { escapeHtml: false });
+      content = content ? renderMergeTags(content, options.variables) : content;
+      text = text ? renderMergeTags(text, options.variables, { escapeHtml: false }) : text;
+    }
+    
+    let removals: HtmlRemoval[] = [];
+    let diagnostics: LintDiagnostic[] = [];
+    if (content) {
+      content = this._inlineContent(content, options.inlineCss);
+      ({ content, removals } = this._sanitizeContent(content));
+      diagnostics = this._lintContent(content, options.lint);
+    }
+    
+    const sanitizedOptions: EmailOptions = {
+      ...options,
+      from: sanitizeEmail(options.from),
+      recipients: options.recipients.map(r => sanitizeEmail(r)),
+      subject: sanitizeSubject(subject),
+      content,
+      // Generate the plain-text part from the sanitized HTML when not provided
+      text: text || (content && !options.templateId ? htmlToText(content) : undefined),
+      templateId: options.templateId,
+      cc: options.cc?.map(c => sanitizeEmail(c)),
+      bcc: options.bcc?.map(b => sanitizeEmail(b)),
+      replyTo: options.replyTo ? sanitizeEmail(options.replyTo) : undefined
+    };
+    
+    this.debug.log('Email sanitized and validated');
+    
+    return { message: sanitizedOptions, removals, diagnostics };
+  }
+
+  /**
+   * Build the JSON request body for a sanitized message
+   * @param sanitizedOptions - Options returned by _prepareMessage
+   * @param attachments - Processed attachments
+   * @returns Request body
+   * @private
+   */
+  private _buildPayload(sanitizedOptions: EmailOptions, attachments?: ProcessedAttachment[]): any {
+    const payload: any = {
+      from: sanitizedOptions.from,
+      recipients: sanitizedOptions.recipients,
+      subject: sanitizedOptions.subject
+    };
+    
+    if (attachments && attachments.length > 0) {
+      payload.attachments = attachments;
+    }
+    
+    // Add content or template
+    if (sanitizedOptions.templateId) {
+      payload.useTemplate = 'true';
+      payload.templateId = sanitizedOptions.templateId;
+      if (sanitizedOptions.variables) {
+        payload.variables = sanitizedOptions.variables;
+      }
+      if (sanitizedOptions.recipientVariables) {
+        payload.recipientVariables = sanitizedOptions.recipientVariables;
+      }
+    } else if (sanitizedOptions.content) {
+      payload.content = sanitizedOptions.content;
+    }
+    
+    // Add plain-text alternative if available
+    if (sanitizedOptions.text) {
+      payload.text = sanitizedOptions.text;
+    }
+    
+    // Add CC if provided
+    if (sanitizedOptions.cc && sanitizedOptions.cc.length > 0) {
+      payload.cc = sanitizedOptions.cc;
+    }
+    
+    // Add BCC if provided
+    if (sanitizedOptions.bcc && sanitizedOptions.bcc.length > 0) {
+      payload.bcc = sanitizedOptions.bcc;
+    }
+    
+    // Add reply-to if provided
+    if (sanitizedOptions.replyTo) {
+      payload.replyTo = sanitizedOptions.replyTo;
+    }
+    
+    // Add custom headers, tags, metadata and tracking ID if provided
+    if (sanitizedOptions.headers && Object.keys(sanitizedOptions.headers).length > 0) {
+      payload.headers = sanitizedOptions.headers;
+    }
+    if (sanitizedOptions.tags && sanitizedOptions.tags.length > 0) {
+      payload.tags = sanitizedOptions.tags;
+    }
+    if (sanitizedOptions.metadata && Object.keys(sanitizedOptions.metadata).length > 0) {
+      payload.metadata = sanitizedOptions.metadata;
+    }
+    if (sanitizedOptions.trackingId) {
+      payload.trackingId = sanitizedOptions.trackingId;
+    }
+    
+    // Add schedule if provided
+    if (sanitizedOptions.sendAt) {
+      payload.sendAt = this._serializeDate(sanitizedOptions.sendAt);
+      if (sanitizedOptions.timezone) {
+        payload.timezone = sanitizedOptions.timezone;
+      }
+    }
+    
+    return payload;
   }
 
   /**
    * Send an email
    * @param options - Email options
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Response from the API
    */
-  async sendEmail(options: EmailOptions): Promise<EmailApiResponse> {
-    // Check rate limit
-    if (this.rateLimiter && !this.rateLimiter.tryRequest()) {
-      const waitTime = this.rateLimiter.getTimeUntilNextRequest();
-      throw new MetiganError(`Rate limit exceeded. Please wait ${waitTime}ms before making another request.`);
+  async sendEmail(options: EmailOptions, requestOptions: RequestOptions = {}): Promise<EmailApiResponse> {
+    // Fail before sending when the sender domain is not verified
+    if (options.requireVerifiedDomain ?? this.requireVerifiedDomain) {
+      await this.domains.assertVerified(options.from, requestOptions);
+      options = { ...options, requireVerifiedDomain: false };
+    }
+    
+    // Drop suppressed recipients first and report them with the response
+    if (options.filterSuppressed) {
+      const { message, skipped } = await this._filterSuppressed(options, requestOptions);
+      const response = await this.sendEmail(message, requestOptions);
+      return 'successfulEmails' in response ? { ...response, skippedRecipients: skipped } : response;
+    }
+    
+    // Per-recipient merge tags rendered locally need one message per recipient
+    if (!options.templateId && this._hasRecipientVariables(options)) {
+      return this._sendPersonalized(options, requestOptions);
     }
     
     // Start monitoring
@@ -841,36 +1199,11 @@ export class Metigan {
     let statusCode = 500; // Default error status
     
     try {
-      // Validate message data
-      const validation = this._validateMessageData(options);
-      if (!validation.isValid) {
-        throw new MetiganError(validation.error || 'Invalid email data');
-      }
-      
-      // Sanitize inputs for security
-      const sanitizedOptions = {
-        ...options,
-        from: sanitizeEmail(options.from),
-        recipients: options.recipients.map(r => sanitizeEmail(r)),
-        subject: sanitizeSubject(options.subject),
-        content: options.content ? (this.shouldSanitizeHtml ? sanitizeHtml(options.content) : options.content) : undefined,
-        templateId: options.templateId,
-        cc: options.cc?.map(c => sanitizeEmail(c)),
-        bcc: options.bcc?.map(b => sanitizeEmail(b)),
-        replyTo: options.replyTo ? sanitizeEmail(options.replyTo) : undefined
-      };
-      
-      // Determine if using template
-      const useTemplate = !!options.templateId;
-      
-      this.debug.log('Email sanitized and validated');
+      // Validate and sanitize inputs for security
+      const { message: sanitizedOptions, removals, diagnostics } = this._prepareMessage(options);
       
       // Process attachments if present
       let formData: any;
-      let headers: Record<string, string> = {
-        'x-api-key': this.apiKey,
-        'User-Agent': 'SDK'
-      };
       
       if (options.attachments && options.attachments.length > 0) {
         // Validate attachments for security
@@ -884,13 +1217,24 @@ export class Metigan {
           formData.append('subject', sanitizedOptions.subject);
           
           // Add content or template
-          if (useTemplate && sanitizedOptions.templateId) {
+          if (sanitizedOptions.templateId) {
             formData.append('useTemplate', 'true');
             formData.append('templateId', sanitizedOptions.templateId);
+            if (sanitizedOptions.variables) {
+              formData.append('variables', JSON.stringify(sanitizedOptions.variables));
+            }
+            if (sanitizedOptions.recipientVariables) {
+              formData.append('recipientVariables', JSON.stringify(sanitizedOptions.recipientVariables));
+            }
           } else if (sanitizedOptions.content) {
             formData.append('content', sanitizedOptions.content);
           }
           
+          // Add plain-text alternative if available
+          if (sanitizedOptions.text) {
+            formData.append('text', sanitizedOptions.text);
+          }
+          
           // Add CC if provided
           if (sanitizedOptions.cc && sanitizedOptions.cc.length > 0) {
             formData.append('cc', JSON.stringify(sanitizedOptions.cc));
@@ -906,6 +1250,28 @@ export class Metigan {
             formData.append('replyTo', sanitizedOptions.replyTo);
           }
           
+          // Add custom headers, tags, metadata and tracking ID if provided
+          if (sanitizedOptions.headers && Object.keys(sanitizedOptions.headers).length > 0) {
+            formData.append('headers', JSON.stringify(sanitizedOptions.headers));
+          }
+          if (sanitizedOptions.tags && sanitizedOptions.tags.length > 0) {
+            formData.append('tags', JSON.stringify(sanitizedOptions.tags));
+          }
+          if (sanitizedOptions.metadata && Object.keys(sanitizedOptions.metadata).length > 0) {
+            formData.append('metadata', JSON.stringify(sanitizedOptions.metadata));
+          }
+          if (sanitizedOptions.trackingId) {
+            formData.append('trackingId', sanitizedOptions.trackingId);
+          }
+          
+          // Add schedule if provided
+          if (sanitizedOptions.sendAt) {
+            formData.append('sendAt', this._serializeDate(sanitizedOptions.sendAt));
+            if (sanitizedOptions.timezone) {
+              formData.append('timezone', sanitizedOptions.timezone);
+            }
+          }
+          
           // Append files directly for browser
           for (const file of options.attachments) {
             if (file instanceof File) {
@@ -918,77 +1284,20 @@ export class Metigan {
         // Node.js environment
         else {
           const processedAttachments = await this._processAttachments(options.attachments);
-          
-          formData = {
-            from: sanitizedOptions.from,
-            recipients: sanitizedOptions.recipients,
-            subject: sanitizedOptions.subject,
-            attachments: processedAttachments
-          };
-          
-          // Add content or template
-          if (useTemplate && sanitizedOptions.templateId) {
-            formData.useTemplate = 'true';
-            formData.templateId = sanitizedOptions.templateId;
-          } else if (sanitizedOptions.content) {
-            formData.content = sanitizedOptions.content;
-          }
-          
-          // Add CC if provided
-          if (sanitizedOptions.cc && sanitizedOptions.cc.length > 0) {
-            formData.cc = sanitizedOptions.cc;
-          }
-          
-          // Add BCC if provided
-          if (sanitizedOptions.bcc && sanitizedOptions.bcc.length > 0) {
-            formData.bcc = sanitizedOptions.bcc;
-          }
-          
-          // Add reply-to if provided
-          if (sanitizedOptions.replyTo) {
-            formData.replyTo = sanitizedOptions.replyTo;
-          }
-          
-          headers['Content-Type'] = 'application/json';
+          formData = this._buildPayload(sanitizedOptions, processedAttachments);
         }
       } 
       // No attachments
       else {
-        formData = {
-          from: sanitizedOptions.from,
-          recipients: sanitizedOptions.recipients,
-          subject: sanitizedOptions.subject,
-        };
-        
-        // Add content or template
-        if (useTemplate && sanitizedOptions.templateId) {
-          formData.useTemplate = 'true';
-          formData.templateId = sanitizedOptions.templateId;
-        } else if (sanitizedOptions.content) {
-          formData.content = sanitizedOptions.content;
-        }
-        
-        // Add CC if provided
-        if (sanitizedOptions.cc && sanitizedOptions.cc.length > 0) {
-          formData.cc = sanitizedOptions.cc;
-        }
-        
-        // Add BCC if provided
-        if (sanitizedOptions.bcc && sanitizedOptions.bcc.length > 0) {
-          formData.bcc = sanitizedOptions.bcc;
-        }
-        
-        // Add reply-to if provided
-        if (sanitizedOptions.replyTo) {
-          formData.replyTo = sanitizedOptions.replyTo;
-        }
-        
-        headers['Content-Type'] = 'application/json';
+        formData = this._buildPayload(sanitizedOptions);
       }
       
       // Make the API request with retry
       try {
-        const response = await this._makeRequestWithRetry<EmailApiResponse>(`${API_URL}/api/email/send`, formData, headers);
+        const response = await this.transport.request<EmailApiResponse>('POST', '/api/email/send', formData, {
+          ...requestOptions,
+          idempotencyKey: options.idempotencyKey
+        });
         statusCode = 200; // Sucesso
         
         // Log successful operation
@@ -998,9 +1307,17 @@ export class Metigan {
           'POST'
         );
         
+        // Report what the sanitizer removed (sanitize mode 'report') and lint warnings
+        if ('successfulEmails' in response && (removals.length > 0 || diagnostics.length > 0)) {
+          return {
+            ...response,
+            ...(removals.length > 0 ? { sanitizationReport: removals } : {}),
+            ...(diagnostics.length > 0 ? { lintDiagnostics: diagnostics } : {})
+          };
+        }
         return response;
       } catch (httpError: any) {
-        // Captura o status code do erro
+        // Capture the status code of the error
         if (httpError.status) {
           statusCode = httpError.status;
         }
@@ -1012,15 +1329,8 @@ export class Metigan {
           'POST'
         );
         
-        // Handle HTTP errors without exposing implementation details
-        if (httpError.status) {
-          if (httpError.data && httpError.data.error) {
-            throw new MetiganError(httpError.data.message || httpError.data.error);
-          } else {
-            throw new MetiganError(`Request failed with status ${httpError.status}`);
-          }
-        }
-        throw new MetiganError('Failed to connect to the email service');
+        // ApiError subclasses already carry status, code and request ID
+        throw httpError;
       }
     } catch (error: unknown) {
       // Log error operation
@@ -1038,7 +1348,334 @@ export class Metigan {
       // Wrap other errors
       throw new MetiganError('An unexpected error occurred while sending email');
     }
-  }  /**
+  }
+
+  /**
+   * Send many individually personalized emails
+   * Messages are validated locally, split into chunks of at most MAX_BATCH_SIZE and
+   * sent with bounded concurrency. Rate limits are handled by the transport: with
+   * the default `onLimit: 'wait'` the client limiter queues chunks (with 'throw'
+   * a chunk over the limit fails), and 429 responses are retried after Retry-After. Invalid messages and failed chunks are reported
+   * per message rather than aborting the whole batch.
+   * @param messages - Messages to send
+   * @param options - Chunk size, concurrency and per-call options (signal, timeout)
+   * @returns Aggregated result mapping each message to its tracking ID or error
+   */
+  async sendBatch(messages: EmailOptions[], options: EmailBatchOptions = {}): Promise<EmailBatchResult> {
+    if (!Array.isArray(messages)) {
+      throw new ValidationError('Messages must be an array');
+    }
+    
+    const { chunkSize = MAX_BATCH_SIZE, concurrency = DEFAULT_BATCH_CONCURRENCY, ...requestOptions } = options;
+    const size = Math.min(Math.max(1, chunkSize), MAX_BATCH_SIZE);
+    const results: EmailBatchItemResult[] = new Array(messages.length);
+    const skippedRecipients: SkippedRecipient[][] = new Array(messages.length);
+    const sanitizationReports: HtmlRemoval[][] = new Array(messages.length);
+    const lintReports: LintDiagnostic[][] = new Array(messages.length);
+    
+    // Validate and sanitize every message up front
+    const pending: Array<{ index: number; payload: any }> = [];
+    for (let index = 0; index < messages.length; index++) {
+      try {
+        let message = messages[index];
+        // Content is rendered per recipient only by sendEmail
+        if (!message.templateId && this._hasRecipientVariables(message)) {
+          throw new ValidationError('recipientVariables require templateId in sendBatch; send one message per recipient with variables instead');
+        }
+        if (message.requireVerifiedDomain ?? this.requireVerifiedDomain) {
+          await this.domains.assertVerified(message.from, requestOptions);
+        }
+        if (message.filterSuppressed) {
+          const filtered = await this._filterSuppressed(message, requestOptions);
+          message = filtered.message;
+          skippedRecipients[index] = filtered.skipped;
+        }
+        const { message: sanitizedOptions, removals, diagnostics } = this._prepareMessage(message);
+        if (removals.length > 0) {
+          sanitizationReports[index] = removals;
+        }
+        if (diagnostics.length > 0) {
+          lintReports[index] = diagnostics;
+        }
+        let attachments: ProcessedAttachment[] | undefined;
+        if (message.attachments && message.attachments.length > 0) {
+          await this._validateAttachments(message.attachments);
+          attachments = await this._processAttachments(message.attachments);
+        }
+        const payload = this._buildPayload(sanitizedOptions, attachments);
+        if (message.idempotencyKey) {
+          payload.idempotencyKey = message.idempotencyKey;
+        }
+        pending.push({ index, payload });
+      } catch (error: any) {
+        if (error instanceof AbortError) {
+          throw error;
+        }
+        results[index] = { index, success: false, error: error?.message || 'Invalid email data', cause: error };
+      }
+    }
+    
+    const chunks: Array<Array<{ index: number; payload: any }>> = [];
+    for (let i = 0; i < pending.length; i += size) {
+      chunks.push(pending.slice(i, i + size));
+    }
+    
+    let nextChunk = 0;
+    let emailsRemaining: number | undefined;
+    const worker = async (): Promise<void> => {
+      while (nextChunk < chunks.length) {
+        const chunk = chunks[nextChunk++];
+        const chunkResult = await this._sendBatchChunk(chunk, requestOptions);
+        for (const result of chunkResult.results) {
+          results[result.index] = result;
+        }
+        if (chunkResult.emailsRemaining !== undefined) {
+          emailsRemaining = chunkResult.emailsRemaining;
+        }
+      }
+    };
+    
+    const workers: Array<Promise<void>> = [];
+    for (let i = 0; i < Math.min(Math.max(1, concurrency), chunks.length); i++) {
+      workers.push(worker());
+    }
+    await Promise.all(workers);
+    
+    // Report suppressed recipients, sanitizer removals and lint warnings alongside each message's outcome
+    skippedRecipients.forEach((skipped, index) => {
+      if (skipped && results[index]) {
+        results[index].skippedRecipients = skipped;
+      }
+    });
+    sanitizationReports.forEach((removals, index) => {
+      if (removals && results[index]) {
+        results[index].sanitizationReport = removals;
+      }
+    });
+    lintReports.forEach((diagnostics, index) => {
+      if (diagnostics && results[index]) {
+        results[index].lintDiagnostics = diagnostics;
+      }
+    });
+    
+    const sent = results.filter(result => result.success).length;
+    return {
+      success: sent === messages.length,
+      total: messages.length,
+      sent,
+      failed: messages.length - sent,
+      emailsRemaining,
+      results
+    };
+  }
+
+  /**
+   * Send a single batch chunk
+   * The chunk key only protects retries of this request; deduplication across
+   * calls relies on the per-message idempotency keys sent in the payload.
+   * @param chunk - Prepared messages with their input positions
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Per-message outcomes and the remaining quota reported by the server
+   * @private
+   */
+  private async _sendBatchChunk(
+    chunk: Array<{ index: number; payload: any }>,
+    requestOptions: RequestOptions
+  ): Promise<{ results: EmailBatchItemResult[]; emailsRemaining?: number }> {
+    const idempotencyKey = generateIdempotencyKey();
+    
+    try {
+      const response = await this.transport.request<EmailBatchApiResponse>(
+        'POST',
+        '/api/email/send/batch',
+        { messages: chunk.map(item => item.payload) },
+        { ...requestOptions, idempotencyKey }
+      );
+      await this.logger.log('/email/send/batch', 200, 'POST');
+      
+      const results = chunk.map((item, position): EmailBatchItemResult => {
+        const result = response.results?.[position];
+        if (!result) {
+          return { index: item.index, success: false, error: 'No result returned for message' };
+        }
+        
+        const successfulEmails = result.successfulEmails || [];
+        return {
+          index: item.index,
+          success: result.success !== false && !result.error,
+          trackingId: successfulEmails[0]?.trackingId,
+          successfulEmails,
+          failedEmails: result.failedEmails || [],
+          error: result.error || (result.success === false ? result.message : undefined)
+        };
+      });
+      
+      return { results, emailsRemaining: response.emailsRemaining };
+    } catch (error: any) {
+      await this.logger.log('/email/send/batch', error?.status || 500, 'POST');
+      
+      if (error instanceof AbortError) {
+        throw error;
+      }
+      
+      return {
+        results: chunk.map(item => ({
+          index: item.index,
+          success: false,
+          error: error?.message || 'An unexpected error occurred while sending email',
+          status: error?.status,
+          cause: error
+        }))
+      };
+    }
+  }
+
+  /**
+   * Remove suppressed addresses from a message's recipients, CC and BCC
+   * @param options - Email options with filterSuppressed set
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Message without suppressed addresses and the skipped recipients
+   * @throws ValidationError if every recipient is suppressed
+   * @private
+   */
+  private async _filterSuppressed(
+    options: EmailOptions,
+    requestOptions: RequestOptions
+  ): Promise<{ message: EmailOptions; skipped: SkippedRecipient[] }> {
+    const recipients = await this.suppressions.filter(options.recipients || [], requestOptions);
+    const cc = options.cc ? await this.suppressions.filter(options.cc, requestOptions) : undefined;
+    const bcc = options.bcc ? await this.suppressions.filter(options.bcc, requestOptions) : undefined;
+    
+    const skipped = [...recipients.skipped, ...(cc?.skipped || []), ...(bcc?.skipped || [])];
+    if (skipped.length > 0) {
+      this.debug.log(`Skipping ${skipped.length} suppressed recipient(s)`);
+    }
+    
+    if (options.recipients && options.recipients.length > 0 && recipients.allowed.length === 0) {
+      throw new ValidationError(`All recipients are suppressed: ${recipients.skipped.map(item => item.recipient).join(', ')}`);
+    }
+    
+    // Variables of dropped recipients would fail validation as unknown recipients
+    let recipientVariables = options.recipientVariables;
+    if (recipientVariables && recipients.skipped.length > 0) {
+      const dropped = recipients.skipped.map(item => this._extractEmailAddress(item.recipient).toLowerCase());
+      recipientVariables = {};
+      for (const address of Object.keys(options.recipientVariables!)) {
+        if (!dropped.includes(this._extractEmailAddress(address).toLowerCase())) {
+          recipientVariables[address] = options.recipientVariables![address];
+        }
+      }
+    }
+    
+    return {
+      message: {
+        ...options,
+        recipients: recipients.allowed,
+        cc: cc?.allowed,
+        bcc: bcc?.allowed,
+        recipientVariables,
+        filterSuppressed: false
+      },
+      skipped
+    };
+  }
+
+  /**
+   * Whether a message carries per-recipient variables
+   * @param options - Email options
+   * @private
+   */
+  private _hasRecipientVariables(options: EmailOptions): boolean {
+    return !!options.recipientVariables && Object.keys(options.recipientVariables).length > 0;
+  }
+
+  /**
+   * Send content rendered separately for each recipient
+   * Each recipient receives its own message with `variables` merged with its
+   * `recipientVariables` entry; messages are delivered through sendBatch.
+   * @param options - Email options with recipientVariables and no templateId
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Combined response for all recipients
+   * @private
+   */
+  private async _sendPersonalized(options: EmailOptions, requestOptions: RequestOptions): Promise<EmailSuccessResponse> {
+    const validation = this._validateMessageData(options);
+    if (!validation.isValid) {
+      throw new ValidationError(validation.error || 'Invalid email data');
+    }
+    
+    if ((options.cc && options.cc.length > 0) || (options.bcc && options.bcc.length > 0)) {
+      throw new ValidationError('CC and BCC cannot be combined with recipientVariables unless templateId is used');
+    }
+    
+    // Reject unsafe content once instead of failing every recipient
+    if (this.sanitizeMode === 'reject' && options.content) {
+      this._sanitizeContent(options.content);
+    }
+    
+    const recipientVariables: Record<string, TemplateVariables> = {};
+    for (const address of Object.keys(options.recipientVariables || {})) {
+      recipientVariables[this._extractEmailAddress(address).toLowerCase()] = options.recipientVariables![address];
+    }
+    
+    const messages: EmailOptions[] = options.recipients.map((recipient, index) => {
+      const variables = {
+        ...options.variables,
+        ...recipientVariables[this._extractEmailAddress(recipient).toLowerCase()]
+      };
+      
+      const missing = Array.from(new Set([
+        ...findMissingVariables(options.subject, variables),
+        ...findMissingVariables(options.content || '', variables),
+        ...findMissingVariables(options.text || '', variables)
+      ]));
+      if (missing.length > 0) {
+        throw new ValidationError(`Missing template variables for ${recipient}: ${missing.join(', ')}`);
+      }
+      
+      const { recipientVariables: _recipientVariables, idempotencyKey, ...message } = options;
+      return {
+        ...message,
+        recipients: [recipient],
+        variables,
+        idempotencyKey: idempotencyKey ? `${idempotencyKey}:${index}` : undefined
+      };
+    });
+    
+    const batch = await this.sendBatch(messages, requestOptions);
+    
+    const successfulEmails: EmailSuccessResponse['successfulEmails'] = [];
+    const failedEmails: EmailSuccessResponse['failedEmails'] = [];
+    for (const result of batch.results) {
+      successfulEmails.push(...(result.successfulEmails || []));
+      failedEmails.push(...(result.failedEmails || []));
+      if (!result.success && result.error) {
+        failedEmails.push({ recipient: options.recipients[result.index], error: result.error });
+      }
+    }
+    
+    if (batch.sent === 0) {
+      const failure = batch.results.find(result => !result.success);
+      // Rethrow the original error so callers can branch on its class
+      if (failure?.cause) {
+        throw failure.cause;
+      }
+      throw new ApiError(failure?.error || 'An unexpected error occurred while sending email', failure?.status);
+    }
+    
+    return {
+      success: true,
+      message: `Sent ${batch.sent} of ${batch.total} personalized emails`,
+      successfulEmails,
+      failedEmails,
+      recipientCount: options.recipients.length,
+      emailsRemaining: batch.emailsRemaining ?? 0,
+      sanitizationReport: batch.results.find(result => result.sanitizationReport)?.sanitizationReport,
+      lintDiagnostics: batch.results.find(result => result.lintDiagnostics)?.lintDiagnostics
+    };
+  }
+
+  /**
    * Generates a unique tracking ID for email analytics
    * @returns A unique tracking ID string
    * @private
@@ -1053,17 +1690,18 @@ export class Metigan {
   /**
    * Send OTP email (fast lane)
    * @param options - OTP send options
+   * @param requestOptions - Per-call options (signal, timeout)
    */
-  async sendOtp(options: OtpSendOptions): Promise<OtpSendResponse> {
+  async sendOtp(options: OtpSendOptions, requestOptions: RequestOptions = {}): Promise<OtpSendResponse> {
     const recipient = options.to || options.email;
     if (!recipient) {
-      throw new MetiganError('Recipient email is required');
+      throw new ValidationError('Recipient email is required');
     }
     if (!options.from) {
-      throw new MetiganError('Sender email (from) is required');
+      throw new ValidationError('Sender email (from) is required');
     }
     if (!options.code) {
-      throw new MetiganError('OTP code is required');
+      throw new ValidationError('OTP code is required');
     }
 
     const payload = {
@@ -1076,57 +1714,245 @@ export class Metigan {
       idempotencyKey: options.idempotencyKey
     };
 
-    const headers: Record<string, string> = {
-      'x-api-key': this.apiKey,
-      'User-Agent': 'SDK',
-      'Content-Type': 'application/json'
-    };
-
-    return await this._makeRequestWithRetry<OtpSendResponse>(
-      `${API_URL}/api/otp/send`,
-      payload,
-      headers
-    );
+    return await this.transport.request<OtpSendResponse>('POST', '/api/otp/send', payload, {
+      ...requestOptions,
+      idempotencyKey: options.idempotencyKey
+    });
   }
 
   /**
    * Send transactional email (fast lane)
    * @param options - Transactional send options
+   * @param requestOptions - Per-call options (signal, timeout)
    */
-  async sendTransactional(options: TransactionalSendOptions): Promise<TransactionalSendResponse> {
+  async sendTransactional(
+    options: TransactionalSendOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<TransactionalSendResponse> {
     const recipient = options.to || options.email;
     if (!recipient) {
-      throw new MetiganError('Recipient email is required');
+      throw new ValidationError('Recipient email is required');
     }
     if (!options.from) {
-      throw new MetiganError('Sender email (from) is required');
+      throw new ValidationError('Sender email (from) is required');
     }
     if (!options.subject) {
-      throw new MetiganError('Subject is required');
+      throw new ValidationError('Subject is required');
     }
     const content = options.content || options.html;
     if (!content) {
-      throw new MetiganError('Content or html is required');
+      throw new ValidationError('Content or html is required');
+    }
+    const scheduleError = this._validateSchedule(options.sendAt, options.timezone);
+    if (scheduleError) {
+      throw new ValidationError(scheduleError);
     }
 
+    const inlinedContent = this._inlineContent(content, options.inlineCss);
+    const { content: sanitizedContent, removals } = this._sanitizeContent(inlinedContent);
+
     const payload = {
       ...(options.to ? { to: recipient } : { email: recipient }),
       from: sanitizeEmail(options.from),
       subject: sanitizeSubject(options.subject),
-      content: this.shouldSanitizeHtml ? sanitizeHtml(content) : content,
+      content: sanitizedContent,
+      text: options.text || htmlToText(sanitizedContent),
+      sendAt: options.sendAt ? this._serializeDate(options.sendAt) : undefined,
+      timezone: options.sendAt ? options.timezone : undefined,
       idempotencyKey: options.idempotencyKey
     };
 
-    const headers: Record<string, string> = {
-      'x-api-key': this.apiKey,
-      'User-Agent': 'SDK',
-      'Content-Type': 'application/json'
-    };
+    const response = await this.transport.request<TransactionalSendResponse>('POST', '/api/transactional/send', payload, {
+      ...requestOptions,
+      idempotencyKey: options.idempotencyKey
+    });
+    return removals.length > 0 ? { ...response, sanitizationReport: removals } : response;
+  }
+
+  /**
+   * List emails scheduled for later delivery
+   * @param options - Status filter and pagination
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Scheduled emails
+   */
+  async listScheduled(
+    options: ScheduledEmailListOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ScheduledEmailListResponse> {
+    const params = new URLSearchParams();
+    if (options.status) {
+      params.append('status', options.status);
+    }
+    if (options.cursor) {
+      params.append('cursor', options.cursor);
+    } else if (options.page) {
+      params.append('page', options.page.toString());
+    }
+    if (options.limit) {
+      params.append('limit', options.limit.toString());
+    }
+    
+    const queryString = params.toString();
+    return this.transport.request<ScheduledEmailListResponse>(
+      'GET',
+      `/api/email/scheduled${queryString ? `?${queryString}` : ''}`,
+      undefined,
+      requestOptions
+    );
+  }
+
+  /**
+   * Move a scheduled email to a new delivery time
+   * @param scheduledMessageId - Scheduled message ID
+   * @param sendAt - New delivery time (Date or ISO 8601 string)
+   * @param timezone - Optional IANA timezone for a `sendAt` without an offset
+   * @param requestOptions - Per-call options (signal, timeout, idempotencyKey)
+   * @returns Updated scheduled email
+   */
+  async reschedule(
+    scheduledMessageId: string,
+    sendAt: Date | string,
+    timezone?: string,
+    requestOptions: MutationOptions = {}
+  ): Promise<ScheduledEmail> {
+    if (!scheduledMessageId) {
+      throw new ValidationError('Scheduled message ID is required');
+    }
+    if (!sendAt) {
+      throw new ValidationError('sendAt is required');
+    }
+    const scheduleError = this._validateSchedule(sendAt, timezone);
+    if (scheduleError) {
+      throw new ValidationError(scheduleError);
+    }
+    
+    return this.transport.request<ScheduledEmail>(
+      'PATCH',
+      `/api/email/scheduled/${encodeURIComponent(scheduledMessageId)}`,
+      { sendAt: this._serializeDate(sendAt), timezone },
+      requestOptions
+    );
+  }
+
+  /**
+   * Cancel a scheduled email before it is sent
+   * @param scheduledMessageId - Scheduled message ID
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Success status
+   */
+  async cancelScheduled(scheduledMessageId: string, requestOptions: RequestOptions = {}): Promise<{ success: boolean }> {
+    if (!scheduledMessageId) {
+      throw new ValidationError('Scheduled message ID is required');
+    }
+    
+    return this.transport.request<{ success: boolean }>(
+      'DELETE',
+      `/api/email/scheduled/${encodeURIComponent(scheduledMessageId)}`,
+      undefined,
+      requestOptions
+    );
+  }
+
+  /**
+   * Get a sent message and its current status
+   * @param trackingId - Tracking ID returned in successfulEmails
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Message details
+   */
+  async getMessage(trackingId: string, requestOptions: RequestOptions = {}): Promise<EmailMessage> {
+    if (!trackingId) {
+      throw new ValidationError('Tracking ID is required');
+    }
+    
+    return this.transport.request<EmailMessage>(
+      'GET',
+      `/api/email/messages/${encodeURIComponent(trackingId)}`,
+      undefined,
+      requestOptions
+    );
+  }
 
-    return await this._makeRequestWithRetry<TransactionalSendResponse>(
-      `${API_URL}/api/transactional/send`,
-      payload,
-      headers
+  /**
+   * List sent messages
+   * @param filters - Status, recipient, tag, date range and pagination filters
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Messages with pagination
+   */
+  async listMessages(
+    filters: EmailMessageListFilters = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<EmailMessageListResponse> {
+    const params = new URLSearchParams();
+    if (filters.status) {
+      params.append('status', filters.status);
+    }
+    if (filters.recipient) {
+      params.append('recipient', filters.recipient);
+    }
+    if (filters.tag) {
+      params.append('tag', filters.tag);
+    }
+    if (filters.startDate) {
+      params.append('startDate', this._serializeDate(filters.startDate));
+    }
+    if (filters.endDate) {
+      params.append('endDate', this._serializeDate(filters.endDate));
+    }
+    if (filters.cursor) {
+      params.append('cursor', filters.cursor);
+    } else if (filters.page) {
+      params.append('page', filters.page.toString());
+    }
+    if (filters.limit) {
+      params.append('limit', filters.limit.toString());
+    }
+    
+    const queryString = params.toString();
+    return this.transport.request<EmailMessageListResponse>(
+      'GET',
+      `/api/email/messages${queryString ? `?${queryString}` : ''}`,
+      undefined,
+      requestOptions
+    );
+  }
+
+  /**
+   * Iterate over every sent message matching the filters, fetching pages lazily
+   * @param filters - Status, recipient, tag and date range filters
+   * @param options - Page size, prefetch depth and per-call options
+   * @returns Async iterator of messages
+   */
+  iterateMessages(
+    filters: Omit<EmailMessageListFilters, 'page' | 'limit'> = {},
+    options: IterateOptions = {}
+  ): AsyncIterableIterator<EmailMessage> {
+    const { pageSize = DEFAULT_PAGE_SIZE, prefetch, ...requestOptions } = options;
+    return paginate<EmailMessage>(async ({ page, cursor, limit }) => {
+      const response = await this.listMessages({ ...filters, page, cursor, limit }, requestOptions);
+      return {
+        items: response.messages || [],
+        pages: response.pagination?.pages,
+        nextCursor: response.pagination?.nextCursor
+      };
+    }, { pageSize, prefetch, cursor: filters.cursor });
+  }
+
+  /**
+   * Get the delivery events of a sent message
+   * @param trackingId - Tracking ID returned in successfulEmails
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Delivered, opened, clicked, bounced and complained events with timestamps
+   */
+  async getEvents(trackingId: string, requestOptions: RequestOptions = {}): Promise<EmailEventListResponse> {
+    if (!trackingId) {
+      throw new ValidationError('Tracking ID is required');
+    }
+    
+    return this.transport.request<EmailEventListResponse>(
+      'GET',
+      `/api/email/messages/${encodeURIComponent(trackingId)}/events`,
+      undefined,
+      requestOptions
     );
   }
 
@@ -1148,9 +1974,7 @@ export class Metigan {
    * Reset rate limiter (useful for testing)
    */
   resetRateLimit(): void {
-    if (this.rateLimiter) {
-      this.rateLimiter.reset();
-    }
+    this.transport.rateLimiter?.reset();
   }
 
   /**
@@ -1158,8 +1982,8 @@ export class Metigan {
    * @returns True if request is allowed
    */
   canMakeRequest(): boolean {
-    if (!this.rateLimiter) return true;
-    return this.rateLimiter.canMakeRequest();
+    if (!this.transport.rateLimiter) return true;
+    return this.transport.rateLimiter.getWaitTime('POST', '/api/email/send') === 0;
   }
 
   /**
@@ -1167,11 +1991,14 @@ export class Metigan {
    * @returns Milliseconds until next request is allowed, or 0 if allowed now
    */
   getTimeUntilNextRequest(): number {
-    if (!this.rateLimiter) return 0;
-    return this.rateLimiter.getTimeUntilNextRequest();
+    if (!this.transport.rateLimiter) return 0;
+    return this.transport.rateLimiter.getWaitTime('POST', '/api/email/send');
   }
 }
 
+// Re-export error classes for consumers importing from this module
+export { MetiganError, ValidationError } from './errors';
+
 // Export security utilities for advanced users
 export { 
   sanitizeHtml, 
@@ -1179,10 +2006,13 @@ export {
   sanitizeSubject, 
   isAllowedMimeType, 
   isSafeFileExtension,
+  isSafeHeaderName,
+  isSafeHeaderValue,
   RateLimiter,
   DebugLogger,
   ALLOWED_MIME_TYPES,
-  BLOCKED_MIME_TYPES
+  BLOCKED_MIME_TYPES,
+  RESERVED_HEADERS
 } from './security';
 
 // Default export
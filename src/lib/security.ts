@@ -4,25 +4,15 @@
  * @version 2.0.0
  */
 
-/**
- * Dangerous HTML tags that could be used for XSS attacks
- */
-const DANGEROUS_TAGS = [
-  'script', 'iframe', 'object', 'embed', 'form', 'input', 
-  'button', 'select', 'textarea', 'applet', 'meta', 'link',
-  'base', 'frame', 'frameset', 'layer', 'ilayer', 'bgsound'
-];
-
-/**
- * Dangerous attributes that could be used for XSS attacks
- */
-const DANGEROUS_ATTRIBUTES = [
-  'onclick', 'ondblclick', 'onmousedown', 'onmouseup', 'onmouseover',
-  'onmousemove', 'onmouseout', 'onkeydown', 'onkeypress', 'onkeyup',
-  'onload', 'onerror', 'onunload', 'onabort', 'onreset', 'onsubmit',
-  'onfocus', 'onblur', 'onchange', 'oninput', 'onscroll', 'onresize',
-  'javascript:', 'vbscript:', 'data:'
-];
+// HTML sanitization is implemented by the allowlist sanitizer
+export {
+  sanitizeHtml,
+  DEFAULT_ALLOWED_TAGS,
+  DEFAULT_ALLOWED_ATTRIBUTES,
+  DEFAULT_ALLOWED_SCHEMES,
+  DEFAULT_ALLOWED_CSS_PROPERTIES
+} from '../utils/sanitize';
+export type { HtmlSanitizerOptions } from '../utils/sanitize';
 
 /**
  * Allowed MIME types for attachments
@@ -70,43 +60,6 @@ export const BLOCKED_MIME_TYPES = [
   'application/x-shockwave-flash'
 ];
 
-/**
- * Sanitize HTML content to prevent XSS attacks
- * @param html - HTML content to sanitize
- * @returns Sanitized HTML
- */
-export function sanitizeHtml(html: string): string {
-  if (!html || typeof html !== 'string') {
-    return '';
-  }
-
-  let sanitized = html;
-
-  // Remove dangerous tags
-  for (const tag of DANGEROUS_TAGS) {
-    const regex = new RegExp(`<${tag}[^>]*>.*?</${tag}>|<${tag}[^>]*\\/?>`, 'gi');
-    sanitized = sanitized.replace(regex, '');
-  }
-
-  // Remove dangerous attributes
-  for (const attr of DANGEROUS_ATTRIBUTES) {
-    // Remove event handlers and javascript: URLs
-    const attrRegex = new RegExp(`\\s*${attr}\\s*=\\s*["'][^"']*["']`, 'gi');
-    sanitized = sanitized.replace(attrRegex, '');
-    
-    // Remove attribute without quotes
-    const attrRegex2 = new RegExp(`\\s*${attr}\\s*=\\s*[^\\s>]+`, 'gi');
-    sanitized = sanitized.replace(attrRegex2, '');
-  }
-
-  // Remove javascript: and data: URLs from href and src
-  sanitized = sanitized.replace(/href\s*=\s*["']?\s*javascript:[^"'>\s]*/gi, 'href="#"');
-  sanitized = sanitized.replace(/src\s*=\s*["']?\s*javascript:[^"'>\s]*/gi, 'src=""');
-  sanitized = sanitized.replace(/href\s*=\s*["']?\s*data:[^"'>\s]*/gi, 'href="#"');
-
-  return sanitized;
-}
-
 /**
  * Validate MIME type against allowed list
  * @param mimeType - MIME type to validate
@@ -173,6 +126,42 @@ export function sanitizeSubject(subject: string): string {
   return subject.replace(/[\r\n]/g, '').trim().substring(0, 998);
 }
 
+/**
+ * Headers set by the SDK or the server that cannot be overridden through `headers`
+ */
+export const RESERVED_HEADERS = [
+  'from', 'to', 'cc', 'bcc', 'reply-to', 'subject', 'sender', 'date', 'message-id',
+  'mime-version', 'content-type', 'content-transfer-encoding', 'return-path'
+];
+
+/**
+ * Check if a custom header name is valid and not reserved
+ * Header names must be printable ASCII without spaces or colons (RFC 5322).
+ * @param name - Header name
+ * @returns True if the header can be set
+ */
+export function isSafeHeaderName(name: string): boolean {
+  if (!name || typeof name !== 'string') {
+    return false;
+  }
+  
+  return /^[!-9;-~]+$/.test(name) && !RESERVED_HEADERS.includes(name.toLowerCase());
+}
+
+/**
+ * Check if a header value is free of injection characters
+ * @param value - Header value
+ * @returns True if the value contains no CR, LF or NUL characters
+ */
+export function isSafeHeaderValue(value: string): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  
+  // Newlines would start a new header (header injection)
+  return !/[\r\n\0]/.test(value) && value.length <= 998;
+}
+
 /**
  * Rate limiter configuration
  */
@@ -182,7 +171,9 @@ export interface RateLimiterConfig {
 }
 
 /**
- * Simple in-memory rate limiter
+ * Simple in-memory sliding-window rate limiter
+ * @deprecated The SDK now rate limits every request with TokenBucketLimiter
+ * (see the `rateLimit` client option); this class is kept for custom use.
  */
 export class RateLimiter {
   private requests: number[] = [];
@@ -0,0 +1,294 @@
+/**
+ * Metigan Suppressions Module
+ * Handles the account-level suppression list
+ * @version 2.0.0
+ */
+
+import { Transport } from '../utils/http';
+import type { HttpAdapter, HttpAdapterName, Interceptor } from '../utils/http';
+import type { RetryPolicy } from '../utils/retry';
+import { raceSignal } from '../utils/retry';
+import type { TokenBucketLimiter, TokenBucketOptions } from '../utils/rate-limit';
+import { paginate } from '../utils/pagination';
+import { MetiganError, ValidationError } from './errors';
+import { DEFAULT_PAGE_SIZE, DEFAULT_SUPPRESSION_CACHE_TTL } from './config';
+import { sanitizeEmail } from './security';
+import type {
+  Suppression,
+  SuppressionReason,
+  AddSuppressionOptions,
+  AddSuppressionResult,
+  SuppressionListFilters,
+  SuppressionListResponse,
+  SuppressionCheckResponse,
+  SkippedRecipient,
+  RequestOptions,
+  MutationOptions,
+  IterateOptions
+} from './types';
+
+/**
+ * Page size used when loading the full suppression set into the cache
+ */
+const CACHE_PAGE_SIZE = 500;
+
+/**
+ * Suppressions module options
+ */
+export interface SuppressionsModuleOptions {
+  apiKey: string;
+  /** Base URL of the Metigan API */
+  baseUrl?: string;
+  timeout?: number;
+  retryCount?: number;
+  retryDelay?: number;
+  /** Retry policy */
+  retryPolicy?: RetryPolicy;
+  /** Attach generated idempotency keys to mutating requests */
+  idempotencyKeys?: boolean;
+  /** HTTP adapter or built-in adapter name */
+  adapter?: HttpAdapter | HttpAdapterName;
+  /** Request/response interceptors */
+  interceptors?: Interceptor[];
+  /** Token-bucket rate limiter, or its options */
+  rateLimit?: TokenBucketLimiter | TokenBucketOptions;
+  /** Shared transport (created from the options above when omitted) */
+  transport?: Transport;
+  /** How long the suppression set used by filter() is cached, in ms (default: 300000) */
+  cacheTtl?: number;
+}
+
+/**
+ * Result of filtering recipients against the suppression list
+ */
+export interface SuppressionFilterResult {
+  /** Addresses that may be emailed, in input order */
+  allowed: string[];
+  /** Addresses removed because they are suppressed */
+  skipped: SkippedRecipient[];
+}
+
+/**
+ * MetiganSuppressions class for suppression list operations
+ */
+export class MetiganSuppressions {
+  private transport: Transport;
+  private cacheTtl: number;
+  private cache: { emails: Map<string, SuppressionReason>; loadedAt: number } | null = null;
+  private pendingLoad: Promise<Map<string, SuppressionReason>> | null = null;
+
+  /**
+   * Create a new MetiganSuppressions instance
+   * @param options - Suppressions module options
+   */
+  constructor(options: SuppressionsModuleOptions) {
+    if (!options.apiKey) {
+      throw new MetiganError('API key is required');
+    }
+
+    this.transport = options.transport || new Transport(options);
+    this.cacheTtl = options.cacheTtl ?? DEFAULT_SUPPRESSION_CACHE_TTL;
+  }
+
+  /**
+   * List suppressed addresses
+   * @param filters - Reason, search and pagination filters
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Suppression list
+   */
+  async list(filters: SuppressionListFilters = {}, requestOptions: RequestOptions = {}): Promise<SuppressionListResponse> {
+    const params = new URLSearchParams();
+
+    if (filters.reason) {
+      params.append('reason', filters.reason);
+    }
+    if (filters.search) {
+      params.append('search', filters.search);
+    }
+    if (filters.cursor) {
+      params.append('cursor', filters.cursor);
+    } else if (filters.page) {
+      params.append('page', filters.page.toString());
+    }
+    if (filters.limit) {
+      params.append('limit', filters.limit.toString());
+    }
+
+    const queryString = params.toString();
+    const endpoint = queryString ? `/api/suppressions?${queryString}` : '/api/suppressions';
+
+    const response = await this.transport.request<SuppressionListResponse>('GET', endpoint, undefined, requestOptions);
+    return response;
+  }
+
+  /**
+   * Iterate over every suppressed address, fetching pages lazily
+   * @param filters - Reason and search filters
+   * @param options - Page size, prefetch depth and per-call options
+   * @returns Async iterator of suppressions
+   */
+  iterate(filters: SuppressionListFilters = {}, options: IterateOptions = {}): AsyncIterableIterator<Suppression> {
+    const { pageSize = DEFAULT_PAGE_SIZE, prefetch, ...requestOptions } = options;
+
+    return paginate<Suppression>(async ({ page, cursor, limit }) => {
+      const response = await this.list({ ...filters, page, cursor, limit }, requestOptions);
+      return {
+        items: response.suppressions || [],
+        pages: response.pagination?.pages,
+        nextCursor: response.pagination?.nextCursor
+      };
+    }, { pageSize, prefetch, cursor: filters.cursor });
+  }
+
+  /**
+   * Add addresses to the suppression list
+   * @param options - Addresses, reason and note
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Added suppressions
+   */
+  async add(options: AddSuppressionOptions, requestOptions: RequestOptions = {}): Promise<AddSuppressionResult> {
+    const emails = this.normalizeEmails(options.email);
+    if (emails.length === 0) {
+      throw new ValidationError('At least one email is required');
+    }
+
+    const reason = options.reason || 'manual';
+    const response = await this.transport.request<AddSuppressionResult>('POST', '/api/suppressions', {
+      emails,
+      reason,
+      note: options.note?.trim()
+    }, { ...requestOptions, idempotencyKey: options.idempotencyKey });
+
+    if (this.cache) {
+      for (const email of emails) {
+        this.cache.emails.set(email, reason);
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Remove an address from the suppression list
+   * @param email - Suppressed address
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Success status
+   */
+  async remove(email: string, requestOptions: RequestOptions = {}): Promise<{ success: boolean }> {
+    const [normalized] = this.normalizeEmails(email);
+    if (!normalized) {
+      throw new ValidationError('Email is required');
+    }
+
+    const response = await this.transport.request<{ success: boolean }>(
+      'DELETE',
+      `/api/suppressions/${encodeURIComponent(normalized)}`,
+      undefined,
+      requestOptions
+    );
+
+    this.cache?.emails.delete(normalized);
+
+    return response;
+  }
+
+  /**
+   * Check whether addresses are suppressed
+   * @param email - Address or addresses to check
+   * @param requestOptions - Per-call options (signal, timeout, idempotencyKey)
+   * @returns Suppression status per address
+   */
+  async check(email: string | string[], requestOptions: MutationOptions = {}): Promise<SuppressionCheckResponse> {
+    const emails = this.normalizeEmails(email);
+    if (emails.length === 0) {
+      throw new ValidationError('At least one email is required');
+    }
+
+    const response = await this.transport.request<SuppressionCheckResponse>(
+      'POST',
+      '/api/suppressions/check',
+      { emails },
+      requestOptions
+    );
+    return response;
+  }
+
+  /**
+   * Split addresses into allowed and suppressed using the cached suppression set
+   * The full list is loaded on first use and refreshed after `cacheTtl`;
+   * add() and remove() keep the cache up to date in between.
+   * @param emails - Addresses to filter (plain or "Name <email>")
+   * @param requestOptions - Per-call options (signal, timeout)
+   * @returns Allowed and skipped addresses
+   */
+  async filter(emails: string[], requestOptions: RequestOptions = {}): Promise<SuppressionFilterResult> {
+    const suppressed = await this.getSuppressedSet(requestOptions);
+    const result: SuppressionFilterResult = { allowed: [], skipped: [] };
+
+    for (const recipient of emails) {
+      const [address] = this.normalizeEmails(recipient);
+      const reason = address ? suppressed.get(address) : undefined;
+      if (reason) {
+        result.skipped.push({ recipient, reason });
+      } else {
+        result.allowed.push(recipient);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Drop the cached suppression set so the next filter() reloads it
+   */
+  clearCache(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Get the cached suppression set, loading it when missing or stale
+   * Concurrent callers share a single load, started without any caller's signal;
+   * aborting only stops that caller's wait.
+   * @param requestOptions - Per-call options (signal, timeout)
+   */
+  private async getSuppressedSet(requestOptions: RequestOptions): Promise<Map<string, SuppressionReason>> {
+    if (this.cache && Date.now() - this.cache.loadedAt < this.cacheTtl) {
+      return this.cache.emails;
+    }
+
+    if (!this.pendingLoad) {
+      const { signal: _signal, ...loadOptions } = requestOptions;
+      this.pendingLoad = (async () => {
+        const emails = new Map<string, SuppressionReason>();
+        for await (const suppression of this.iterate({}, { ...loadOptions, pageSize: CACHE_PAGE_SIZE })) {
+          emails.set(suppression.email.toLowerCase(), suppression.reason);
+        }
+        this.cache = { emails, loadedAt: Date.now() };
+        return emails;
+      })();
+      this.pendingLoad.then(
+        () => { this.pendingLoad = null; },
+        () => { this.pendingLoad = null; }
+      );
+    }
+
+    return raceSignal(this.pendingLoad, requestOptions.signal);
+  }
+
+  /**
+   * Extract, sanitize and lower-case email addresses
+   * @param email - Address or addresses (plain or "Name <email>")
+   */
+  private normalizeEmails(email: string | string[]): string[] {
+    const emails = Array.isArray(email) ? email : [email];
+    return emails
+      .map(item => {
+        const address = sanitizeEmail(item);
+        const match = address.match(/<([^>]+)>/);
+        return (match ? match[1] : address).trim().toLowerCase();
+      })
+      .filter(item => item.length > 0);
+  }
+}
+
+export default MetiganSuppressions;
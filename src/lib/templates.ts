@@ -4,13 +4,16 @@
  * @version 2.2.0
  */
 
-import * as http from '../utils/http';
-import { API_URL, DEFAULT_TIMEOUT, DEFAULT_RETRY_COUNT, DEFAULT_RETRY_DELAY } from './config';
-import { MetiganError } from './errors';
+import { Transport } from '../utils/http';
+import { paginate } from '../utils/pagination';
+import { MetiganError, AbortError } from './errors';
+import { DEFAULT_PAGE_SIZE } from './config';
 import type { 
   EmailTemplate, 
   EmailTemplateListResponse, 
   PaginationOptions,
+  RequestOptions,
+  IterateOptions,
   TemplateModuleOptions 
 } from './types';
 
@@ -18,76 +21,20 @@ import type {
  * MetiganTemplates - Manage email templates
  */
 export class MetiganTemplates {
-  private apiKey: string;
-  private timeout: number;
-  private retryCount: number;
-  private retryDelay: number;
+  private transport: Transport;
 
   constructor(options: TemplateModuleOptions) {
     if (!options.apiKey) {
       throw new MetiganError('API key is required');
     }
 
-    this.apiKey = options.apiKey;
-    this.timeout = options.timeout || DEFAULT_TIMEOUT;
-    this.retryCount = options.retryCount || DEFAULT_RETRY_COUNT;
-    this.retryDelay = options.retryDelay || DEFAULT_RETRY_DELAY;
-  }
-
-  /**
-   * Get default headers for API requests
-   */
-  private getHeaders(): Record<string, string> {
-    return {
-      'Content-Type': 'application/json',
-      'x-api-key': this.apiKey,
-      'User-Agent': 'SDK'
-    };
-  }
-
-  /**
-   * Make HTTP request with retry logic
-   */
-  private async makeRequest<T>(
-    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
-    url: string,
-    data?: any
-  ): Promise<T> {
-    let lastError;
-    
-    for (let attempt = 0; attempt < this.retryCount; attempt++) {
-      try {
-        switch (method) {
-          case 'GET':
-            return await http.get<T>(url, this.getHeaders());
-          case 'POST':
-            return await http.post<T>(url, data, this.getHeaders());
-          case 'PATCH':
-            return await http.patch<T>(url, data, this.getHeaders());
-          case 'DELETE':
-            return await http.del<T>(url, this.getHeaders());
-        }
-      } catch (error: any) {
-        lastError = error;
-        
-        // Don't retry on client errors (4xx)
-        if (error.status >= 400 && error.status < 500) {
-          throw new MetiganError(error.data?.error || error.message || 'Request failed');
-        }
-        
-        // Wait before retrying
-        if (attempt < this.retryCount - 1) {
-          await new Promise(resolve => setTimeout(resolve, this.retryDelay * (attempt + 1)));
-        }
-      }
-    }
-    
-    throw lastError;
+    this.transport = options.transport || new Transport(options);
   }
 
   /**
    * List all templates
    * @param options - Pagination options
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns List of templates with pagination info
    * 
    * @example
@@ -96,20 +43,47 @@ export class MetiganTemplates {
    * console.log(templates.templates); // Array of templates
    * ```
    */
-  async list(options: PaginationOptions = {}): Promise<EmailTemplateListResponse> {
+  async list(options: PaginationOptions = {}, requestOptions: RequestOptions = {}): Promise<EmailTemplateListResponse> {
     const params = new URLSearchParams();
-    if (options.page) params.append('page', options.page.toString());
+    if (options.cursor) params.append('cursor', options.cursor);
+    else if (options.page) params.append('page', options.page.toString());
     if (options.limit) params.append('limit', options.limit.toString());
     
     const queryString = params.toString();
-    const url = `${API_URL}/api/templates${queryString ? `?${queryString}` : ''}`;
+    const endpoint = `/api/templates${queryString ? `?${queryString}` : ''}`;
     
-    return this.makeRequest<EmailTemplateListResponse>('GET', url);
+    return this.transport.request<EmailTemplateListResponse>('GET', endpoint, undefined, requestOptions);
+  }
+
+  /**
+   * Iterate over every template, fetching pages lazily
+   * @param options - Page size, prefetch depth and per-call options
+   * @returns Async iterator of templates
+   * 
+   * @example
+   * ```typescript
+   * for await (const template of metigan.templates.iterate({ pageSize: 100 })) {
+   *   console.log(template.name);
+   * }
+   * ```
+   */
+  iterate(options: IterateOptions = {}): AsyncIterableIterator<EmailTemplate> {
+    const { pageSize = DEFAULT_PAGE_SIZE, prefetch, ...requestOptions } = options;
+
+    return paginate<EmailTemplate>(async ({ page, cursor, limit }) => {
+      const response = await this.list({ page, cursor, limit }, requestOptions);
+      return {
+        items: response.templates || [],
+        pages: response.pagination?.pages,
+        nextCursor: response.pagination?.nextCursor
+      };
+    }, { pageSize, prefetch });
   }
 
   /**
    * Get a specific template by ID
    * @param templateId - The template ID
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns Template details
    * 
    * @example
@@ -118,18 +92,18 @@ export class MetiganTemplates {
    * console.log(template.name, template.subject);
    * ```
    */
-  async get(templateId: string): Promise<EmailTemplate> {
+  async get(templateId: string, requestOptions: RequestOptions = {}): Promise<EmailTemplate> {
     if (!templateId) {
       throw new MetiganError('Template ID is required');
     }
     
-    const url = `${API_URL}/api/templates/${templateId}`;
-    return this.makeRequest<EmailTemplate>('GET', url);
+    return this.transport.request<EmailTemplate>('GET', `/api/templates/${templateId}`, undefined, requestOptions);
   }
 
   /**
    * Check if a template exists
    * @param templateId - The template ID to check
+   * @param requestOptions - Per-call options (signal, timeout)
    * @returns True if template exists
    * 
    * @example
@@ -140,11 +114,15 @@ export class MetiganTemplates {
    * }
    * ```
    */
-  async exists(templateId: string): Promise<boolean> {
+  async exists(templateId: string, requestOptions: RequestOptions = {}): Promise<boolean> {
     try {
-      await this.get(templateId);
+      await this.get(templateId, requestOptions);
       return true;
     } catch (error) {
+      // Cancellation is not an answer to whether the template exists
+      if (error instanceof AbortError) {
+        throw error;
+      }
       return false;
     }
   }
@@ -3,6 +3,13 @@
  * @version 2.0.0
  */
 
+import type { Transport, HttpAdapter, HttpAdapterName, Interceptor } from '../utils/http';
+import type { RetryPolicy } from '../utils/retry';
+import type { HtmlSanitizerOptions, HtmlRemoval } from '../utils/sanitize';
+import type { InlineCssOptions } from '../utils/inline';
+import type { LintOptions, LintDiagnostic } from '../utils/lint';
+import type { TokenBucketLimiter, TokenBucketOptions } from '../utils/rate-limit';
+
 // ============================================
 // EMAIL TYPES
 // ============================================
@@ -36,6 +43,11 @@ export interface ProcessedAttachment {
   disposition: string;
 }
 
+/**
+ * Arbitrary key/value data attached to an email
+ */
+export type EmailMetadata = Record<string, string | number | boolean>;
+
 /**
  * Email options interface
  */
@@ -46,8 +58,16 @@ export interface EmailOptions {
   recipients: string[];
   /** Email subject */
   subject: string;
-  /** Email content (HTML supported) */
-  content: string;
+  /** Email content (HTML supported) - Required if not using templateId */
+  content?: string;
+  /** Plain-text alternative (generated from content when omitted) */
+  text?: string;
+  /** Template ID for using pre-created templates (optional) */
+  templateId?: string;
+  /** Variables applied to every recipient ({{name}} merge tags or template data) */
+  variables?: TemplateVariables;
+  /** Variables for individual recipients, keyed by email address (override `variables`) */
+  recipientVariables?: Record<string, TemplateVariables>;
   /** Optional file attachments */
   attachments?: Array<File | NodeAttachment | CustomAttachment>;
   /** Optional CC recipients */
@@ -56,8 +76,28 @@ export interface EmailOptions {
   bcc?: string[];
   /** Optional reply-to address */
   replyTo?: string;
-  /** Optional tracking ID for email analytics */
+  /** Custom headers (e.g. List-Unsubscribe, X-Entity-Ref-ID) */
+  headers?: Record<string, string>;
+  /** Tags used to categorize the email in analytics */
+  tags?: string[];
+  /** Arbitrary key/value data returned with message events */
+  metadata?: EmailMetadata;
+  /** Optional tracking ID to correlate the send with your own records */
   trackingId?: string;
+  /** Drop recipients on the suppression list before sending (reported as skippedRecipients) */
+  filterSuppressed?: boolean;
+  /** Reject the send locally when the sender domain is not verified */
+  requireVerifiedDomain?: boolean;
+  /** Move <style> rules into style attributes before sending (overrides the client default) */
+  inlineCss?: boolean;
+  /** Lint the HTML before sending; error diagnostics reject the send (overrides the client default) */
+  lint?: boolean | LintOptions;
+  /** Schedule delivery for a later time (Date or ISO 8601 string) */
+  sendAt?: Date | string;
+  /** IANA timezone used to interpret a `sendAt` without an offset (e.g. 'America/Sao_Paulo') */
+  timezone?: string;
+  /** Optional idempotency key (generated automatically when omitted) */
+  idempotencyKey?: string;
 }
 
 /**
@@ -98,6 +138,14 @@ export interface TransactionalSendOptions {
   content?: string;
   /** HTML content (alias) */
   html?: string;
+  /** Plain-text alternative (generated from the HTML when omitted) */
+  text?: string;
+  /** Move <style> rules into style attributes before sending (overrides the client default) */
+  inlineCss?: boolean;
+  /** Schedule delivery for a later time (Date or ISO 8601 string) */
+  sendAt?: Date | string;
+  /** IANA timezone used to interpret a `sendAt` without an offset */
+  timezone?: string;
   /** Optional idempotency key */
   idempotencyKey?: string;
 }
@@ -120,6 +168,10 @@ export interface TransactionalSendResponse {
   message?: string;
   data?: any;
   error?: string;
+  /** ID of the scheduled message when `sendAt` was set */
+  scheduledMessageId?: string;
+  /** What the sanitizer removed from the content (sanitize mode 'report') */
+  sanitizationReport?: HtmlRemoval[];
 }
 
 /**
@@ -146,6 +198,16 @@ export interface EmailSuccessResponse {
   }[];
   recipientCount: number;
   emailsRemaining: number;
+  /** ID of the scheduled message when `sendAt` was set */
+  scheduledMessageId?: string;
+  /** Scheduled delivery time (ISO 8601) */
+  scheduledAt?: string;
+  /** Recipients dropped because they are suppressed (with filterSuppressed) */
+  skippedRecipients?: SkippedRecipient[];
+  /** What the sanitizer removed from the content (sanitize mode 'report') */
+  sanitizationReport?: HtmlRemoval[];
+  /** Lint warnings for the content (with lint) */
+  lintDiagnostics?: LintDiagnostic[];
 }
 
 /**
@@ -168,6 +230,208 @@ export interface ApiKeyErrorResponse {
  */
 export type EmailApiResponse = EmailSuccessResponse | EmailErrorResponse | ApiKeyErrorResponse;
 
+/**
+ * Batch send options
+ */
+export interface EmailBatchOptions {
+  /** Messages per request, capped at the server limit (default: 100) */
+  chunkSize?: number;
+  /** Number of chunks sent concurrently (default: 2) */
+  concurrency?: number;
+  /** AbortSignal cancelling the remaining chunks */
+  signal?: AbortSignal;
+  /** Per-request timeout in ms */
+  timeout?: number;
+}
+
+/**
+ * Outcome of a single message within a batch
+ */
+export interface EmailBatchItemResult {
+  /** Position of the message in the input array */
+  index: number;
+  /** Whether the message was accepted */
+  success: boolean;
+  /** Tracking ID of the first accepted recipient */
+  trackingId?: string;
+  /** Tracking IDs per accepted recipient */
+  successfulEmails?: {
+    recipient: string;
+    trackingId: string;
+  }[];
+  /** Recipients rejected by the server */
+  failedEmails?: {
+    recipient: string;
+    error: string;
+  }[];
+  /** Recipients dropped because they are suppressed (with filterSuppressed) */
+  skippedRecipients?: SkippedRecipient[];
+  /** What the sanitizer removed from the content (sanitize mode 'report') */
+  sanitizationReport?: HtmlRemoval[];
+  /** Lint warnings for the content (with lint) */
+  lintDiagnostics?: LintDiagnostic[];
+  /** Error message when the message was not accepted */
+  error?: string;
+  /** HTTP status of the failed request, when available */
+  status?: number;
+  /** Error that failed the message locally or failed its request (e.g. a RateLimitError) */
+  cause?: Error;
+}
+
+/**
+ * Aggregated result of a batch send
+ */
+export interface EmailBatchResult {
+  /** True when every message was accepted */
+  success: boolean;
+  /** Number of input messages */
+  total: number;
+  /** Number of accepted messages */
+  sent: number;
+  /** Number of rejected messages */
+  failed: number;
+  /** Emails remaining in the account quota after the last chunk, when reported */
+  emailsRemaining?: number;
+  /** Per-message outcomes, in input order */
+  results: EmailBatchItemResult[];
+}
+
+/**
+ * Scheduled message status
+ */
+export type ScheduledEmailStatus = 'scheduled' | 'sending' | 'sent' | 'cancelled' | 'failed';
+
+/**
+ * Email scheduled for later delivery
+ */
+export interface ScheduledEmail {
+  /** Scheduled message ID */
+  id: string;
+  from: string;
+  recipients: string[];
+  subject: string;
+  /** Scheduled delivery time (ISO 8601) */
+  sendAt: string;
+  /** Timezone the delivery time was given in */
+  timezone?: string;
+  status: ScheduledEmailStatus;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/**
+ * Filters for listing scheduled emails
+ */
+export interface ScheduledEmailListOptions {
+  /** Only return messages with this status */
+  status?: ScheduledEmailStatus;
+  page?: number;
+  limit?: number;
+  /** Opaque cursor returned as `pagination.nextCursor` (takes precedence over page) */
+  cursor?: string;
+}
+
+/**
+ * Scheduled email list response
+ */
+export interface ScheduledEmailListResponse {
+  scheduled: ScheduledEmail[];
+  pagination: PaginationInfo;
+}
+
+/**
+ * Delivery status of a sent message
+ */
+export type EmailMessageStatus = 'queued' | 'scheduled' | 'sent' | 'delivered' | 'bounced' | 'complained' | 'failed';
+
+/**
+ * Events recorded for a sent message
+ */
+export type EmailEventType = 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'complained';
+
+/**
+ * Event recorded for a sent message
+ */
+export interface EmailEvent {
+  /** Event ID */
+  id: string;
+  /** Tracking ID of the message */
+  trackingId: string;
+  type: EmailEventType;
+  /** When the event happened (ISO 8601) */
+  timestamp: string;
+  recipient: string;
+  /** Clicked URL (clicked events) */
+  url?: string;
+  /** Bounce classification (bounced events) */
+  bounceType?: 'hard' | 'soft';
+  /** Reason reported by the receiving server (bounced/complained events) */
+  reason?: string;
+  /** User agent of the opening or clicking client */
+  userAgent?: string;
+  /** IP address of the opening or clicking client */
+  ipAddress?: string;
+}
+
+/**
+ * Sent message with its current status
+ */
+export interface EmailMessage {
+  /** Tracking ID returned in successfulEmails */
+  trackingId: string;
+  from: string;
+  recipient: string;
+  subject: string;
+  status: EmailMessageStatus;
+  tags?: string[];
+  metadata?: EmailMetadata;
+  /** Number of recorded opens */
+  opens?: number;
+  /** Number of recorded clicks */
+  clicks?: number;
+  createdAt: string;
+  sentAt?: string;
+  deliveredAt?: string;
+  openedAt?: string;
+  clickedAt?: string;
+  bouncedAt?: string;
+  complainedAt?: string;
+}
+
+/**
+ * Filters for listing sent messages
+ */
+export interface EmailMessageListFilters {
+  status?: EmailMessageStatus;
+  recipient?: string;
+  tag?: string;
+  /** Only messages created at or after this time */
+  startDate?: Date | string;
+  /** Only messages created before this time */
+  endDate?: Date | string;
+  page?: number;
+  limit?: number;
+  /** Opaque cursor returned as `pagination.nextCursor` (takes precedence over page) */
+  cursor?: string;
+}
+
+/**
+ * Sent message list response
+ */
+export interface EmailMessageListResponse {
+  messages: EmailMessage[];
+  pagination: PaginationInfo;
+}
+
+/**
+ * Message events response
+ */
+export interface EmailEventListResponse {
+  trackingId: string;
+  /** Events in chronological order */
+  events: EmailEvent[];
+}
+
 /**
  * Template variables type
  */
@@ -330,6 +594,8 @@ export interface FormSubmissionOptions {
   formId: string;
   /** Submission data */
   data: FormSubmissionData;
+  /** Optional idempotency key (generated automatically when omitted) */
+  idempotencyKey?: string;
 }
 
 /**
@@ -346,12 +612,7 @@ export interface FormSubmissionResponse {
  */
 export interface FormListResponse {
   forms: FormConfig[];
-  pagination: {
-    total: number;
-    page: number;
-    limit: number;
-    pages: number;
-  };
+  pagination: PaginationInfo;
 }
 
 // ============================================
@@ -393,6 +654,8 @@ export interface CreateContactOptions {
   tags?: string[];
   customFields?: Record<string, any>;
   status?: ContactStatus;
+  /** Optional idempotency key (generated automatically when omitted) */
+  idempotencyKey?: string;
 }
 
 /**
@@ -417,6 +680,8 @@ export interface ContactListFilters {
   search?: string;
   page?: number;
   limit?: number;
+  /** Opaque cursor returned as `pagination.nextCursor` (takes precedence over page) */
+  cursor?: string;
 }
 
 /**
@@ -424,12 +689,7 @@ export interface ContactListFilters {
  */
 export interface ContactListResponse {
   contacts: Contact[];
-  pagination: {
-    total: number;
-    page: number;
-    limit: number;
-    pages: number;
-  };
+  pagination: PaginationInfo;
 }
 
 /**
@@ -464,6 +724,8 @@ export interface Audience {
 export interface CreateAudienceOptions {
   name: string;
   description?: string;
+  /** Optional idempotency key (generated automatically when omitted) */
+  idempotencyKey?: string;
 }
 
 /**
@@ -479,12 +741,7 @@ export interface UpdateAudienceOptions {
  */
 export interface AudienceListResponse {
   audiences: Audience[];
-  pagination: {
-    total: number;
-    page: number;
-    limit: number;
-    pages: number;
-  };
+  pagination: PaginationInfo;
 }
 
 /**
@@ -510,6 +767,48 @@ export interface AudienceStats {
 export interface PaginationOptions {
   page?: number;
   limit?: number;
+  /** Opaque cursor returned as `pagination.nextCursor` (takes precedence over page) */
+  cursor?: string;
+}
+
+/**
+ * Pagination details returned by list endpoints
+ */
+export interface PaginationInfo {
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+  /** Cursor for the next page when the endpoint supports cursors; null on the last page */
+  nextCursor?: string | null;
+}
+
+/**
+ * Per-call request options
+ */
+export interface RequestOptions {
+  /** Signal cancelling the request, including pending retry delays */
+  signal?: AbortSignal;
+  /** Timeout for each attempt in ms, overriding the client timeout */
+  timeout?: number;
+}
+
+/**
+ * Options for the auto-paginating list iterators
+ */
+export interface IterateOptions extends RequestOptions {
+  /** Items requested per page (default: 50) */
+  pageSize?: number;
+  /** Number of pages fetched ahead of the consumer (default: 0) */
+  prefetch?: number;
+}
+
+/**
+ * Per-call options for mutating requests
+ */
+export interface MutationOptions extends RequestOptions {
+  /** Idempotency key sent with the request (generated automatically when omitted) */
+  idempotencyKey?: string;
 }
 
 /**
@@ -522,12 +821,30 @@ export interface ApiResponse<T> {
   message?: string;
 }
 
+/**
+ * How content the HTML sanitizer would alter is handled
+ * - 'strip': remove silently (default)
+ * - 'report': remove and list the removals in the response as `sanitizationReport`
+ * - 'reject': throw an UnsafeHtmlError instead of sending
+ */
+export type SanitizeMode = 'strip' | 'report' | 'reject';
+
+/**
+ * HTML sanitization settings
+ */
+export interface SanitizeHtmlOptions extends HtmlSanitizerOptions {
+  /** How altered content is handled (default: 'strip') */
+  mode?: SanitizeMode;
+}
+
 /**
  * Client options for Metigan
  */
 export interface MetiganClientOptions {
   /** API Key */
   apiKey: string;
+  /** Base URL of the Metigan API (default: METIGAN_API_URL or https://api.metigan.com) */
+  baseUrl?: string;
   /** User ID for logging */
   userId?: string;
   /** Disable logging */
@@ -538,14 +855,36 @@ export interface MetiganClientOptions {
   retryCount?: number;
   /** Delay between retries in ms */
   retryDelay?: number;
+  /** Retry policy (backoff, jitter, retryable statuses, per-method rules) */
+  retryPolicy?: RetryPolicy;
+  /** Attach a generated Idempotency-Key to POST/PUT/PATCH requests (default: true) */
+  idempotencyKeys?: boolean;
   /** Enable debug mode (shows internal logs) */
   debug?: boolean;
-  /** Enable HTML sanitization for email content (default: true) */
-  sanitizeHtml?: boolean;
+  /** Enable HTML sanitization for email content, optionally with a mode and custom allowlists (default: true) */
+  sanitizeHtml?: boolean | SanitizeMode | SanitizeHtmlOptions;
   /** Enable client-side rate limiting (default: true) */
   enableRateLimit?: boolean;
   /** Max requests per second for rate limiting (default: 10) */
   maxRequestsPerSecond?: number;
+  /** Token-bucket rate limiter shared by every module, or its options (queueing, per-endpoint buckets, adaptive slow-down) */
+  rateLimit?: TokenBucketLimiter | TokenBucketOptions;
+  /** HTTP adapter or built-in adapter name (default: fetch when available, otherwise axios) */
+  adapter?: HttpAdapter | HttpAdapterName;
+  /** Request/response interceptors (onRequest, onResponse, onError, onRetry) */
+  interceptors?: Interceptor[];
+  /** Webhook signing secret used by the webhooks module */
+  webhookSecret?: string;
+  /** How long the suppression set used by filterSuppressed is cached, in ms (default: 300000) */
+  suppressionCacheTtl?: number;
+  /** Check that the sender domain is verified before every sendEmail (default: false) */
+  requireVerifiedDomain?: boolean;
+  /** How long sending domain statuses are cached, in ms (default: 300000) */
+  domainCacheTtl?: number;
+  /** Inline <style> rules into style attributes before every send, optionally with inliner options (default: false) */
+  inlineCss?: boolean | InlineCssOptions;
+  /** Lint the HTML of every sendEmail, optionally with lint options (default: false) */
+  lint?: boolean | LintOptions;
 }
 
 // ============================================
@@ -617,12 +956,7 @@ export interface EmailTemplate {
  */
 export interface EmailTemplateListResponse {
   templates: EmailTemplate[];
-  pagination: {
-    total: number;
-    page: number;
-    limit: number;
-    pages: number;
-  };
+  pagination: PaginationInfo;
 }
 
 /**
@@ -630,7 +964,259 @@ export interface EmailTemplateListResponse {
  */
 export interface TemplateModuleOptions {
   apiKey: string;
+  /** Base URL of the Metigan API */
+  baseUrl?: string;
   timeout?: number;
   retryCount?: number;
   retryDelay?: number;
+  /** Retry policy */
+  retryPolicy?: RetryPolicy;
+  /** Attach generated idempotency keys to mutating requests */
+  idempotencyKeys?: boolean;
+  /** HTTP adapter or built-in adapter name */
+  adapter?: HttpAdapter | HttpAdapterName;
+  /** Request/response interceptors */
+  interceptors?: Interceptor[];
+  /** Token-bucket rate limiter, or its options */
+  rateLimit?: TokenBucketLimiter | TokenBucketOptions;
+  /** Shared transport (created from the options above when omitted) */
+  transport?: Transport;
+}
+
+// ============================================
+// DOMAIN TYPES
+// ============================================
+
+/**
+ * Verification status of a sending domain or DNS record
+ */
+export type DomainStatus = 'pending' | 'verified' | 'failed';
+
+/**
+ * What a DNS record is used for
+ */
+export type DnsRecordPurpose = 'spf' | 'dkim' | 'dmarc' | 'return-path';
+
+/**
+ * DNS record to configure for a sending domain
+ */
+export interface DnsRecord {
+  purpose: DnsRecordPurpose;
+  type: 'TXT' | 'CNAME' | 'MX';
+  /** Host name of the record */
+  name: string;
+  /** Record value */
+  value: string;
+  /** Priority (MX records) */
+  priority?: number;
+  ttl?: number;
+  /** Whether the record was found with the expected value */
+  status: DomainStatus;
+}
+
+/**
+ * Sending domain
+ */
+export interface Domain {
+  id: string;
+  /** Domain name (e.g. example.com) */
+  name: string;
+  status: DomainStatus;
+  /** DNS records to configure (SPF, DKIM, DMARC, return-path) */
+  records: DnsRecord[];
+  createdAt: string;
+  verifiedAt?: string;
+  /** Last time the DNS records were checked */
+  lastCheckedAt?: string;
+}
+
+/**
+ * Options for adding a sending domain
+ */
+export interface CreateDomainOptions {
+  /** Domain name (e.g. example.com) */
+  name: string;
+  /** Subdomain used for the return-path (default: chosen by the server) */
+  returnPathSubdomain?: string;
+  /** Optional idempotency key (generated automatically when omitted) */
+  idempotencyKey?: string;
+}
+
+/**
+ * Domain list response
+ */
+export interface DomainListResponse {
+  domains: Domain[];
+  pagination: PaginationInfo;
+}
+
+// ============================================
+// SUPPRESSION TYPES
+// ============================================
+
+/**
+ * Why an address is suppressed
+ */
+export type SuppressionReason = 'bounce' | 'complaint' | 'unsubscribe' | 'manual';
+
+/**
+ * Address that no email is sent to
+ */
+export interface Suppression {
+  email: string;
+  reason: SuppressionReason;
+  /** Optional note recorded when the address was added */
+  note?: string;
+  createdAt: string;
+}
+
+/**
+ * Options for adding suppressions
+ */
+export interface AddSuppressionOptions {
+  /** Address or addresses to suppress */
+  email: string | string[];
+  /** Reason recorded for the suppression (default: manual) */
+  reason?: SuppressionReason;
+  /** Optional note */
+  note?: string;
+  /** Optional idempotency key (generated automatically when omitted) */
+  idempotencyKey?: string;
+}
+
+/**
+ * Result of adding suppressions
+ */
+export interface AddSuppressionResult {
+  /** Number of addresses newly suppressed */
+  added: number;
+  suppressions: Suppression[];
+}
+
+/**
+ * Filters for listing suppressions
+ */
+export interface SuppressionListFilters {
+  reason?: SuppressionReason;
+  /** Search by email address */
+  search?: string;
+  page?: number;
+  limit?: number;
+  /** Opaque cursor returned as `pagination.nextCursor` (takes precedence over page) */
+  cursor?: string;
+}
+
+/**
+ * Suppression list response
+ */
+export interface SuppressionListResponse {
+  suppressions: Suppression[];
+  pagination: PaginationInfo;
+}
+
+/**
+ * Suppression status of a single address
+ */
+export interface SuppressionCheckResult {
+  email: string;
+  suppressed: boolean;
+  reason?: SuppressionReason;
+}
+
+/**
+ * Suppression check response
+ */
+export interface SuppressionCheckResponse {
+  results: SuppressionCheckResult[];
+}
+
+/**
+ * Recipient removed from a send because it is suppressed
+ */
+export interface SkippedRecipient {
+  recipient: string;
+  reason: SuppressionReason;
+}
+
+// ============================================
+// WEBHOOK TYPES
+// ============================================
+
+/**
+ * Fields shared by every webhook event
+ */
+export interface WebhookEventBase<T extends string, D> {
+  /** Event ID (use it to deduplicate deliveries) */
+  id: string;
+  /** Event type */
+  type: T;
+  /** When the event was created (ISO 8601) */
+  createdAt: string;
+  /** Event payload */
+  data: D;
+}
+
+/**
+ * Email delivered to the recipient's server
+ */
+export type EmailDeliveredEvent = WebhookEventBase<'email.delivered', {
+  trackingId: string;
+  recipient: string;
+  from?: string;
+  subject?: string;
+  tags?: string[];
+  metadata?: EmailMetadata;
+  deliveredAt: string;
+}>;
+
+/**
+ * Email rejected by the recipient's server
+ */
+export type EmailBouncedEvent = WebhookEventBase<'email.bounced', {
+  trackingId: string;
+  recipient: string;
+  bounceType: 'hard' | 'soft';
+  reason?: string;
+  tags?: string[];
+  metadata?: EmailMetadata;
+  bouncedAt: string;
+}>;
+
+/**
+ * Contact unsubscribed from an audience
+ */
+export type ContactUnsubscribedEvent = WebhookEventBase<'contact.unsubscribed', {
+  contactId: string;
+  email: string;
+  audienceId?: string;
+  reason?: string;
+  unsubscribedAt: string;
+}>;
+
+/**
+ * Form response submitted
+ */
+export type FormSubmittedEvent = WebhookEventBase<'form.submitted', {
+  formId: string;
+  submissionId: string;
+  data: FormSubmissionData;
+  submittedAt: string;
+}>;
+
+/**
+ * Any webhook event, discriminated by `type`
+ */
+export type WebhookEvent = EmailDeliveredEvent | EmailBouncedEvent | ContactUnsubscribedEvent | FormSubmittedEvent;
+
+/**
+ * Webhook event type names
+ */
+export type WebhookEventType = WebhookEvent['type'];
+
+/**
+ * Webhook signature verification options
+ */
+export interface WebhookVerifyOptions {
+  /** Maximum age of the signature timestamp in seconds (default: 300); `false` disables the replay check */
+  toleranceSeconds?: number | false;
 }
@@ -0,0 +1,676 @@
+/**
+ * Metigan Webhooks Module
+ * Verifies webhook signatures and parses typed webhook events
+ * @version 2.0.0
+ */
+
+import { DEFAULT_WEBHOOK_TOLERANCE, WEBHOOK_SIGNATURE_HEADER } from './config';
+import { ValidationError, WebhookSignatureError } from './errors';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { WebhookEvent, WebhookEventType, WebhookVerifyOptions } from './types';
+
+/**
+ * Event types understood by constructEvent
+ */
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'email.delivered',
+  'email.bounced',
+  'contact.unsubscribed',
+  'form.submitted'
+];
+
+/**
+ * Raw webhook body as received from the server
+ */
+export type WebhookPayload = string | Buffer | Uint8Array;
+
+/**
+ * Parsed signature header
+ */
+export interface WebhookSignature {
+  /** Unix timestamp (seconds) the signature was created at */
+  timestamp: number;
+  /** Candidate v1 signatures (several are sent while a secret is being rotated) */
+  signatures: string[];
+}
+
+/**
+ * Load Node's crypto module on first use so browser bundles don't require it
+ */
+function getCrypto(): typeof import('crypto') {
+  return require('crypto');
+}
+
+/**
+ * WebCrypto implementation of the runtime, when it has one
+ */
+function getSubtleCrypto(): SubtleCrypto | undefined {
+  return typeof globalThis.crypto?.subtle?.importKey === 'function' ? globalThis.crypto.subtle : undefined;
+}
+
+/**
+ * Convert a raw body to the exact string that was signed
+ * @param payload - Raw request body
+ */
+function payloadToString(payload: WebhookPayload): string {
+  if (typeof payload === 'string') {
+    return payload;
+  }
+  if (payload instanceof Uint8Array) {
+    return new TextDecoder().decode(payload);
+  }
+  throw new ValidationError('Webhook payload must be the raw request body (string or Buffer), not a parsed object');
+}
+
+/**
+ * Parse a `t=<timestamp>,v1=<signature>` header
+ * @param signatureHeader - Value of the x-metigan-signature header
+ * @returns Parsed header, or undefined when malformed
+ */
+export function parseSignatureHeader(signatureHeader?: string | null): WebhookSignature | undefined {
+  if (!signatureHeader || typeof signatureHeader !== 'string') {
+    return undefined;
+  }
+
+  let timestamp = NaN;
+  const signatures: string[] = [];
+  for (const part of signatureHeader.split(',')) {
+    const [key, value] = part.split('=').map(item => item.trim());
+    if (key === 't') {
+      timestamp = Number(value);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    return undefined;
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Compute the v1 signature of a payload
+ * The signed content is `<timestamp>.<raw body>`, hashed with HMAC-SHA256 and hex encoded.
+ * Requires Node's crypto module; createWebhookHandler uses WebCrypto instead.
+ * @param payload - Raw request body
+ * @param timestamp - Unix timestamp in seconds
+ * @param secret - Webhook signing secret
+ */
+export function computeSignature(payload: WebhookPayload, timestamp: number, secret: string): string {
+  return getCrypto()
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payloadToString(payload)}`, 'utf8')
+    .digest('hex');
+}
+
+/**
+ * Compute the v1 signature with WebCrypto so it runs outside Node
+ * Falls back to Node's crypto module on runtimes without `crypto.subtle` (Node 14).
+ * @param payload - Raw request body
+ * @param timestamp - Unix timestamp in seconds
+ * @param secret - Webhook signing secret
+ */
+async function computeSignatureAsync(payload: WebhookPayload, timestamp: number, secret: string): Promise<string> {
+  const subtle = getSubtleCrypto();
+  if (!subtle) {
+    return computeSignature(payload, timestamp, secret);
+  }
+
+  const encoder = new TextEncoder();
+  const key = await subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const digest = new Uint8Array(await subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${payloadToString(payload)}`)));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Compare two hex signatures in constant time
+ * @param expected - Signature computed locally
+ * @param actual - Signature received in the header
+ */
+function safeCompare(expected: string, actual: string): boolean {
+  const encoder = new TextEncoder();
+  const expectedBytes = encoder.encode(expected);
+  const actualBytes = encoder.encode(actual);
+  if (expectedBytes.length !== actualBytes.length) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let i = 0; i < expectedBytes.length; i++) {
+    difference |= expectedBytes[i] ^ actualBytes[i];
+  }
+  return difference === 0;
+}
+
+/**
+ * Get the maximum signature age, rejecting values that would disable the check by accident
+ * @param options - Verification options
+ * @returns Tolerance in seconds, or false when the check is turned off
+ * @throws ValidationError if toleranceSeconds is not a positive number or false
+ */
+function resolveTolerance(options: WebhookVerifyOptions): number | false {
+  const tolerance = options.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE;
+  if (tolerance !== false && !(tolerance > 0)) {
+    throw new ValidationError('toleranceSeconds must be greater than 0 (use false to disable the timestamp check)');
+  }
+  return tolerance;
+}
+
+/**
+ * Parse the signature header and check its timestamp
+ * @returns Parsed signature, or the failure reason
+ */
+function readSignature(
+  signatureHeader: string | null | undefined,
+  secret: string,
+  options: WebhookVerifyOptions
+): WebhookSignature | string {
+  if (!secret) {
+    throw new ValidationError('Webhook secret is required');
+  }
+
+  const signature = parseSignatureHeader(signatureHeader);
+  if (!signature) {
+    return `Missing or malformed ${WEBHOOK_SIGNATURE_HEADER} header`;
+  }
+
+  const tolerance = resolveTolerance(options);
+  if (tolerance !== false && Math.abs(Date.now() / 1000 - signature.timestamp) > tolerance) {
+    return 'Webhook signature timestamp is outside the tolerance window';
+  }
+
+  return signature;
+}
+
+/**
+ * Compare the expected signature with every candidate in the header
+ * @returns Failure reason, or undefined when one matches
+ */
+function matchSignature(expected: string, signature: WebhookSignature): string | undefined {
+  if (!signature.signatures.some(candidate => safeCompare(expected, candidate))) {
+    return 'Webhook signature does not match the payload';
+  }
+  return undefined;
+}
+
+/**
+ * Check a signature and describe why it is not valid
+ * @returns Failure reason, or undefined when the signature is valid
+ */
+function checkSignature(
+  payload: WebhookPayload,
+  signatureHeader: string | null | undefined,
+  secret: string,
+  options: WebhookVerifyOptions
+): string | undefined {
+  const signature = readSignature(signatureHeader, secret, options);
+  if (typeof signature === 'string') {
+    return signature;
+  }
+  return matchSignature(computeSignature(payload, signature.timestamp, secret), signature);
+}
+
+/**
+ * Check a signature with WebCrypto (used by the request handler)
+ * @returns Failure reason, or undefined when the signature is valid
+ */
+async function checkSignatureAsync(
+  payload: WebhookPayload,
+  signatureHeader: string | null | undefined,
+  secret: string,
+  options: WebhookVerifyOptions
+): Promise<string | undefined> {
+  const signature = readSignature(signatureHeader, secret, options);
+  if (typeof signature === 'string') {
+    return signature;
+  }
+  return matchSignature(await computeSignatureAsync(payload, signature.timestamp, secret), signature);
+}
+
+/**
+ * Verify that a webhook was sent by Metigan
+ * @param payload - Raw request body, exactly as received
+ * @param signatureHeader - Value of the x-metigan-signature header
+ * @param secret - Webhook signing secret
+ * @param options - Verification options (toleranceSeconds)
+ * @returns True if the signature is valid and recent
+ */
+export function verifySignature(
+  payload: WebhookPayload,
+  signatureHeader: string | null | undefined,
+  secret: string,
+  options: WebhookVerifyOptions = {}
+): boolean {
+  return checkSignature(payload, signatureHeader, secret, options) === undefined;
+}
+
+/**
+ * Verify a webhook and parse it into a typed event
+ * @param payload - Raw request body, exactly as received
+ * @param signatureHeader - Value of the x-metigan-signature header
+ * @param secret - Webhook signing secret
+ * @param options - Verification options (toleranceSeconds)
+ * @returns Event discriminated by `type`
+ * @throws WebhookSignatureError if the signature is missing, invalid or expired
+ * @throws ValidationError if the body is not a supported event
+ */
+export function constructEvent(
+  payload: WebhookPayload,
+  signatureHeader: string | null | undefined,
+  secret: string,
+  options: WebhookVerifyOptions = {}
+): WebhookEvent {
+  const failure = checkSignature(payload, signatureHeader, secret, options);
+  if (failure) {
+    throw new WebhookSignatureError(failure);
+  }
+
+  return parseEvent(payload);
+}
+
+/**
+ * Parse a verified webhook body into a typed event
+ * @param payload - Raw request body
+ * @throws ValidationError if the body is not a supported event
+ */
+function parseEvent(payload: WebhookPayload): WebhookEvent {
+  let event: any;
+  try {
+    event = JSON.parse(payloadToString(payload));
+  } catch {
+    throw new ValidationError('Webhook payload is not valid JSON');
+  }
+
+  if (!event || typeof event !== 'object' || typeof event.id !== 'string' || typeof event.type !== 'string') {
+    throw new ValidationError('Webhook payload is missing the event id or type');
+  }
+  if (!WEBHOOK_EVENT_TYPES.includes(event.type)) {
+    throw new ValidationError(`Unsupported webhook event type: ${event.type}`);
+  }
+  if (!event.data || typeof event.data !== 'object') {
+    throw new ValidationError('Webhook payload is missing the event data');
+  }
+
+  return event as WebhookEvent;
+}
+
+/**
+ * Handler invoked for a single event type
+ */
+export type WebhookEventHandler<T extends WebhookEventType> =
+  (event: Extract<WebhookEvent, { type: T }>) => void | Promise<void>;
+
+/**
+ * Handlers keyed by event type
+ */
+export type WebhookHandlers = { [T in WebhookEventType]?: WebhookEventHandler<T> };
+
+/**
+ * createWebhookHandler options
+ */
+export interface WebhookHandlerOptions extends WebhookVerifyOptions {
+  /** Webhook signing secret */
+  secret: string;
+  /** Handlers keyed by event type; events without a handler are acknowledged and ignored */
+  on: WebhookHandlers;
+  /**
+   * Called when verification, parsing or a handler fails; errors it throws are ignored.
+   * Without it, Express/Connect handler failures are passed to `next(error)`.
+   */
+  onError?: (error: unknown, event?: WebhookEvent) => void;
+  /** Maximum accepted body size in bytes (default: 1 MB) */
+  maxBodyBytes?: number;
+}
+
+/**
+ * Request handler for Node's http module, Express and Fetch-style runtimes
+ */
+export interface WebhookHandler {
+  /** Fetch API (Next.js route handlers, Cloudflare Workers, Deno, Bun) */
+  (request: Request): Promise<Response>;
+  /** Node http / Express / Connect */
+  (req: IncomingMessage, res: ServerResponse, next?: (error?: unknown) => void): Promise<void>;
+}
+
+/**
+ * Outcome of handling a webhook request
+ */
+interface WebhookHandlerResult {
+  status: number;
+  body: { received: boolean; error?: string };
+  /** Error thrown by the event handler */
+  error?: unknown;
+}
+
+/**
+ * Default maximum webhook body size (1 MB)
+ */
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Error raised while reading a webhook request body
+ */
+class WebhookBodyError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+/**
+ * Create a request handler that verifies, parses and dispatches webhooks
+ * Responds 200 once the matching handler resolves (or when no handler is registered),
+ * 401 for a missing or invalid signature, 400 for a malformed body, 405 for non-POST
+ * requests, 413 for oversized bodies and 500 when a handler throws so Metigan retries.
+ * With Express/Connect and no `onError`, a handler failure is passed to `next(error)`
+ * instead, leaving the response to the app's error middleware.
+ * Signatures are checked with WebCrypto, so Fetch requests work without Node APIs.
+ * @param options - Secret, handlers and verification options
+ * @returns Handler accepting a Fetch Request or a Node/Express (req, res) pair
+ * @example
+ * ```typescript
+ * app.post('/webhooks/metigan', createWebhookHandler({
+ *   secret: process.env.METIGAN_WEBHOOK_SECRET!,
+ *   on: {
+ *     'email.bounced': async event => markBounced(event.data.recipient)
+ *   }
+ * }));
+ * ```
+ */
+export function createWebhookHandler(options: WebhookHandlerOptions): WebhookHandler {
+  if (!options || !options.secret) {
+    throw new ValidationError('Webhook secret is required');
+  }
+  if (!options.on || typeof options.on !== 'object') {
+    throw new ValidationError('Webhook handlers (on) are required');
+  }
+  resolveTolerance(options);
+
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  // A failing error reporter must not prevent the response
+  const reportError = (error: unknown, event?: WebhookEvent) => {
+    try {
+      options.onError?.(error, event);
+    } catch {
+      // Ignored
+    }
+  };
+
+  const handle = async (
+    method: string | undefined,
+    signatureHeader: string | null | undefined,
+    readBody: () => Promise<WebhookPayload>
+  ): Promise<WebhookHandlerResult> => {
+    if (method && method.toUpperCase() !== 'POST') {
+      return { status: 405, body: { received: false, error: 'Method not allowed' } };
+    }
+
+    let event: WebhookEvent | undefined;
+    try {
+      const payload = await readBody();
+
+      const failure = await checkSignatureAsync(payload, signatureHeader, options.secret, options);
+      if (failure) {
+        throw new WebhookSignatureError(failure);
+      }
+
+      // Acknowledge event types this SDK version does not know yet
+      const type = getEventType(payload);
+      if (type && !WEBHOOK_EVENT_TYPES.includes(type as WebhookEventType)) {
+        return { status: 200, body: { received: true } };
+      }
+
+      event = parseEvent(payload);
+    } catch (error) {
+      reportError(error);
+      if (error instanceof WebhookBodyError) {
+        return { status: error.status, body: { received: false, error: error.message } };
+      }
+      if (error instanceof WebhookSignatureError) {
+        return { status: 401, body: { received: false, error: error.message } };
+      }
+      return { status: 400, body: { received: false, error: (error as Error)?.message || 'Invalid webhook' } };
+    }
+
+    const handler = options.on[event.type] as ((event: WebhookEvent) => void | Promise<void>) | undefined;
+    if (handler) {
+      try {
+        await handler(event);
+      } catch (error) {
+        reportError(error, event);
+        return { status: 500, body: { received: false, error: 'Webhook handler failed' }, error };
+      }
+    }
+
+    return { status: 200, body: { received: true } };
+  };
+
+  const handler = async (req: any, res?: any, next?: (error?: unknown) => void): Promise<any> => {
+    // Fetch API Request
+    if (isFetchRequest(req)) {
+      const result = await handle(
+        req.method,
+        req.headers.get(WEBHOOK_SIGNATURE_HEADER),
+        () => readFetchBody(req, maxBodyBytes)
+      );
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Node http / Express
+    const header = req.headers?.[WEBHOOK_SIGNATURE_HEADER];
+    const result = await handle(
+      req.method,
+      Array.isArray(header) ? header[0] : header,
+      () => readNodeBody(req, maxBodyBytes)
+    );
+    if (res.headersSent) {
+      return;
+    }
+    if (result.error !== undefined && !options.onError && typeof next === 'function') {
+      next(result.error);
+      return;
+    }
+    res.statusCode = result.status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(result.body));
+  };
+
+  return handler as WebhookHandler;
+}
+
+/**
+ * Whether a request object is a Fetch API Request
+ * @param req - Incoming request
+ */
+function isFetchRequest(req: any): req is Request {
+  return !!req && typeof req.arrayBuffer === 'function' && typeof req.headers?.get === 'function';
+}
+
+/**
+ * Read the `type` of a webhook body without validating the rest
+ * @param payload - Raw request body
+ * @throws ValidationError if the body is not valid JSON
+ */
+function getEventType(payload: WebhookPayload): string | undefined {
+  let event: any;
+  try {
+    event = JSON.parse(payloadToString(payload));
+  } catch {
+    throw new ValidationError('Webhook payload is not valid JSON');
+  }
+  return event && typeof event.type === 'string' ? event.type : undefined;
+}
+
+/**
+ * Read the raw body of a Fetch request, stopping once it exceeds the size limit
+ * @param req - Fetch API Request
+ * @param maxBodyBytes - Maximum accepted size in bytes
+ */
+async function readFetchBody(req: Request, maxBodyBytes: number): Promise<WebhookPayload> {
+  const length = Number(req.headers.get('content-length'));
+  if (length > maxBodyBytes) {
+    throw new WebhookBodyError('Payload too large', 413);
+  }
+  if (!req.body) {
+    return new Uint8Array(await req.arrayBuffer());
+  }
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBodyBytes) {
+      reader.cancel().catch(() => undefined);
+      throw new WebhookBodyError('Payload too large', 413);
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+/**
+ * Read the raw body of a Node/Express request
+ * Uses a body already buffered by middleware (express.raw, express.text, rawBody)
+ * and otherwise consumes the request stream.
+ * @param req - Node IncomingMessage, possibly extended by Express
+ * @param maxBodyBytes - Maximum accepted size in bytes
+ */
+function readNodeBody(req: any, maxBodyBytes: number): Promise<WebhookPayload> {
+  const buffered = req.rawBody !== undefined ? req.rawBody : req.body;
+  if (typeof buffered === 'string' || buffered instanceof Uint8Array) {
+    if (Buffer.byteLength(buffered) > maxBodyBytes) {
+      return Promise.reject(new WebhookBodyError('Payload too large', 413));
+    }
+    return Promise.resolve(buffered);
+  }
+  if (buffered !== undefined || req.readableEnded) {
+    return Promise.reject(new WebhookBodyError(
+      'Raw request body is unavailable; mount the handler before JSON body parsers (e.g. use express.raw())',
+      400
+    ));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer | string) => {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      size += buffer.length;
+      if (size > maxBodyBytes) {
+        req.removeAllListeners('data');
+        req.resume();
+        reject(new WebhookBodyError('Payload too large', 413));
+        return;
+      }
+      chunks.push(buffer);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Webhooks module options
+ */
+export interface WebhookModuleOptions {
+  /** Default signing secret used when a method is called without one */
+  secret?: string;
+  /** Default maximum signature age in seconds; `false` disables the replay check */
+  toleranceSeconds?: number | false;
+}
+
+/**
+ * Metigan Webhooks Client
+ */
+export class MetiganWebhooks {
+  private secret?: string;
+  private toleranceSeconds?: number | false;
+
+  constructor(options: WebhookModuleOptions = {}) {
+    this.secret = options.secret;
+    this.toleranceSeconds = options.toleranceSeconds;
+  }
+
+  /**
+   * Verify that a webhook was sent by Metigan
+   * @param payload - Raw request body, exactly as received
+   * @param signatureHeader - Value of the x-metigan-signature header
+   * @param secret - Webhook signing secret (defaults to the module secret)
+   * @param options - Verification options (toleranceSeconds)
+   * @returns True if the signature is valid and recent
+   */
+  verifySignature(
+    payload: WebhookPayload,
+    signatureHeader: string | null | undefined,
+    secret?: string,
+    options: WebhookVerifyOptions = {}
+  ): boolean {
+    return verifySignature(payload, signatureHeader, this.resolveSecret(secret), this.resolveOptions(options));
+  }
+
+  /**
+   * Verify a webhook and parse it into a typed event
+   * @param payload - Raw request body, exactly as received
+   * @param signatureHeader - Value of the x-metigan-signature header
+   * @param secret - Webhook signing secret (defaults to the module secret)
+   * @param options - Verification options (toleranceSeconds)
+   * @returns Event discriminated by `type`
+   */
+  constructEvent(
+    payload: WebhookPayload,
+    signatureHeader: string | null | undefined,
+    secret?: string,
+    options: WebhookVerifyOptions = {}
+  ): WebhookEvent {
+    return constructEvent(payload, signatureHeader, this.resolveSecret(secret), this.resolveOptions(options));
+  }
+
+  /**
+   * Create a request handler that verifies, parses and dispatches webhooks
+   * @param options - Handlers and verification options (secret defaults to the module secret)
+   * @returns Handler accepting a Fetch Request or a Node/Express (req, res) pair
+   */
+  createHandler(options: Omit<WebhookHandlerOptions, 'secret'> & { secret?: string }): WebhookHandler {
+    return createWebhookHandler({
+      ...options,
+      ...this.resolveOptions(options),
+      secret: this.resolveSecret(options.secret)
+    });
+  }
+
+  /**
+   * Pick the explicit secret or fall back to the module secret
+   */
+  private resolveSecret(secret?: string): string {
+    const resolved = secret || this.secret;
+    if (!resolved) {
+      throw new ValidationError('Webhook secret is required');
+    }
+    return resolved;
+  }
+
+  /**
+   * Apply the module tolerance when none is given
+   * Merged per field so an explicit `undefined` does not drop the module default.
+   */
+  private resolveOptions(options: WebhookVerifyOptions): WebhookVerifyOptions {
+    return { toleranceSeconds: options.toleranceSeconds ?? this.toleranceSeconds };
+  }
+}
+
+export default MetiganWebhooks;
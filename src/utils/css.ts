@@ -0,0 +1,97 @@
+/**
+ * CSS parsing helpers for Metigan
+ * Shared by the sanitizer and the CSS inliner
+ */
+
+/**
+ * Find the `}` closing the block opened at `open`
+ * @param css - Stylesheet text
+ * @param open - Index of `{`
+ * @returns Index of the matching `}` (or the end of the text)
+ */
+export function findBlockEnd(css: string, open: number): number {
+  let depth = 0;
+  let i = open;
+  while (i < css.length) {
+    const char = css[i];
+    if (char === '"' || char === "'") {
+      i = skipCssString(css, i);
+      continue;
+    }
+    if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i;
+    }
+    i++;
+  }
+  return css.length;
+}
+
+/**
+ * Split CSS on a separator outside strings and parentheses
+ * @param css - CSS text
+ * @param separator - Separator character
+ */
+export function splitCss(css: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let i = 0;
+
+  while (i < css.length) {
+    const char = css[i];
+    if (char === '"' || char === "'") {
+      i = skipCssString(css, i);
+      continue;
+    }
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (char === separator && depth === 0) {
+      parts.push(css.slice(start, i));
+      start = i + 1;
+    }
+    i++;
+  }
+  parts.push(css.slice(start));
+
+  return parts;
+}
+
+/**
+ * Skip a quoted CSS string
+ * @param css - CSS text
+ * @param quote - Index of the opening quote
+ * @returns Index after the closing quote
+ */
+export function skipCssString(css: string, quote: number): number {
+  let i = quote + 1;
+  while (i < css.length && css[i] !== css[quote]) {
+    i += css[i] === '\\' ? 2 : 1;
+  }
+  return i + 1;
+}
+
+/**
+ * Remove CSS comments (which can split keywords like `expr/ ** /ession`)
+ * @param css - CSS text
+ */
+export function stripCssComments(css: string): string {
+  return css.replace(/\/\*[\s\S]*?(?:\*\/|$)/g, '');
+}
+
+/**
+ * Resolve CSS escapes (`\6a`, `\:`)
+ * @param css - CSS text
+ */
+export function unescapeCss(css: string): string {
+  return css.replace(/\\(?:([0-9a-f]{1,6})\s?|(\r\n|[\s\S]))/gi, (_match, hex: string, char: string) => {
+    if (hex) {
+      const code = parseInt(hex, 16);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '�';
+    }
+    return /[\r\n]/.test(char) ? '' : char;
+  });
+}
@@ -0,0 +1,203 @@
+/**
+ * HTML tokenizer helpers for Metigan
+ * Shared by the sanitizer and the CSS inliner
+ */
+
+/**
+ * Elements whose content is raw text up to the matching end tag
+ */
+export const RAW_TEXT_ELEMENTS = ['script', 'style', 'xmp', 'iframe', 'noembed', 'noframes', 'noscript', 'textarea', 'title'];
+
+/**
+ * Entities decoded before URL checks (browsers decode these in attribute values)
+ */
+const ATTRIBUTE_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  colon: ':',
+  semi: ';',
+  tab: '\t',
+  newline: '\n',
+  sol: '/',
+  bsol: '\\',
+  lpar: '(',
+  rpar: ')',
+  num: '#',
+  period: '.',
+  comma: ',',
+  excl: '!',
+  quest: '?',
+  equals: '=',
+  percnt: '%',
+  plus: '+',
+  lowbar: '_'
+};
+
+const TAG_START = /<(\/?)([a-zA-Z][^\s/>]*)/y;
+const ATTRIBUTE = /([^\s"'>/=][^\s"'>/=]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]*)))?/y;
+
+/**
+ * Attribute as written in a start tag
+ */
+export interface RawAttribute {
+  /** Lower-case name */
+  name: string;
+  /** Raw (undecoded) value */
+  value: string;
+  /** Offset of the attribute name */
+  start: number;
+  /** Offset after the attribute value */
+  end: number;
+}
+
+/**
+ * Start or end tag
+ */
+export interface TagToken {
+  /** Lower-case name */
+  name: string;
+  closing: boolean;
+  selfClosing: boolean;
+  attributes: RawAttribute[];
+  /** Offset after the tag name */
+  nameEnd: number;
+  /** Index after the closing `>` */
+  end: number;
+  /** The input ended before `>` */
+  unterminated: boolean;
+}
+
+/**
+ * Read a start or end tag at `pos`
+ * @param html - HTML being tokenized
+ * @param pos - Index of `<`
+ * @returns Tag token, or null when `<` does not start a tag
+ */
+export function readTag(html: string, pos: number): TagToken | null {
+  TAG_START.lastIndex = pos;
+  const start = TAG_START.exec(html);
+  if (!start) {
+    return null;
+  }
+
+  const tag: TagToken = {
+    name: start[2].toLowerCase(),
+    closing: start[1] === '/',
+    selfClosing: false,
+    attributes: [],
+    nameEnd: TAG_START.lastIndex,
+    end: html.length,
+    unterminated: true
+  };
+
+  let i = TAG_START.lastIndex;
+  while (i < html.length) {
+    const char = html[i];
+    if (char === '>') {
+      tag.end = i + 1;
+      tag.unterminated = false;
+      break;
+    }
+    if (char === '/') {
+      tag.selfClosing = html[i + 1] === '>';
+      i++;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    ATTRIBUTE.lastIndex = i;
+    const attribute = ATTRIBUTE.exec(html);
+    if (!attribute) {
+      i++;
+      continue;
+    }
+    const name = attribute[1].toLowerCase();
+    // Browsers keep the first of duplicated attributes
+    if (!tag.attributes.some(existing => existing.name === name)) {
+      tag.attributes.push({
+        name,
+        value: attribute[2] ?? attribute[3] ?? attribute[4] ?? '',
+        start: i,
+        end: ATTRIBUTE.lastIndex
+      });
+    }
+    i = ATTRIBUTE.lastIndex;
+  }
+
+  return tag;
+}
+
+/**
+ * Find the end of a comment opened before `from`
+ * @param html - HTML being tokenized
+ * @param from - Index after `<!--`
+ * @returns Index after the comment
+ */
+export function findCommentEnd(html: string, from: number): number {
+  // <!--> and <!---> are complete (empty) comments
+  if (html[from] === '>') return from + 1;
+  if (html.startsWith('->', from)) return from + 2;
+
+  const ends = [html.indexOf('-->', from), html.indexOf('--!>', from)].filter(index => index !== -1);
+  if (ends.length === 0) {
+    return html.length;
+  }
+  const end = Math.min(...ends);
+  return end + (html.startsWith('-->', end) ? 3 : 4);
+}
+
+/**
+ * Find the end tag closing a raw text element
+ * @param html - HTML being tokenized
+ * @param from - Index after the start tag
+ * @param name - Element name
+ */
+export function findRawTextEnd(html: string, from: number, name: string): { contentEnd: number; end: number } {
+  const pattern = new RegExp(`</${name}(?=[\\s/>])[^>]*(?:>|$)`, 'ig');
+  pattern.lastIndex = from;
+  const match = pattern.exec(html);
+  if (!match) {
+    return { contentEnd: html.length, end: html.length };
+  }
+  return { contentEnd: match.index, end: match.index + match[0].length };
+}
+
+/**
+ * Decode the entities browsers resolve in attribute values
+ * Numeric references are decoded with or without the trailing semicolon.
+ * @param value - Raw attribute value
+ */
+export function decodeAttributeEntities(value: string): string {
+  return value.replace(/&(?:#x([0-9a-f]+);?|#(\d+);?|([a-z][a-z0-9]*);)/gi, (entity, hex: string, dec: string, named: string) => {
+    if (named) {
+      const decoded = ATTRIBUTE_ENTITIES[named.toLowerCase()];
+      return decoded !== undefined ? decoded : entity;
+    }
+    const code = hex ? parseInt(hex, 16) : parseInt(dec, 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '�';
+  });
+}
+
+/**
+ * Create a function converting offsets into 1-based line and column numbers
+ * @param source - Text the offsets refer to
+ */
+export function createLineLocator(source: string): (offset: number) => { line: number; column: number } {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return (offset: number) => {
+    let line = lineStarts.length;
+    while (lineStarts[line - 1] > offset) line--;
+    return { line, column: offset - lineStarts[line - 1] + 1 };
+  };
+}
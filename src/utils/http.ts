@@ -1,9 +1,37 @@
 /**
  * HTTP utility for making API requests
- * Abstracts the actual HTTP client implementation
+ * Abstracts the actual HTTP client implementation behind pluggable adapters
  */
 
-import axios, { AxiosRequestConfig } from 'axios';
+import type { AxiosStatic } from 'axios';
+import {
+  MetiganError,
+  ApiError,
+  AuthenticationError,
+  PermissionError,
+  NotFoundError,
+  ConflictError,
+  RateLimitError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+  AbortError
+} from '../lib/errors';
+import type { ApiErrorDetails } from '../lib/errors';
+import {
+  resolveRetryRules,
+  isRetryable,
+  getRetryDelay,
+  getRetryAfterDelay,
+  parseRetryAfter,
+  hasIdempotencyKey,
+  generateIdempotencyKey,
+  sleep
+} from './retry';
+import type { RetryPolicy } from './retry';
+import { TokenBucketLimiter } from './rate-limit';
+import type { TokenBucketOptions } from './rate-limit';
+import { API_URL, DEFAULT_TIMEOUT, DEFAULT_RETRY_COUNT, DEFAULT_RETRY_DELAY } from '../lib/config';
 
 /**
  * HTTP error interface
@@ -12,169 +40,608 @@ export interface HttpError {
   status: number;
   data: any;
   message: string;
+  /** Response headers (lower-cased names) */
+  headers?: Record<string, string>;
+  /** True when the request was aborted because it exceeded its timeout */
+  timedOut?: boolean;
+  /** True when the request was cancelled through its AbortSignal */
+  aborted?: boolean;
 }
 
 /**
- * Request options
+ * Supported HTTP methods
  */
-export interface RequestOptions {
-  timeout?: number;
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Request handed to an HttpAdapter
+ */
+export interface HttpRequest {
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  /** Request body */
+  data?: any;
+  /** Query string parameters */
   params?: Record<string, any>;
+  /** Request timeout in ms */
+  timeout: number;
+  /** Signal cancelling the request */
+  signal?: AbortSignal;
 }
 
 /**
- * Make a POST request to the specified URL
- * @param url - The URL to make the request to
- * @param data - The data to send in the request body
- * @param headers - The headers to include in the request
- * @param options - Additional request options
- * @returns The response data
- * @throws HttpError if the request fails
- */
-export async function post<T>(
-  url: string, 
-  data: any, 
-  headers: Record<string, string>,
-  options?: RequestOptions
-): Promise<T> {
-  try {
-    const config: AxiosRequestConfig = { 
-      headers,
-      timeout: options?.timeout || 30000
-    };
-    const response = await axios.post(url, data, config);
-    return response.data;
-  } catch (error: any) {
-    const httpError: HttpError = {
-      status: error.response?.status || 0,
-      data: error.response?.data || {},
-      message: error.message || 'Unknown error'
-    };
-    throw httpError;
+ * Response returned by an HttpAdapter
+ */
+export interface HttpResponse<T = any> {
+  status: number;
+  headers: Record<string, string>;
+  data: T;
+}
+
+/**
+ * HTTP adapter - performs a single request
+ * Implementations must resolve with the response for 2xx statuses and
+ * reject with an HttpError otherwise (status 0 for network errors and timeouts).
+ */
+export interface HttpAdapter {
+  request<T>(request: HttpRequest): Promise<HttpResponse<T>>;
+}
+
+/**
+ * Built-in adapter names
+ */
+export type HttpAdapterName = 'fetch' | 'axios';
+
+/**
+ * Append query parameters to a URL
+ * @param url - Base URL
+ * @param params - Query parameters (undefined/null values are skipped)
+ */
+function buildUrl(url: string, params?: Record<string, any>): string {
+  if (!params) return url;
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null) {
+      search.append(key, String(value));
+    }
   }
+
+  const queryString = search.toString();
+  if (!queryString) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}${queryString}`;
 }
 
 /**
- * Make a GET request to the specified URL
- * @param url - The URL to make the request to
- * @param headers - The headers to include in the request
- * @param options - Additional request options
- * @returns The response data
- * @throws HttpError if the request fails
- */
-export async function get<T>(
-  url: string, 
-  headers: Record<string, string>,
-  options?: RequestOptions
-): Promise<T> {
-  try {
-    const config: AxiosRequestConfig = { 
-      headers,
-      timeout: options?.timeout || 30000,
-      params: options?.params
-    };
-    const response = await axios.get(url, config);
-    return response.data;
-  } catch (error: any) {
-    const httpError: HttpError = {
-      status: error.response?.status || 0,
-      data: error.response?.data || {},
-      message: error.message || 'Unknown error'
-    };
-    throw httpError;
+ * Adapter based on the native Fetch API
+ * Works in browsers, Node.js 18+, Deno, Cloudflare Workers and Vercel Edge.
+ */
+export const fetchAdapter: HttpAdapter = {
+  async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : undefined;
+    let timedOut = false;
+    const timer = controller ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeout) : undefined;
+
+    // Forward the caller's signal to the controller that also enforces the timeout
+    const onAbort = () => controller?.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    if (request.signal?.aborted) controller?.abort();
+
+    let body: any;
+    if (request.data !== undefined && request.method !== 'GET') {
+      const isRaw = typeof request.data === 'string' ||
+        (typeof FormData !== 'undefined' && request.data instanceof FormData);
+      body = isRaw ? request.data : JSON.stringify(request.data);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(buildUrl(request.url, request.params), {
+        method: request.method,
+        headers: request.headers,
+        body,
+        signal: controller?.signal
+      });
+    } catch (error: any) {
+      const aborted = !timedOut && !!request.signal?.aborted;
+      const httpError: HttpError = {
+        status: 0,
+        data: {},
+        message: timedOut ? `timeout of ${request.timeout}ms exceeded` : error?.message || 'Unknown error',
+        timedOut,
+        aborted
+      };
+      throw httpError;
+    } finally {
+      if (timer) clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key.toLowerCase()] = value;
+    });
+
+    const text = await response.text();
+    let data: any = text;
+    if (text && (headers['content-type'] || '').includes('json')) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        // Keep the raw text when the server sends invalid JSON
+      }
+    }
+
+    if (!response.ok) {
+      const httpError: HttpError = {
+        status: response.status,
+        data: data || {},
+        message: `Request failed with status code ${response.status}`,
+        headers
+      };
+      throw httpError;
+    }
+
+    return { status: response.status, headers, data };
   }
+};
+
+/**
+ * Convert axios headers to a plain object with lower-cased names
+ * @param raw - axios response headers
+ */
+function normalizeHeaders(raw?: Record<string, any>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw || {})) {
+    if (value !== undefined && value !== null) {
+      headers[key.toLowerCase()] = String(value);
+    }
+  }
+  return headers;
 }
 
 /**
- * Make a PUT request to the specified URL
- * @param url - The URL to make the request to
- * @param data - The data to send in the request body
- * @param headers - The headers to include in the request
- * @param options - Additional request options
- * @returns The response data
- * @throws HttpError if the request fails
- */
-export async function put<T>(
-  url: string, 
-  data: any, 
-  headers: Record<string, string>,
-  options?: RequestOptions
-): Promise<T> {
-  try {
-    const config: AxiosRequestConfig = { 
-      headers,
-      timeout: options?.timeout || 30000
-    };
-    const response = await axios.put(url, data, config);
-    return response.data;
-  } catch (error: any) {
-    const httpError: HttpError = {
-      status: error.response?.status || 0,
-      data: error.response?.data || {},
-      message: error.message || 'Unknown error'
-    };
-    throw httpError;
+ * Adapter based on axios
+ * axios is loaded on first use so runtimes without it can rely on the fetch adapter.
+ */
+export const axiosAdapter: HttpAdapter = {
+  async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const axios: AxiosStatic = require('axios');
+
+    try {
+      const response = await axios.request({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        data: request.data,
+        params: request.params,
+        timeout: request.timeout,
+        signal: request.signal
+      });
+
+      return { status: response.status, headers: normalizeHeaders(response.headers), data: response.data };
+    } catch (error: any) {
+      const httpError: HttpError = {
+        status: error.response?.status || 0,
+        data: error.response?.data || {},
+        message: error.message || 'Unknown error',
+        headers: normalizeHeaders(error.response?.headers),
+        timedOut: error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT',
+        aborted: axios.isCancel(error) || !!request.signal?.aborted
+      };
+      throw httpError;
+    }
+  }
+};
+
+/**
+ * Resolve the adapter to use
+ * Defaults to fetch when the runtime provides it, otherwise axios.
+ * @param adapter - Adapter instance or built-in adapter name
+ */
+export function resolveAdapter(adapter?: HttpAdapter | HttpAdapterName): HttpAdapter {
+  if (adapter && typeof adapter === 'object') {
+    return adapter;
+  }
+
+  switch (adapter) {
+    case 'fetch':
+      return fetchAdapter;
+    case 'axios':
+      return axiosAdapter;
+    default:
+      return typeof fetch === 'function' ? fetchAdapter : axiosAdapter;
   }
 }
 
 /**
- * Make a PATCH request to the specified URL
- * @param url - The URL to make the request to
- * @param data - The data to send in the request body
- * @param headers - The headers to include in the request
- * @param options - Additional request options
- * @returns The response data
- * @throws HttpError if the request fails
- */
-export async function patch<T>(
-  url: string, 
-  data: any, 
-  headers: Record<string, string>,
-  options?: RequestOptions
-): Promise<T> {
-  try {
-    const config: AxiosRequestConfig = { 
-      headers,
-      timeout: options?.timeout || 30000
+ * Methods that receive an Idempotency-Key header
+ */
+const MUTATING_METHODS: HttpMethod[] = ['POST', 'PUT', 'PATCH'];
+
+/**
+ * Request details passed to interceptors
+ * onRequest may modify `url`, `headers` and `body` before the attempt is sent.
+ */
+export interface RequestContext {
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: any;
+  params?: Record<string, any>;
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** Time the attempt started (ms since epoch) */
+  startTime: number;
+}
+
+/**
+ * Context passed to onResponse
+ */
+export interface ResponseContext extends RequestContext {
+  status: number;
+  responseHeaders: Record<string, string>;
+  data: any;
+  /** Duration of the attempt in ms */
+  duration: number;
+}
+
+/**
+ * Context passed to onError
+ */
+export interface ErrorContext extends RequestContext {
+  error: MetiganError;
+  /** Duration of the attempt in ms */
+  duration: number;
+}
+
+/**
+ * Context passed to onRetry
+ */
+export interface RetryContext extends ErrorContext {
+  /** Delay before the next attempt in ms */
+  delay: number;
+}
+
+/**
+ * Request/response interceptor
+ * Hooks run in registration order; an error thrown by a hook fails the request.
+ */
+export interface Interceptor {
+  /** Called before every attempt */
+  onRequest?(context: RequestContext): void | Promise<void>;
+  /** Called after a successful response */
+  onResponse?(context: ResponseContext): void | Promise<void>;
+  /** Called once when the request finally fails */
+  onError?(context: ErrorContext): void | Promise<void>;
+  /** Called before waiting for the next attempt */
+  onRetry?(context: RetryContext): void | Promise<void>;
+}
+
+/**
+ * Transport configuration shared by every module
+ */
+export interface TransportOptions {
+  /** API Key sent in the x-api-key header */
+  apiKey: string;
+  /** Base URL of the Metigan API (default: API_URL) */
+  baseUrl?: string;
+  /** Request timeout in ms */
+  timeout?: number;
+  /** Number of attempts before giving up (0 or 1 disables retries) */
+  retryCount?: number;
+  /** Base delay between retries in ms */
+  retryDelay?: number;
+  /** Retry policy (retryCount/retryDelay are used as its defaults) */
+  retryPolicy?: RetryPolicy;
+  /** Attach a generated Idempotency-Key to POST/PUT/PATCH requests (default: true) */
+  idempotencyKeys?: boolean;
+  /** HTTP adapter or built-in adapter name (default: fetch when available, otherwise axios) */
+  adapter?: HttpAdapter | HttpAdapterName;
+  /** Interceptors applied to every request */
+  interceptors?: Interceptor[];
+  /** Token-bucket rate limiter applied to every request, or its options (default: none) */
+  rateLimit?: TokenBucketLimiter | TokenBucketOptions;
+}
+
+/**
+ * Per-request transport options
+ */
+export interface TransportRequestOptions {
+  /** Query string parameters */
+  params?: Record<string, any>;
+  /** Extra headers merged over the defaults */
+  headers?: Record<string, string>;
+  /** Idempotency key sent for this request instead of a generated one */
+  idempotencyKey?: string;
+  /** Signal cancelling the request, including pending retry delays */
+  signal?: AbortSignal;
+  /** Timeout for each attempt in ms, overriding the transport timeout */
+  timeout?: number;
+  /**
+   * SDK-internal request such as usage logs: attempted once, without the rate
+   * limiter or interceptors, so it never consumes or slows the caller's quota
+   */
+  internal?: boolean;
+}
+
+/**
+ * Transport - single HTTP pipeline used by every Metigan module
+ * Owns headers, timeouts, retry policy and error mapping so that
+ * email, forms, contacts, audiences and templates behave identically.
+ */
+export class Transport {
+  /** Adapter performing the actual HTTP calls */
+  public readonly adapter: HttpAdapter;
+  /** Base URL every endpoint is resolved against */
+  public readonly baseUrl: string;
+  /** Rate limiter every attempt takes a token from */
+  public readonly rateLimiter: TokenBucketLimiter | null;
+  private apiKey: string;
+  private timeout: number;
+  private retryCount: number;
+  private retryDelay: number;
+  private retryPolicy: RetryPolicy;
+  private idempotencyKeys: boolean;
+  private interceptors: Interceptor[];
+
+  /**
+   * Create a new Transport
+   * @param options - Transport options
+   */
+  constructor(options: TransportOptions) {
+    if (!options.apiKey) {
+      throw new MetiganError('API key is required');
+    }
+
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl || API_URL).replace(/\/+$/, '');
+    this.timeout = options.timeout || DEFAULT_TIMEOUT;
+    this.retryCount = options.retryCount ?? DEFAULT_RETRY_COUNT;
+    this.retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+    this.retryPolicy = options.retryPolicy || {};
+    this.idempotencyKeys = options.idempotencyKeys !== false;
+    this.interceptors = [...(options.interceptors || [])];
+    this.adapter = resolveAdapter(options.adapter);
+    this.rateLimiter = options.rateLimit instanceof TokenBucketLimiter
+      ? options.rateLimit
+      : options.rateLimit ? new TokenBucketLimiter(options.rateLimit) : null;
+  }
+
+  /**
+   * Get default headers for API requests
+   * @param data - Request body, used to decide the content type
+   */
+  private getHeaders(data?: any): Record<string, string> {
+    const headers: Record<string, string> = {
+      'x-api-key': this.apiKey,
+      'User-Agent': 'SDK'
     };
-    const response = await axios.patch(url, data, config);
-    return response.data;
-  } catch (error: any) {
-    const httpError: HttpError = {
-      status: error.response?.status || 0,
-      data: error.response?.data || {},
-      message: error.message || 'Unknown error'
+
+    // Let the runtime set the multipart boundary for FormData bodies
+    if (!(typeof FormData !== 'undefined' && data instanceof FormData)) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    return headers;
+  }
+
+  /**
+   * Register an interceptor
+   * @param interceptor - Hooks to run for every request
+   * @returns Function removing the interceptor
+   */
+  use(interceptor: Interceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      this.interceptors = this.interceptors.filter(item => item !== interceptor);
     };
-    throw httpError;
+  }
+
+  /**
+   * Run a hook on every interceptor in registration order
+   */
+  private async runHook<K extends keyof Interceptor>(
+    interceptors: Interceptor[],
+    hook: K,
+    context: Parameters<NonNullable<Interceptor[K]>>[0]
+  ): Promise<void> {
+    for (const interceptor of interceptors) {
+      const fn = interceptor[hook] as ((context: any) => void | Promise<void>) | undefined;
+      if (fn) {
+        await fn.call(interceptor, context);
+      }
+    }
+  }
+
+  /**
+   * Notify onError interceptors and return the error to throw
+   */
+  private async fail(interceptors: Interceptor[], error: MetiganError, context: RequestContext): Promise<MetiganError> {
+    await this.runHook(interceptors, 'onError', { ...context, error, duration: Date.now() - context.startTime });
+    return error;
+  }
+
+  /**
+   * Make request with retry logic
+   * Failures are retried according to the retry policy: transient statuses and
+   * network errors are retried with backoff, Retry-After is honored on 429/503,
+   * and POST/PATCH requests are only retried when they carry an Idempotency-Key.
+   * Every attempt first takes a token from the rate limiter, which slows down
+   * when the server answers 429.
+   * @param method - HTTP method
+   * @param endpoint - API path, e.g. `/api/contacts`
+   * @param data - Request body
+   * @param options - Per-request options
+   * @returns The response data
+   * @throws ApiError (or one of its subclasses) if the request fails
+   * @throws RateLimitError if the client-side rate limiter rejects the request
+   */
+  async request<T>(
+    method: HttpMethod,
+    endpoint: string,
+    data?: any,
+    options: TransportRequestOptions = {}
+  ): Promise<T> {
+    const url = `${this.baseUrl}${endpoint}`;
+    const headers = { ...this.getHeaders(data), ...options.headers };
+
+    // The key is generated once so every retry attempt reuses it
+    if (MUTATING_METHODS.includes(method) && !hasIdempotencyKey(headers)) {
+      const idempotencyKey = options.idempotencyKey || (this.idempotencyKeys ? generateIdempotencyKey() : undefined);
+      if (idempotencyKey) {
+        headers['Idempotency-Key'] = idempotencyKey;
+      }
+    }
+
+    const rules = resolveRetryRules(this.retryPolicy, method, {
+      maxAttempts: this.retryCount,
+      baseDelay: this.retryDelay
+    });
+    const rateLimiter = options.internal ? null : this.rateLimiter;
+    const interceptors = options.internal ? [] : this.interceptors;
+    if (options.internal) {
+      rules.maxAttempts = 1;
+    }
+    const startTime = Date.now();
+
+    for (let attempt = 0; ; attempt++) {
+      const context: RequestContext = {
+        method,
+        url,
+        headers: { ...headers },
+        body: data,
+        params: options.params,
+        attempt: attempt + 1,
+        startTime: Date.now()
+      };
+
+      if (options.signal?.aborted) {
+        throw await this.fail(interceptors, new AbortError(), context);
+      }
+
+      if (rateLimiter) {
+        try {
+          await rateLimiter.acquire(method, endpoint, options.signal);
+        } catch (limitError: any) {
+          throw await this.fail(interceptors, limitError, context);
+        }
+      }
+
+      await this.runHook(interceptors, 'onRequest', context);
+
+      let response: HttpResponse<T>;
+      try {
+        response = await this.adapter.request<T>({
+          method,
+          url: context.url,
+          headers: context.headers,
+          data: context.body,
+          params: context.params,
+          timeout: options.timeout || this.timeout,
+          signal: options.signal
+        });
+      } catch (error: any) {
+        if (error?.aborted) {
+          throw await this.fail(interceptors, new AbortError(), context);
+        }
+
+        if (error?.status === 429) {
+          rateLimiter?.penalize(method, endpoint, parseRetryAfter(error.headers?.['retry-after']));
+        }
+
+        if (attempt + 1 >= rules.maxAttempts || !isRetryable(rules, method, context.headers, error)) {
+          throw await this.fail(interceptors, toApiError(error), context);
+        }
+
+        // Give up when the next attempt would exceed the elapsed time budget
+        const delay = getRetryDelay(rules, attempt, error);
+        const overBudget = rules.maxElapsedTime !== undefined && Date.now() - startTime + delay > rules.maxElapsedTime;
+
+        // Retrying before Retry-After would only be rejected again: let the caller wait instead
+        if (getRetryAfterDelay(error) !== undefined && (delay > rules.maxDelay || overBudget)) {
+          throw await this.fail(interceptors, toRetryAfterError(error), context);
+        }
+        if (overBudget) {
+          throw await this.fail(interceptors, toApiError(error), context);
+        }
+
+        await this.runHook(interceptors, 'onRetry', {
+          ...context,
+          error: toApiError(error),
+          duration: Date.now() - context.startTime,
+          delay
+        });
+        try {
+          await sleep(delay, options.signal);
+        } catch (abortError: any) {
+          throw await this.fail(interceptors, abortError, context);
+        }
+        continue;
+      }
+
+      rateLimiter?.recover(method, endpoint);
+
+      await this.runHook(interceptors, 'onResponse', {
+        ...context,
+        status: response.status,
+        responseHeaders: response.headers,
+        data: response.data,
+        duration: Date.now() - context.startTime
+      });
+
+      return response.data;
+    }
   }
 }
 
 /**
- * Make a DELETE request to the specified URL
- * @param url - The URL to make the request to
- * @param headers - The headers to include in the request
- * @param options - Additional request options
- * @returns The response data
- * @throws HttpError if the request fails
+ * Map an HttpError to the matching ApiError subclass
+ * @param error - HttpError raised by the adapter
  */
-export async function del<T>(
-  url: string, 
-  headers: Record<string, string>,
-  options?: RequestOptions
-): Promise<T> {
-  try {
-    const config: AxiosRequestConfig = { 
-      headers,
-      timeout: options?.timeout || 30000
-    };
-    const response = await axios.delete(url, config);
-    return response.data;
-  } catch (error: any) {
-    const httpError: HttpError = {
-      status: error.response?.status || 0,
-      data: error.response?.data || {},
-      message: error.message || 'Unknown error'
-    };
-    throw httpError;
+export function toApiError(error: HttpError | undefined): ApiError {
+  const headers = error?.headers || {};
+  const details: ApiErrorDetails = {
+    code: error?.data?.code,
+    body: error?.data,
+    requestId: headers['x-request-id']
+  };
+
+  if (!error?.status) {
+    return error?.timedOut
+      ? new TimeoutError(error.message || 'Request timed out', details)
+      : new NetworkError('Failed to connect to the Metigan API', details);
+  }
+
+  const status = error.status;
+  const message = error.data?.message || error.data?.error || `Request failed with status ${status}`;
+
+  if (status === 401) return new AuthenticationError(message, status, details);
+  if (status === 403) return new PermissionError(message, status, details);
+  if (status === 404) return new NotFoundError(message, status, details);
+  if (status === 409) return new ConflictError(message, status, details);
+  if (status === 429) return new RateLimitError(message, parseRetryAfter(headers['retry-after']), status, details);
+  if (status >= 500) return new ServerError(message, status, details);
+  return new ApiError(message, status, details);
+}
+
+/**
+ * Map a 429/503 response whose Retry-After is too long to wait for
+ * @param error - Error raised by the adapter
+ * @returns RateLimitError carrying the server's `retryAfter`
+ */
+function toRetryAfterError(error: HttpError): RateLimitError {
+  const apiError = toApiError(error);
+  if (apiError instanceof RateLimitError) {
+    return apiError;
   }
+  return new RateLimitError(apiError.message, parseRetryAfter(error.headers?.['retry-after']), apiError.status, {
+    code: apiError.code,
+    body: apiError.body,
+    requestId: apiError.requestId
+  });
 }
@@ -0,0 +1,621 @@
+/**
+ * CSS inliner for Metigan
+ * Moves <style> rules into style attributes for clients that ignore stylesheets
+ */
+
+import { RAW_TEXT_ELEMENTS, readTag, findCommentEnd, findRawTextEnd, decodeAttributeEntities } from './html';
+import type { TagToken } from './html';
+import { findBlockEnd, splitCss, skipCssString, stripCssComments } from './css';
+
+/**
+ * CSS inlining options
+ */
+export interface InlineCssOptions {
+  /**
+   * Remove the <style> blocks that were inlined (default: true)
+   * Rules that cannot be inlined (media queries, pseudo-classes, @font-face...)
+   * are kept in a single <style> block in the head.
+   */
+  removeStyleTags?: boolean;
+  /** Additional CSS inlined as if it came first in the document */
+  extraCss?: string;
+}
+
+/**
+ * Elements that never have content
+ */
+const VOID_ELEMENTS = [
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+];
+
+/**
+ * Open elements closed implicitly when another element starts
+ */
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['td', 'th', 'tr'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  thead: ['td', 'th', 'tr', 'thead', 'tbody', 'tfoot'],
+  tbody: ['td', 'th', 'tr', 'thead', 'tbody', 'tfoot'],
+  tfoot: ['td', 'th', 'tr', 'thead', 'tbody', 'tfoot'],
+  option: ['option']
+};
+
+/**
+ * Elements that close an open paragraph
+ */
+const PARAGRAPH_CLOSERS = [
+  'address', 'article', 'blockquote', 'center', 'div', 'dl', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'header', 'hr', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+];
+
+/**
+ * Structural pseudo-classes that can be resolved when inlining
+ */
+const SUPPORTED_PSEUDO_CLASSES = [
+  'first-child', 'last-child', 'only-child', 'first-of-type', 'last-of-type', 'nth-child', 'nth-of-type'
+];
+
+const IDENTIFIER = /-?[_a-zA-Z][\w-]*/y;
+const ATTRIBUTE_SELECTOR = /\[\s*([\w:-]+)\s*(?:([~|^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\s\]"']+))\s*)?\]/y;
+const PSEUDO_CLASS = /:([\w-]+)(?:\(\s*([^)]*?)\s*\))?/y;
+const COMBINATOR = /\s*([>+~])?\s*/y;
+
+interface ElementNode {
+  name: string;
+  tag: TagToken;
+  /** Decoded attribute values */
+  attributes: Record<string, string>;
+  classes: string[];
+  parent?: ElementNode;
+  /** Element siblings, including this element */
+  siblings: ElementNode[];
+  children: ElementNode[];
+  /** Offset of `<` */
+  start: number;
+}
+
+interface StyleBlock {
+  start: number;
+  end: number;
+  css: string;
+}
+
+interface AttributeCondition {
+  name: string;
+  operator?: string;
+  value?: string;
+}
+
+interface PseudoCondition {
+  name: string;
+  /** an+b for nth-* pseudo-classes */
+  a: number;
+  b: number;
+}
+
+interface CompoundSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: AttributeCondition[];
+  pseudos: PseudoCondition[];
+}
+
+interface ParsedSelector {
+  compounds: CompoundSelector[];
+  /** Combinators between consecutive compounds (' ', '>', '+', '~') */
+  combinators: string[];
+  specificity: [number, number, number];
+}
+
+interface Declaration {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+interface CssRule {
+  selector: ParsedSelector;
+  declarations: Declaration[];
+  order: number;
+}
+
+interface AppliedDeclaration {
+  value: string;
+  important: boolean;
+  /** Declared in the element's own style attribute */
+  inline: boolean;
+}
+
+/**
+ * Inline <style> rules into style attributes
+ * Rules are applied in cascade order (specificity, then source order), with
+ * `!important` respected and existing style attributes taking precedence over
+ * normal stylesheet declarations. Media queries, @font-face, pseudo-elements
+ * and dynamic pseudo-classes such as :hover cannot be inlined and are kept in
+ * a <style> block in the head. Blocks marked with `data-embed`, or whose
+ * `media` attribute is not `all` or `screen`, are left untouched.
+ * @param html - HTML document or fragment
+ * @param options - Inlining options
+ * @returns HTML with inlined styles
+ */
+export function inlineCss(html: string, options: InlineCssOptions = {}): string {
+  if (!html || typeof html !== 'string') {
+    return '';
+  }
+
+  const removeStyleTags = options.removeStyleTags !== false;
+  const { elements, styles } = parseDocument(html);
+
+  const rules: CssRule[] = [];
+  const leftover: string[] = [];
+  for (const css of [options.extraCss || '', ...styles.map(style => style.css)]) {
+    parseStylesheet(css, rules, leftover);
+  }
+  if (rules.length === 0) {
+    return html;
+  }
+
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+
+  for (const element of elements) {
+    const style = computeStyle(element, rules);
+    if (!style) continue;
+
+    const existing = element.tag.attributes.find(attribute => attribute.name === 'style');
+    const attribute = `style="${style.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`;
+    if (existing) {
+      edits.push({ start: existing.start, end: existing.end, text: attribute });
+    } else {
+      edits.push({ start: element.tag.nameEnd, end: element.tag.nameEnd, text: ` ${attribute}` });
+    }
+  }
+
+  if (removeStyleTags) {
+    for (const style of styles) {
+      edits.push({ start: style.start, end: style.end, text: '' });
+    }
+
+    // Keep what could not be inlined in the head, or where the first block was
+    if (leftover.length > 0) {
+      const block = `<style type="text/css">\n${leftover.join('\n')}\n</style>`;
+      const headEnd = html.search(/<\/head\s*>/i);
+      const position = headEnd !== -1 ? headEnd : (styles.length > 0 ? styles[0].start : 0);
+      edits.push({ start: position, end: position, text: block });
+    }
+  }
+
+  // Apply from the end so earlier offsets stay valid
+  edits.sort((a, b) => b.start - a.start || b.end - a.end);
+  let out = html;
+  for (const edit of edits) {
+    out = out.slice(0, edit.start) + edit.text + out.slice(edit.end);
+  }
+
+  return out;
+}
+
+/**
+ * Build the element tree and collect inlinable <style> blocks
+ * @param html - HTML document or fragment
+ */
+function parseDocument(html: string): { elements: ElementNode[]; styles: StyleBlock[] } {
+  const elements: ElementNode[] = [];
+  const styles: StyleBlock[] = [];
+  const topLevel: ElementNode[] = [];
+  const stack: ElementNode[] = [];
+  let pos = 0;
+
+  const closeElement = (name: string) => {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (stack[i].name === name) {
+        stack.length = i;
+        return;
+      }
+    }
+  };
+
+  while (pos < html.length) {
+    const lt = html.indexOf('<', pos);
+    if (lt === -1) break;
+    pos = lt;
+
+    // Comments, including conditional comments, are not part of the tree
+    if (html.startsWith('<!--', pos)) {
+      pos = findCommentEnd(html, pos + 4);
+      continue;
+    }
+    const next = html[pos + 1];
+    if (next === '!' || next === '?' || (next === '/' && !/[a-zA-Z]/.test(html[pos + 2] || ''))) {
+      const close = html.indexOf('>', pos);
+      pos = close === -1 ? html.length : close + 1;
+      continue;
+    }
+
+    const tag = readTag(html, pos);
+    if (!tag) {
+      pos++;
+      continue;
+    }
+    if (tag.unterminated) break;
+    pos = tag.end;
+
+    if (tag.closing) {
+      closeElement(tag.name);
+      continue;
+    }
+
+    if (RAW_TEXT_ELEMENTS.includes(tag.name)) {
+      const { contentEnd, end } = findRawTextEnd(html, pos, tag.name);
+      if (tag.name === 'style' && isInlinableStyle(tag)) {
+        styles.push({ start: lt, end, css: html.slice(pos, contentEnd) });
+      }
+      pos = end;
+      if (tag.name === 'style') continue;
+    }
+
+    // Implicitly closed elements (</li>, </td>, </p>...)
+    const closes = IMPLICIT_CLOSE[tag.name] || [];
+    while (stack.length > 0 && closes.includes(stack[stack.length - 1].name)) {
+      stack.pop();
+    }
+    if (PARAGRAPH_CLOSERS.includes(tag.name) && stack.length > 0 && stack[stack.length - 1].name === 'p') {
+      stack.pop();
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const attribute of tag.attributes) {
+      attributes[attribute.name] = decodeAttributeEntities(attribute.value);
+    }
+    const parent = stack[stack.length - 1];
+    const siblings = parent ? parent.children : topLevel;
+    const element: ElementNode = {
+      name: tag.name,
+      tag,
+      attributes,
+      classes: (attributes.class || '').split(/\s+/).filter(Boolean),
+      parent,
+      siblings,
+      children: [],
+      start: lt
+    };
+    siblings.push(element);
+    elements.push(element);
+
+    if (!tag.selfClosing && !VOID_ELEMENTS.includes(tag.name) && !RAW_TEXT_ELEMENTS.includes(tag.name)) {
+      stack.push(element);
+    }
+  }
+
+  return { elements, styles };
+}
+
+/**
+ * Check whether a <style> block applies to screen rendering and may be inlined
+ * @param tag - <style> start tag
+ */
+function isInlinableStyle(tag: TagToken): boolean {
+  const media = tag.attributes.find(attribute => attribute.name === 'media');
+  const embed = tag.attributes.some(attribute => attribute.name === 'data-embed');
+  return !embed && (!media || /^\s*(all|screen)\s*$/i.test(media.value));
+}
+
+/**
+ * Parse a stylesheet into inlinable rules and leftover CSS
+ * @param css - Stylesheet text
+ * @param rules - Receives inlinable rules
+ * @param leftover - Receives CSS that must stay in a <style> block
+ */
+function parseStylesheet(css: string, rules: CssRule[], leftover: string[]): void {
+  const source = stripCssComments(css);
+  let start = 0;
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '"' || char === "'") {
+      i = skipCssString(source, i);
+      continue;
+    }
+
+    if (char === ';') {
+      // Statement at-rules such as @import and @charset
+      const statement = source.slice(start, i).trim();
+      if (statement.startsWith('@')) {
+        leftover.push(`${statement};`);
+      }
+      start = i + 1;
+    } else if (char === '{') {
+      const end = findBlockEnd(source, i);
+      const prelude = source.slice(start, i).trim();
+      const body = source.slice(i + 1, end);
+
+      if (prelude.startsWith('@')) {
+        // Media queries, @font-face, @keyframes... stay in the stylesheet
+        leftover.push(`${prelude} {${body}}`);
+      } else if (prelude) {
+        const declarations = parseDeclarations(body);
+        const kept: string[] = [];
+        for (const text of splitCss(prelude, ',')) {
+          const selector = parseSelector(text.trim());
+          if (selector) {
+            rules.push({ selector, declarations, order: rules.length });
+          } else if (text.trim()) {
+            kept.push(text.trim());
+          }
+        }
+        if (kept.length > 0 && declarations.length > 0) {
+          leftover.push(`${kept.join(', ')} {${body}}`);
+        }
+      }
+      i = end + 1;
+      start = i;
+      continue;
+    } else if (char === '}') {
+      start = i + 1;
+    }
+    i++;
+  }
+}
+
+/**
+ * Parse a declaration list
+ * @param css - Declarations (rule body or style attribute)
+ */
+function parseDeclarations(css: string): Declaration[] {
+  const declarations: Declaration[] = [];
+
+  for (const text of splitCss(stripCssComments(css), ';')) {
+    const colon = text.indexOf(':');
+    if (colon <= 0) continue;
+
+    const property = text.slice(0, colon).trim().toLowerCase();
+    let value = text.slice(colon + 1).trim();
+    const important = /!\s*important$/i.test(value);
+    if (important) {
+      value = value.replace(/\s*!\s*important$/i, '');
+    }
+    if (property && value) {
+      declarations.push({ property, value, important });
+    }
+  }
+
+  return declarations;
+}
+
+/**
+ * Compute the style attribute of an element
+ * @param element - Element
+ * @param rules - Inlinable rules
+ * @returns Style attribute value, or undefined when no rule matches
+ */
+function computeStyle(element: ElementNode, rules: CssRule[]): string | undefined {
+  const matched = rules
+    .filter(rule => matchesSelector(element, rule.selector, rule.selector.compounds.length - 1))
+    .sort((a, b) => compareSpecificity(a.selector.specificity, b.selector.specificity) || a.order - b.order);
+  if (matched.length === 0) {
+    return undefined;
+  }
+
+  const applied = new Map<string, AppliedDeclaration>();
+  const apply = (declaration: Declaration, inline: boolean) => {
+    const current = applied.get(declaration.property);
+    if (current && current.important && !declaration.important) {
+      return;
+    }
+    // Re-insert so the winning declaration follows any longhands set before it
+    applied.delete(declaration.property);
+    applied.set(declaration.property, { value: declaration.value, important: declaration.important, inline });
+  };
+
+  for (const rule of matched) {
+    for (const declaration of rule.declarations) {
+      apply(declaration, false);
+    }
+  }
+  for (const declaration of parseDeclarations(element.attributes.style || '')) {
+    apply(declaration, true);
+  }
+
+  const style: string[] = [];
+  applied.forEach((declaration, property) => {
+    // !important is only kept where the author wrote it inline
+    style.push(`${property}: ${declaration.value}${declaration.inline && declaration.important ? ' !important' : ''}`);
+  });
+  return style.join('; ');
+}
+
+/**
+ * Parse a selector into compounds and combinators
+ * @param selector - Single selector (no commas)
+ * @returns Parsed selector, or null when it cannot be inlined
+ */
+function parseSelector(selector: string): ParsedSelector | null {
+  const compounds: CompoundSelector[] = [];
+  const combinators: string[] = [];
+  const specificity: [number, number, number] = [0, 0, 0];
+  let current: CompoundSelector = { classes: [], attributes: [], pseudos: [] };
+  let empty = true;
+  let i = 0;
+
+  const readIdentifier = (from: number): string | null => {
+    IDENTIFIER.lastIndex = from;
+    const match = IDENTIFIER.exec(selector);
+    if (!match) return null;
+    i = IDENTIFIER.lastIndex;
+    return match[0];
+  };
+
+  while (i < selector.length) {
+    const char = selector[i];
+
+    if (/[\s>+~]/.test(char)) {
+      COMBINATOR.lastIndex = i;
+      const match = COMBINATOR.exec(selector)!;
+      i = COMBINATOR.lastIndex;
+      if (i >= selector.length) break;
+      if (empty) return null;
+      compounds.push(current);
+      combinators.push(match[1] || ' ');
+      current = { classes: [], attributes: [], pseudos: [] };
+      empty = true;
+      continue;
+    }
+
+    if (char === '*') {
+      i++;
+    } else if (char === '#') {
+      const id = readIdentifier(i + 1);
+      if (!id) return null;
+      current.id = id;
+      specificity[0]++;
+    } else if (char === '.') {
+      const className = readIdentifier(i + 1);
+      if (!className) return null;
+      current.classes.push(className);
+      specificity[1]++;
+    } else if (char === '[') {
+      ATTRIBUTE_SELECTOR.lastIndex = i;
+      const match = ATTRIBUTE_SELECTOR.exec(selector);
+      if (!match) return null;
+      i = ATTRIBUTE_SELECTOR.lastIndex;
+      current.attributes.push({ name: match[1].toLowerCase(), operator: match[2], value: match[3] ?? match[4] ?? match[5] });
+      specificity[1]++;
+    } else if (char === ':') {
+      // Pseudo-elements and dynamic pseudo-classes stay in the stylesheet
+      PSEUDO_CLASS.lastIndex = i;
+      const match = PSEUDO_CLASS.exec(selector);
+      if (!match || !SUPPORTED_PSEUDO_CLASSES.includes(match[1].toLowerCase())) return null;
+      i = PSEUDO_CLASS.lastIndex;
+      const name = match[1].toLowerCase();
+      const formula = name.startsWith('nth-') ? parseNth(match[2] || '') : { a: 0, b: 1 };
+      if (!formula || (!name.startsWith('nth-') && match[2] !== undefined)) return null;
+      current.pseudos.push({ name, ...formula });
+      specificity[1]++;
+    } else if (empty) {
+      const tag = readIdentifier(i);
+      if (!tag) return null;
+      current.tag = tag.toLowerCase();
+      specificity[2]++;
+    } else {
+      return null;
+    }
+    empty = false;
+  }
+
+  if (empty) return null;
+  compounds.push(current);
+
+  return { compounds, combinators, specificity };
+}
+
+/**
+ * Parse an an+b formula (`odd`, `even`, `3`, `2n+1`, `-n+3`)
+ * @param formula - Pseudo-class argument
+ */
+function parseNth(formula: string): { a: number; b: number } | null {
+  const text = formula.replace(/\s+/g, '').toLowerCase();
+  if (text === 'odd') return { a: 2, b: 1 };
+  if (text === 'even') return { a: 2, b: 0 };
+  if (/^[+-]?\d+$/.test(text)) return { a: 0, b: parseInt(text, 10) };
+
+  const match = text.match(/^([+-]?\d*)n([+-]\d+)?$/);
+  if (!match) return null;
+  const a = match[1] === '' || match[1] === '+' ? 1 : match[1] === '-' ? -1 : parseInt(match[1], 10);
+  return { a, b: match[2] ? parseInt(match[2], 10) : 0 };
+}
+
+/**
+ * Match an element against a selector, right to left
+ * @param element - Candidate element
+ * @param selector - Parsed selector
+ * @param index - Compound to match the element against
+ */
+function matchesSelector(element: ElementNode, selector: ParsedSelector, index: number): boolean {
+  if (!matchesCompound(element, selector.compounds[index])) {
+    return false;
+  }
+  if (index === 0) {
+    return true;
+  }
+
+  const position = element.siblings.indexOf(element);
+  switch (selector.combinators[index - 1]) {
+    case '>':
+      return !!element.parent && matchesSelector(element.parent, selector, index - 1);
+    case '+':
+      return position > 0 && matchesSelector(element.siblings[position - 1], selector, index - 1);
+    case '~':
+      return element.siblings.slice(0, position).some(sibling => matchesSelector(sibling, selector, index - 1));
+    default:
+      for (let ancestor = element.parent; ancestor; ancestor = ancestor.parent) {
+        if (matchesSelector(ancestor, selector, index - 1)) return true;
+      }
+      return false;
+  }
+}
+
+/**
+ * Match an element against a compound selector
+ * @param element - Candidate element
+ * @param compound - Compound selector
+ */
+function matchesCompound(element: ElementNode, compound: CompoundSelector): boolean {
+  if (compound.tag && compound.tag !== element.name) return false;
+  if (compound.id && compound.id !== element.attributes.id) return false;
+  if (!compound.classes.every(className => element.classes.includes(className))) return false;
+
+  for (const condition of compound.attributes) {
+    const value = element.attributes[condition.name];
+    if (value === undefined) return false;
+    if (condition.operator && !matchesAttribute(value, condition.operator, condition.value || '')) return false;
+  }
+
+  for (const pseudo of compound.pseudos) {
+    const ofType = pseudo.name.endsWith('-of-type');
+    const siblings = ofType ? element.siblings.filter(sibling => sibling.name === element.name) : element.siblings;
+    const position = siblings.indexOf(element) + 1;
+
+    if (pseudo.name.startsWith('first-') && position !== 1) return false;
+    if (pseudo.name.startsWith('last-') && position !== siblings.length) return false;
+    if (pseudo.name === 'only-child' && siblings.length !== 1) return false;
+    if (pseudo.name.startsWith('nth-')) {
+      const n = pseudo.a === 0 ? (position === pseudo.b ? 0 : -1) : (position - pseudo.b) / pseudo.a;
+      if (n < 0 || !Number.isInteger(n)) return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Compare an attribute value using a selector operator
+ * @param actual - Element attribute value
+ * @param operator - `=`, `~=`, `|=`, `^=`, `$=` or `*=`
+ * @param expected - Selector value
+ */
+function matchesAttribute(actual: string, operator: string, expected: string): boolean {
+  switch (operator) {
+    case '=': return actual === expected;
+    case '~=': return actual.split(/\s+/).includes(expected);
+    case '|=': return actual === expected || actual.startsWith(`${expected}-`);
+    case '^=': return expected !== '' && actual.startsWith(expected);
+    case '$=': return expected !== '' && actual.endsWith(expected);
+    case '*=': return expected !== '' && actual.includes(expected);
+    default: return false;
+  }
+}
+
+/**
+ * Compare two specificities
+ * @param a - First specificity
+ * @param b - Second specificity
+ * @returns Negative, zero or positive like a sort comparator
+ */
+function compareSpecificity(a: [number, number, number], b: [number, number, number]): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
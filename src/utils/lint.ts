@@ -0,0 +1,377 @@
+/**
+ * Email HTML linter for Metigan
+ * Flags content that renders badly or breaks in email clients
+ */
+
+import { readTag, findCommentEnd, findRawTextEnd, decodeAttributeEntities, createLineLocator } from './html';
+import { findBlockEnd, splitCss, stripCssComments } from './css';
+import { MERGE_TAG_PATTERN } from './merge';
+import { GMAIL_CLIP_SIZE } from '../lib/config';
+import type { TemplateVariables } from '../lib/types';
+
+/**
+ * Lint rule identifiers
+ */
+export type LintRule =
+  | 'img-alt'
+  | 'relative-url'
+  | 'unsupported-css'
+  | 'gmail-clipping'
+  | 'unsubscribe-link'
+  | 'merge-tag';
+
+/**
+ * Diagnostic severity (errors fail the sendEmail pre-flight check)
+ */
+export type LintSeverity = 'error' | 'warning';
+
+/**
+ * Email client families checked for CSS support
+ */
+export type EmailClientFamily = 'gmail' | 'outlook' | 'yahoo' | 'apple-mail';
+
+/**
+ * A problem found in email HTML
+ */
+export interface LintDiagnostic {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  /** Offset in the HTML where the problem was found */
+  offset: number;
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+  /** Client families that do not support the CSS (unsupported-css) */
+  clients?: EmailClientFamily[];
+}
+
+/**
+ * Lint result
+ */
+export interface LintResult {
+  /** True when there are no error diagnostics */
+  valid: boolean;
+  diagnostics: LintDiagnostic[];
+  /** HTML size in bytes (UTF-8) */
+  size: number;
+}
+
+/**
+ * Lint options
+ */
+export interface LintOptions {
+  /** Marketing mail must contain an unsubscribe link (default: false) */
+  marketing?: boolean;
+  /** Client families to check CSS support for (default: all) */
+  clients?: EmailClientFamily[];
+  /** When given, merge tags referencing other variables are reported */
+  variables?: TemplateVariables;
+  /** Size above which the message is clipped, in bytes (default: 104448, Gmail's ~102KB) */
+  maxSize?: number;
+  /** Change the severity of a rule or turn it off */
+  rules?: Partial<Record<LintRule, LintSeverity | 'off'>>;
+}
+
+/**
+ * Default rule severities
+ */
+const DEFAULT_SEVERITIES: Record<LintRule, LintSeverity> = {
+  'img-alt': 'warning',
+  'relative-url': 'error',
+  'unsupported-css': 'warning',
+  'gmail-clipping': 'warning',
+  'unsubscribe-link': 'error',
+  'merge-tag': 'error'
+};
+
+/**
+ * CSS that common client families ignore or strip
+ */
+const UNSUPPORTED_CSS: Array<{ feature: string; property: RegExp; value?: RegExp; clients: EmailClientFamily[] }> = [
+  { feature: 'display: flex', property: /^display$/, value: /^(inline-)?flex\b/i, clients: ['outlook', 'yahoo'] },
+  {
+    feature: 'flexbox',
+    property: /^(flex|flex-(basis|direction|flow|grow|shrink|wrap)|align-(content|items|self)|justify-content|order)$/,
+    clients: ['outlook', 'yahoo']
+  },
+  { feature: 'display: grid', property: /^display$/, value: /^(inline-)?grid\b/i, clients: ['gmail', 'outlook', 'yahoo'] },
+  { feature: 'CSS grid', property: /^grid(-[a-z-]+)?$/, clients: ['gmail', 'outlook', 'yahoo'] },
+  { feature: 'position', property: /^position$/, value: /^(absolute|fixed|relative|sticky)\b/i, clients: ['gmail', 'outlook', 'yahoo'] }
+];
+
+/**
+ * Attributes holding a URL
+ */
+const URL_ATTRIBUTES = ['href', 'src', 'background', 'action', 'poster'];
+
+/**
+ * Link href or text that counts as an unsubscribe link
+ */
+const UNSUBSCRIBE_PATTERN = /unsubscribe|opt[-\s]?out|descadastr|cancelar (a )?inscri/i;
+
+/**
+ * Lint email HTML
+ * Checks images without `alt`, relative URLs, CSS that client families do not
+ * support (flexbox, grid, position), size over Gmail's clipping threshold,
+ * a missing unsubscribe link in marketing mail and broken `{{merge}}` tags.
+ * @param html - HTML content
+ * @param options - Lint options
+ * @returns Diagnostics ordered by position
+ */
+export function lintEmailHtml(html: string, options: LintOptions = {}): LintResult {
+  const source = typeof html === 'string' ? html : '';
+  const diagnostics: Array<Omit<LintDiagnostic, 'line' | 'column'>> = [];
+  const clients = options.clients;
+
+  const report = (rule: LintRule, offset: number, message: string, extra: Partial<LintDiagnostic> = {}) => {
+    const severity = options.rules?.[rule] ?? DEFAULT_SEVERITIES[rule];
+    if (severity !== 'off') {
+      diagnostics.push({ rule, severity, message, offset, ...extra });
+    }
+  };
+
+  const checkCss = (css: string, offset: number) => {
+    const reported = new Set<string>();
+    for (const { property, value } of parseDeclarations(css)) {
+      for (const entry of UNSUPPORTED_CSS) {
+        if (!entry.property.test(property) || (entry.value && !entry.value.test(value))) continue;
+        const affected = entry.clients.filter(client => !clients || clients.includes(client));
+        if (affected.length === 0 || reported.has(entry.feature)) continue;
+        reported.add(entry.feature);
+        report('unsupported-css', offset, `${entry.feature} is not supported by ${affected.join(', ')}`, { clients: affected });
+      }
+    }
+  };
+
+  // Ranges whose braces are not merge tags (CSS, scripts, comments)
+  const skipped: Array<[number, number]> = [];
+  let hasUnsubscribeLink = false;
+  let bodyEnd = -1;
+  let pos = 0;
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt === -1) break;
+    pos = lt;
+
+    if (source.startsWith('<!--', pos)) {
+      const end = findCommentEnd(source, pos + 4);
+      // Conditional comments hold markup for Outlook and are linted like the rest
+      if (!/^<!--\[if\b/i.test(source.slice(pos, pos + 8))) {
+        skipped.push([pos, end]);
+        pos = end;
+      } else {
+        const close = source.indexOf('>', pos);
+        if (close === -1) {
+          // Unterminated: the rest of the source is the comment
+          skipped.push([pos, source.length]);
+          break;
+        }
+        pos = close + 1;
+      }
+      continue;
+    }
+
+    const tag = readTag(source, pos);
+    if (!tag) {
+      pos++;
+      continue;
+    }
+    if (tag.unterminated) break;
+    pos = tag.end;
+
+    if (tag.closing) {
+      if (tag.name === 'body') bodyEnd = lt;
+      continue;
+    }
+
+    const attributes: Record<string, { value: string; start: number }> = {};
+    for (const attribute of tag.attributes) {
+      attributes[attribute.name] = { value: decodeAttributeEntities(attribute.value).trim(), start: attribute.start };
+    }
+
+    if (tag.name === 'img' && !attributes.alt) {
+      report('img-alt', lt, `<img> without an alt attribute${attributes.src ? ` (${attributes.src.value})` : ''}`);
+    }
+
+    for (const name of URL_ATTRIBUTES) {
+      const url = attributes[name];
+      if (url && isRelativeUrl(url.value)) {
+        report('relative-url', url.start, `Relative URL "${url.value}" in ${name} will not resolve in email clients`);
+      }
+    }
+    if (attributes.srcset) {
+      for (const candidate of attributes.srcset.value.split(',')) {
+        const url = candidate.trim().split(/\s+/)[0];
+        if (url && isRelativeUrl(url)) {
+          report('relative-url', attributes.srcset.start, `Relative URL "${url}" in srcset will not resolve in email clients`);
+        }
+      }
+    }
+
+    if (attributes.style) {
+      checkCss(attributes.style.value, attributes.style.start);
+    }
+
+    if (tag.name === 'a' && !hasUnsubscribeLink) {
+      const close = source.slice(pos).search(/<\/a\s*>/i);
+      const text = source.slice(pos, close === -1 ? source.length : pos + close).replace(/<[^>]*>/g, '');
+      hasUnsubscribeLink = UNSUBSCRIBE_PATTERN.test(attributes.href?.value || '') || UNSUBSCRIBE_PATTERN.test(text);
+    }
+
+    if (tag.name === 'style' || tag.name === 'script') {
+      const { contentEnd, end } = findRawTextEnd(source, pos, tag.name);
+      if (tag.name === 'style') {
+        for (const block of findDeclarationBlocks(source.slice(pos, contentEnd))) {
+          checkCss(block, lt);
+        }
+      }
+      skipped.push([pos, contentEnd]);
+      pos = end;
+    }
+  }
+
+  // Merge tags: unbalanced braces, malformed names and, with `variables`, unknown names
+  const tagPattern = new RegExp(MERGE_TAG_PATTERN.source, 'y');
+  const bracePattern = /\{\{|\}\}/g;
+  let match: RegExpExecArray | null;
+  while ((match = bracePattern.exec(source)) !== null) {
+    const offset = match.index;
+    const range = skipped.find(([start, end]) => offset >= start && offset < end);
+    if (range) {
+      bracePattern.lastIndex = range[1];
+      continue;
+    }
+
+    if (match[0] === '}}') {
+      report('merge-tag', offset, 'Closing "}}" without a matching "{{"');
+      continue;
+    }
+
+    tagPattern.lastIndex = offset;
+    const mergeTag = tagPattern.exec(source);
+    if (!mergeTag) {
+      // Report up to the closing braces when they belong to this tag
+      const close = source.indexOf('}}', offset + 2);
+      const open = source.indexOf('{{', offset + 2);
+      const end = close !== -1 && (open === -1 || close < open) ? close + 2 : offset + 2;
+      if (end > offset + 2) bracePattern.lastIndex = end;
+      const snippet = end > offset + 2 ? source.slice(offset, end) : source.slice(offset, offset + 30).split(/[\s<]/)[0];
+      report('merge-tag', offset, `Malformed merge tag "${snippet}"`);
+      continue;
+    }
+    bracePattern.lastIndex = tagPattern.lastIndex;
+    if (options.variables && !Object.prototype.hasOwnProperty.call(options.variables, mergeTag[1])) {
+      report('merge-tag', offset, `Merge tag ${mergeTag[0]} has no value`);
+    }
+  }
+
+  if (options.marketing && !hasUnsubscribeLink) {
+    report('unsubscribe-link', bodyEnd === -1 ? source.length : bodyEnd, 'Marketing email has no unsubscribe link');
+  }
+
+  const maxSize = options.maxSize ?? GMAIL_CLIP_SIZE;
+  const { size, overflowAt } = measureBytes(source, maxSize);
+  if (overflowAt !== -1) {
+    report('gmail-clipping', overflowAt, `HTML is ${size} bytes; Gmail clips messages over ${maxSize} bytes`);
+  }
+
+  const locate = createLineLocator(source);
+  const located = diagnostics
+    .sort((a, b) => a.offset - b.offset)
+    .map(diagnostic => ({ ...diagnostic, ...locate(diagnostic.offset) }));
+
+  return {
+    valid: !located.some(diagnostic => diagnostic.severity === 'error'),
+    diagnostics: located,
+    size
+  };
+}
+
+/**
+ * Check whether a URL needs a base URL to resolve
+ * Fragments and merge tags (e.g. `{{unsubscribe_url}}`) are not relative.
+ * @param url - Decoded URL
+ */
+function isRelativeUrl(url: string): boolean {
+  if (!url || url.startsWith('#') || url.startsWith('{{')) {
+    return false;
+  }
+  return !/^[a-z][a-z0-9+.-]*:/i.test(url);
+}
+
+/**
+ * Parse a declaration list into property/value pairs
+ * @param css - Declarations
+ */
+function parseDeclarations(css: string): Array<{ property: string; value: string }> {
+  const declarations: Array<{ property: string; value: string }> = [];
+
+  for (const text of splitCss(stripCssComments(css), ';')) {
+    const colon = text.indexOf(':');
+    if (colon > 0) {
+      declarations.push({ property: text.slice(0, colon).trim().toLowerCase(), value: text.slice(colon + 1).trim() });
+    }
+  }
+
+  return declarations;
+}
+
+/**
+ * List the declaration blocks of a stylesheet, including those in @media and @supports
+ * @param css - Stylesheet text
+ */
+function findDeclarationBlocks(css: string): string[] {
+  const source = stripCssComments(css);
+  const blocks: string[] = [];
+  let start = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === ';' || source[i] === '}') {
+      start = i + 1;
+    } else if (source[i] === '{') {
+      const end = findBlockEnd(source, i);
+      const prelude = source.slice(start, i).trim().toLowerCase();
+      const body = source.slice(i + 1, end);
+      if (/^@(media|supports)\b/.test(prelude)) {
+        blocks.push(...findDeclarationBlocks(body));
+      } else if (!prelude.startsWith('@') || prelude === '@font-face' || prelude.startsWith('@page')) {
+        blocks.push(body);
+      }
+      i = end;
+      start = end + 1;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Measure a string in UTF-8 bytes
+ * @param text - Text
+ * @param budget - Byte budget
+ * @returns Total size and the offset of the first character past the budget (-1 when within it)
+ */
+function measureBytes(text: string, budget: number): { size: number; overflowAt: number } {
+  let size = 0;
+  let overflowAt = -1;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) {
+      size += 1;
+    } else if (code < 0x800) {
+      size += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+      size += 4;
+      i++;
+    } else {
+      size += 3;
+    }
+    if (size > budget && overflowAt === -1) {
+      overflowAt = i;
+    }
+  }
+  return { size, overflowAt };
+}
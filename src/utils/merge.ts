@@ -0,0 +1,91 @@
+/**
+ * Merge tag utilities for Metigan
+ * Renders {{variable}} placeholders in email content and subjects
+ */
+
+import { ValidationError } from '../lib/errors';
+import type { TemplateVariables, TemplateFunction } from '../lib/types';
+
+/**
+ * Matches {{name}} placeholders, allowing surrounding whitespace and dotted names
+ */
+export const MERGE_TAG_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Merge tag rendering options
+ */
+export interface RenderOptions {
+  /** HTML-escape substituted values (default: true) */
+  escapeHtml?: boolean;
+}
+
+/**
+ * List the variable names referenced by a text
+ * @param text - Text containing {{name}} placeholders
+ * @returns Unique variable names in order of appearance
+ */
+export function extractMergeTags(text: string): string[] {
+  const names: string[] = [];
+  if (!text) return names;
+
+  const pattern = new RegExp(MERGE_TAG_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * List the referenced variables that are not supplied
+ * @param text - Text containing {{name}} placeholders
+ * @param variables - Supplied variables
+ */
+export function findMissingVariables(text: string, variables: TemplateVariables = {}): string[] {
+  return extractMergeTags(text).filter(name => !Object.prototype.hasOwnProperty.call(variables, name));
+}
+
+/**
+ * Replace {{name}} placeholders with their values
+ * @param text - Text containing {{name}} placeholders
+ * @param variables - Values to substitute
+ * @param options - Rendering options
+ * @throws ValidationError if a referenced variable is not supplied
+ */
+export function renderMergeTags(text: string, variables: TemplateVariables = {}, options: RenderOptions = {}): string {
+  const missing = findMissingVariables(text, variables);
+  if (missing.length > 0) {
+    throw new ValidationError(`Missing template variables: ${missing.join(', ')}`);
+  }
+
+  const escape = options.escapeHtml !== false;
+  return text.replace(MERGE_TAG_PATTERN, (_match, name: string) => {
+    const value = String(variables[name]);
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * Compile a text into a reusable template function
+ * @param text - Text containing {{name}} placeholders
+ * @param options - Rendering options
+ */
+export function compileTemplate(text: string, options: RenderOptions = {}): TemplateFunction {
+  return (variables?: TemplateVariables) => renderMergeTags(text, variables, options);
+}
+
+/**
+ * Escape HTML special characters in a substituted value
+ * @param value - Raw value
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,107 @@
+/**
+ * Pagination utilities for Metigan
+ * Turns page/limit and cursor-based list endpoints into lazily fetched async iterators
+ */
+
+/**
+ * Parameters for fetching a single page
+ * Exactly one of `page` (page mode) or `cursor` (cursor mode) is set after the first page.
+ */
+export interface PageRequest {
+  /** 1-based page number (page mode) */
+  page?: number;
+  /** Cursor returned by the previous page (cursor mode) */
+  cursor?: string;
+  /** Items requested per page */
+  limit: number;
+}
+
+/**
+ * A single fetched page
+ */
+export interface Page<T> {
+  /** Items on this page */
+  items: T[];
+  /** Total number of pages, when the server reports it */
+  pages?: number;
+  /** Cursor for the next page; a string switches the iterator to cursor mode */
+  nextCursor?: string | null;
+}
+
+/**
+ * Paginator settings
+ */
+export interface PaginateOptions {
+  /** Items requested per page */
+  pageSize: number;
+  /** Number of pages fetched ahead of the consumer in page mode (default: 0) */
+  prefetch?: number;
+  /** Cursor to start from */
+  cursor?: string;
+}
+
+/**
+ * Iterate over every item of a paginated endpoint
+ * Pages are fetched lazily. When the server returns a `nextCursor` the iterator
+ * follows cursors, which stays consistent while rows are inserted; otherwise it
+ * walks page numbers and, with `prefetch` set, requests up to that many following
+ * pages concurrently while the current page is being consumed.
+ * @param fetchPage - Fetches a single page
+ * @param options - Paginator settings
+ */
+export async function* paginate<T>(
+  fetchPage: (request: PageRequest) => Promise<Page<T>>,
+  options: PaginateOptions
+): AsyncGenerator<T, void, undefined> {
+  const { pageSize } = options;
+  const prefetch = Math.max(0, options.prefetch || 0);
+
+  const first = await fetchPage(options.cursor ? { cursor: options.cursor, limit: pageSize } : { page: 1, limit: pageSize });
+  yield* first.items;
+
+  // Cursor mode: each request depends on the previous response, so no prefetching
+  if (options.cursor || typeof first.nextCursor === 'string' || first.nextCursor === null) {
+    let cursor = first.nextCursor;
+    while (cursor) {
+      const page = await fetchPage({ cursor, limit: pageSize });
+      yield* page.items;
+      cursor = page.items.length > 0 ? page.nextCursor : undefined;
+    }
+    return;
+  }
+
+  let totalPages = first.pages;
+  let lastCount = first.items.length;
+  let nextPage = 2;
+  const queue: Array<Promise<Page<T>>> = [];
+
+  const hasMore = (page: number) => totalPages !== undefined ? page <= totalPages : lastCount >= pageSize;
+
+  while (true) {
+    // Without a page count only the next page can be requested safely
+    const depth = totalPages !== undefined ? prefetch + 1 : 1;
+    while (queue.length < depth && hasMore(nextPage)) {
+      const pending = fetchPage({ page: nextPage++, limit: pageSize });
+      // Avoid unhandled rejections for pages the consumer never reaches
+      pending.catch(() => undefined);
+      queue.push(pending);
+    }
+
+    const pending = queue.shift();
+    if (!pending) {
+      return;
+    }
+
+    const page = await pending;
+    if (page.pages !== undefined) {
+      totalPages = page.pages;
+    }
+    lastCount = page.items.length;
+
+    if (page.items.length === 0) {
+      return;
+    }
+
+    yield* page.items;
+  }
+}
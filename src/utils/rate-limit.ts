@@ -0,0 +1,407 @@
+/**
+ * Token-bucket rate limiting for Metigan
+ * Shared by every module through the transport
+ */
+
+import { MetiganError, RateLimitError, AbortError } from '../lib/errors';
+import { DEFAULT_RATE_LIMIT, DEFAULT_RATE_LIMIT_QUEUE_SIZE, DEFAULT_RATE_LIMIT_QUEUE_TIMEOUT } from '../lib/config';
+
+/**
+ * What happens when a request exceeds the rate limit
+ * - 'wait': queue the request until a token is available
+ * - 'throw': fail immediately with a RateLimitError
+ */
+export type RateLimitMode = 'throw' | 'wait';
+
+/**
+ * Bucket size and refill rate
+ */
+export interface BucketOptions {
+  /** Sustained rate in requests per second */
+  requestsPerSecond: number;
+  /** Requests allowed in a burst (default: requestsPerSecond) */
+  burst?: number;
+}
+
+/**
+ * Token-bucket limiter options
+ */
+export interface TokenBucketOptions {
+  /** Sustained rate in requests per second across all endpoints (default: 10) */
+  requestsPerSecond?: number;
+  /** Requests allowed in a burst (default: requestsPerSecond) */
+  burst?: number;
+  /** Queue or fail requests over the limit (default: 'wait') */
+  onLimit?: RateLimitMode;
+  /** Maximum number of queued requests (default: 100) */
+  maxQueueSize?: number;
+  /** Maximum time a request waits in the queue, in ms (default: 30000) */
+  queueTimeout?: number;
+  /**
+   * Additional buckets for specific endpoints, keyed by path prefix with an
+   * optional method, e.g. `'/api/contacts'` or `'POST /api/email/send'`.
+   * Requests take a token from the most specific matching bucket and from the global one.
+   */
+  endpoints?: Record<string, BucketOptions>;
+  /** Halve the rate after a 429 response and recover gradually (default: true) */
+  adaptive?: boolean;
+}
+
+/**
+ * Lowest rate adaptive slow-down goes to, as a fraction of the configured rate
+ */
+const MIN_RATE_RATIO = 0.1;
+
+/**
+ * Rate recovered after each successful response, as a fraction of the configured rate
+ */
+const RECOVERY_STEP = 0.1;
+
+/**
+ * Refilling token bucket
+ */
+class Bucket {
+  private rate: number;
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private readonly baseRate: number, private readonly capacity: number) {
+    if (!(baseRate > 0)) {
+      throw new MetiganError('Rate limit requestsPerSecond must be greater than 0');
+    }
+    this.rate = baseRate;
+    this.tokens = capacity;
+  }
+
+  /**
+   * Time until a token is available, in ms
+   * @param now - Current time
+   */
+  waitTime(now: number): number {
+    this.refill(now);
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    // updatedAt is in the future while the bucket is paused
+    return Math.max(0, this.updatedAt - now) + ((1 - this.tokens) * 1000) / this.rate;
+  }
+
+  take(): void {
+    this.tokens -= 1;
+  }
+
+  /**
+   * Halve the rate and optionally stop refilling for a while
+   * @param now - Current time
+   * @param pause - Time to wait before refilling, in ms
+   */
+  slowDown(now: number, pause: number): void {
+    this.refill(now);
+    this.rate = Math.max(this.baseRate * MIN_RATE_RATIO, this.rate / 2);
+    if (pause > 0) {
+      this.tokens = Math.min(this.tokens, 0);
+      this.updatedAt = Math.max(this.updatedAt, now + pause);
+    }
+  }
+
+  /**
+   * Move the rate back towards the configured rate
+   * @param now - Current time
+   */
+  speedUp(now: number): void {
+    if (this.rate < this.baseRate) {
+      this.refill(now);
+      this.rate = Math.min(this.baseRate, this.rate + this.baseRate * RECOVERY_STEP);
+    }
+  }
+
+  reset(): void {
+    this.rate = this.baseRate;
+    this.tokens = this.capacity;
+    this.updatedAt = Date.now();
+  }
+
+  private refill(now: number): void {
+    if (now > this.updatedAt) {
+      this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) * this.rate) / 1000);
+      this.updatedAt = now;
+    }
+  }
+}
+
+/**
+ * Request waiting for tokens
+ */
+interface Waiter {
+  buckets: Bucket[];
+  resolve: () => void;
+}
+
+/**
+ * Token-bucket rate limiter
+ * Requests over the limit either wait in a FIFO queue or fail with a
+ * RateLimitError, depending on `onLimit`. With `adaptive`, a 429 response halves
+ * the rate of the endpoint bucket it came from, or of the global bucket when no
+ * endpoint bucket matches (pausing it for Retry-After), and each successful
+ * response restores part of it.
+ */
+export class TokenBucketLimiter {
+  private onLimit: RateLimitMode;
+  private maxQueueSize: number;
+  private queueTimeout: number;
+  private adaptive: boolean;
+  private global: Bucket;
+  private endpoints: Array<{ method?: string; path: string; bucket: Bucket }>;
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Create a new TokenBucketLimiter
+   * @param options - Limiter options
+   */
+  constructor(options: TokenBucketOptions = {}) {
+    this.onLimit = options.onLimit || 'wait';
+    this.maxQueueSize = options.maxQueueSize ?? DEFAULT_RATE_LIMIT_QUEUE_SIZE;
+    this.queueTimeout = options.queueTimeout ?? DEFAULT_RATE_LIMIT_QUEUE_TIMEOUT;
+    this.adaptive = options.adaptive !== false;
+    this.global = createBucket({ requestsPerSecond: options.requestsPerSecond ?? DEFAULT_RATE_LIMIT, burst: options.burst });
+
+    // Most specific path first
+    this.endpoints = Object.keys(options.endpoints || {})
+      .map(key => {
+        const [first, second] = key.trim().split(/\s+/);
+        return {
+          method: second ? first.toUpperCase() : undefined,
+          path: (second || first).replace(/\/+$/, ''),
+          bucket: createBucket(options.endpoints![key])
+        };
+      })
+      .sort((a, b) => b.path.length - a.path.length || Number(!!b.method) - Number(!!a.method));
+  }
+
+  /**
+   * Number of requests waiting for a token
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Take a token, waiting in the queue when none is available
+   * @param method - HTTP method
+   * @param endpoint - API path, e.g. `/api/contacts`
+   * @param signal - Signal cancelling the wait
+   * @throws RateLimitError if `onLimit` is 'throw', the queue is full or the wait times out
+   * @throws AbortError if the signal is aborted while waiting
+   */
+  async acquire(method: string, endpoint: string, signal?: AbortSignal): Promise<void> {
+    const buckets = this.getBuckets(method, endpoint);
+    if (this.queue.length === 0 && this.getWait(buckets) === 0) {
+      buckets.forEach(bucket => bucket.take());
+      return;
+    }
+
+    if (this.onLimit === 'throw') {
+      const wait = Math.ceil(this.getWait(buckets));
+      throw new RateLimitError(
+        `Rate limit exceeded. Please wait ${wait}ms before making another request.`,
+        wait / 1000,
+        429,
+        { code: 'client_rate_limit' }
+      );
+    }
+    if (this.queue.length >= this.maxQueueSize) {
+      throw new RateLimitError(`Rate limit queue is full (${this.maxQueueSize} requests waiting)`, undefined, 429, {
+        code: 'rate_limit_queue_full'
+      });
+    }
+    if (signal?.aborted) {
+      throw new AbortError();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const leave = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+        this.queue = this.queue.filter(item => item !== waiter);
+      };
+      const onAbort = () => {
+        leave();
+        reject(new AbortError());
+      };
+      const timeout = setTimeout(() => {
+        leave();
+        reject(new RateLimitError(`Timed out after ${this.queueTimeout}ms waiting for the rate limiter`, undefined, 429, {
+          code: 'rate_limit_timeout'
+        }));
+      }, this.queueTimeout);
+      const waiter: Waiter = {
+        buckets,
+        resolve: () => {
+          leave();
+          resolve();
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(waiter);
+      this.schedule();
+    });
+  }
+
+  /**
+   * Take a token only if one is available now
+   * @param method - HTTP method
+   * @param endpoint - API path
+   * @returns True if the token was taken
+   */
+  tryAcquire(method: string = 'GET', endpoint: string = '/'): boolean {
+    const buckets = this.getBuckets(method, endpoint);
+    if (this.queue.length > 0 || this.getWait(buckets) > 0) {
+      return false;
+    }
+    buckets.forEach(bucket => bucket.take());
+    return true;
+  }
+
+  /**
+   * Time until a request could be made, in ms (0 if allowed now)
+   * @param method - HTTP method
+   * @param endpoint - API path
+   */
+  getWaitTime(method: string = 'GET', endpoint: string = '/'): number {
+    return Math.ceil(this.getWait(this.getBuckets(method, endpoint)));
+  }
+
+  /**
+   * Slow down after the server answered 429
+   * Only the most specific bucket is slowed down: the endpoint bucket when one
+   * matches, so a 429 on one endpoint does not throttle unrelated requests.
+   * @param method - HTTP method of the limited request
+   * @param endpoint - API path of the limited request
+   * @param retryAfter - Seconds from the Retry-After header
+   */
+  penalize(method: string, endpoint: string, retryAfter?: number): void {
+    if (!this.adaptive) return;
+
+    const now = Date.now();
+    this.getLimitedBucket(method, endpoint).slowDown(now, (retryAfter || 0) * 1000);
+    this.schedule();
+  }
+
+  /**
+   * Restore part of the rate after a successful response
+   * Applies to the bucket `penalize` slows down for the same request.
+   * @param method - HTTP method
+   * @param endpoint - API path
+   */
+  recover(method: string, endpoint: string): void {
+    if (!this.adaptive) return;
+
+    const now = Date.now();
+    this.getLimitedBucket(method, endpoint).speedUp(now);
+  }
+
+  /**
+   * Refill every bucket and restore the configured rates
+   * Queued requests are kept and released as tokens allow.
+   */
+  reset(): void {
+    this.global.reset();
+    this.endpoints.forEach(endpoint => endpoint.bucket.reset());
+    this.schedule();
+  }
+
+  /**
+   * Release queued requests that can go now and wait for the next one
+   * A request blocked by its endpoint bucket does not hold back requests to other endpoints.
+   */
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    let next = Infinity;
+    for (const waiter of [...this.queue]) {
+      const wait = this.getWait(waiter.buckets);
+      if (wait === 0) {
+        waiter.buckets.forEach(bucket => bucket.take());
+        waiter.resolve();
+      } else {
+        next = Math.min(next, wait);
+      }
+    }
+
+    if (next !== Infinity) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.schedule();
+      }, Math.max(1, Math.ceil(next)));
+    }
+  }
+
+  /**
+   * Get the buckets a request takes tokens from
+   * @param method - HTTP method
+   * @param endpoint - API path, with or without a query string
+   */
+  private getBuckets(method: string, endpoint: string): Bucket[] {
+    const path = endpoint.split('?')[0];
+    const upper = method.toUpperCase();
+    const match = this.endpoints.find(item =>
+      (!item.method || item.method === upper) && (path === item.path || path.startsWith(`${item.path}/`))
+    );
+    return match ? [this.global, match.bucket] : [this.global];
+  }
+
+  /**
+   * Get the bucket a 429 on this request is attributed to
+   * @param method - HTTP method
+   * @param endpoint - API path
+   */
+  private getLimitedBucket(method: string, endpoint: string): Bucket {
+    const buckets = this.getBuckets(method, endpoint);
+    return buckets[buckets.length - 1];
+  }
+
+  /**
+   * Time until every bucket has a token, in ms
+   * @param buckets - Buckets to check
+   */
+  private getWait(buckets: Bucket[]): number {
+    const now = Date.now();
+    return Math.max(...buckets.map(bucket => bucket.waitTime(now)));
+  }
+}
+
+/**
+ * Create a bucket from its options
+ * @param options - Rate and burst size
+ */
+function createBucket(options: BucketOptions): Bucket {
+  return new Bucket(options.requestsPerSecond, Math.max(1, options.burst ?? options.requestsPerSecond));
+}
+
+/**
+ * Resolve the client rate limiting options into a limiter
+ * @param options - Client options
+ * @returns Limiter, or undefined when rate limiting is disabled
+ */
+export function createRateLimiter(options: {
+  enableRateLimit?: boolean;
+  maxRequestsPerSecond?: number;
+  rateLimit?: TokenBucketLimiter | TokenBucketOptions;
+}): TokenBucketLimiter | undefined {
+  if (options.enableRateLimit === false) {
+    return undefined;
+  }
+  if (options.rateLimit instanceof TokenBucketLimiter) {
+    return options.rateLimit;
+  }
+
+  return new TokenBucketLimiter({
+    ...options.rateLimit,
+    requestsPerSecond: options.rateLimit?.requestsPerSecond ?? options.maxRequestsPerSecond
+  });
+}
@@ -0,0 +1,264 @@
+/**
+ * Retry policy utilities for Metigan
+ */
+
+import type { HttpMethod, HttpError } from './http';
+import { AbortError } from '../lib/errors';
+
+/**
+ * Backoff strategy between attempts
+ * A function receives the zero-based retry number and returns the delay in ms.
+ */
+export type BackoffStrategy = 'exponential' | 'linear' | 'constant' | ((retry: number) => number);
+
+/**
+ * Retry settings that can be overridden per HTTP method
+ */
+export interface RetryRules {
+  /** Total number of attempts, including the first one */
+  maxAttempts?: number;
+  /** Backoff strategy (default: exponential) */
+  backoff?: BackoffStrategy;
+  /** Base delay between attempts in ms */
+  baseDelay?: number;
+  /**
+   * Upper bound for a single delay in ms (default: 30000)
+   * A longer Retry-After is not shortened: the request fails with a RateLimitError instead.
+   */
+  maxDelay?: number;
+  /** Randomize delays to avoid synchronized retries (default: true) */
+  jitter?: boolean;
+  /** HTTP statuses that are retried (default: 408, 429, 500, 502, 503, 504) */
+  retryableStatuses?: number[];
+  /** Stop retrying once this much time (ms) has elapsed since the first attempt */
+  maxElapsedTime?: number;
+  /** Retry network errors and timeouts (default: true) */
+  retryNetworkErrors?: boolean;
+}
+
+/**
+ * Retry policy for API requests
+ */
+export interface RetryPolicy extends RetryRules {
+  /** Overrides applied to specific HTTP methods */
+  methods?: Partial<Record<HttpMethod, RetryRules>>;
+}
+
+/**
+ * Resolved retry rules for a single request
+ */
+export type ResolvedRetryRules = Required<Omit<RetryRules, 'maxElapsedTime'>> & { maxElapsedTime?: number };
+
+/**
+ * Default statuses considered transient
+ */
+export const DEFAULT_RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Methods that must carry an idempotency key to be retried
+ */
+export const NON_IDEMPOTENT_METHODS: HttpMethod[] = ['POST', 'PATCH'];
+
+/**
+ * Statuses whose Retry-After header is honored
+ */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/**
+ * Merge a policy with its per-method overrides
+ * @param policy - Retry policy
+ * @param method - HTTP method of the request
+ * @param defaults - Defaults taken from retryCount/retryDelay
+ */
+export function resolveRetryRules(
+  policy: RetryPolicy,
+  method: HttpMethod,
+  defaults: { maxAttempts: number; baseDelay: number }
+): ResolvedRetryRules {
+  const rules: RetryRules = { ...policy, ...policy.methods?.[method] };
+
+  return {
+    maxAttempts: Math.max(1, rules.maxAttempts ?? defaults.maxAttempts),
+    backoff: rules.backoff ?? 'exponential',
+    baseDelay: rules.baseDelay ?? defaults.baseDelay,
+    maxDelay: rules.maxDelay ?? 30000,
+    jitter: rules.jitter ?? true,
+    retryableStatuses: rules.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES,
+    maxElapsedTime: rules.maxElapsedTime,
+    retryNetworkErrors: rules.retryNetworkErrors ?? true
+  };
+}
+
+/**
+ * Whether a failed attempt may be retried
+ * Non-idempotent methods are only retried when an idempotency key is attached,
+ * otherwise a retry could duplicate the operation on the server.
+ * @param rules - Resolved retry rules
+ * @param method - HTTP method
+ * @param headers - Request headers
+ * @param error - Error raised by the adapter
+ */
+export function isRetryable(
+  rules: ResolvedRetryRules,
+  method: HttpMethod,
+  headers: Record<string, string>,
+  error: HttpError
+): boolean {
+  if (NON_IDEMPOTENT_METHODS.includes(method) && !hasIdempotencyKey(headers)) {
+    return false;
+  }
+
+  if (!error.status) {
+    return rules.retryNetworkErrors;
+  }
+
+  return rules.retryableStatuses.includes(error.status);
+}
+
+/**
+ * Delay requested by the Retry-After header of a 429/503 response
+ * @param error - Error raised by the adapter
+ * @returns Delay in ms, or undefined when the response sets none
+ */
+export function getRetryAfterDelay(error: HttpError): number | undefined {
+  if (!RETRY_AFTER_STATUSES.includes(error.status)) {
+    return undefined;
+  }
+  const retryAfter = parseRetryAfter(error.headers?.['retry-after']);
+  return retryAfter === undefined ? undefined : retryAfter * 1000;
+}
+
+/**
+ * Compute the delay before the next attempt
+ * Retry-After on 429/503 responses takes precedence over the backoff strategy
+ * and is returned as is, so the caller can give up when it exceeds `maxDelay`;
+ * backoff delays are capped at `maxDelay`.
+ * @param rules - Resolved retry rules
+ * @param retry - Zero-based retry number
+ * @param error - Error raised by the adapter
+ * @returns Delay in ms
+ */
+export function getRetryDelay(rules: ResolvedRetryRules, retry: number, error: HttpError): number {
+  const retryAfter = getRetryAfterDelay(error);
+  if (retryAfter !== undefined) {
+    return retryAfter;
+  }
+
+  let delay: number;
+  if (typeof rules.backoff === 'function') {
+    delay = rules.backoff(retry);
+  } else if (rules.backoff === 'linear') {
+    delay = rules.baseDelay * (retry + 1);
+  } else if (rules.backoff === 'constant') {
+    delay = rules.baseDelay;
+  } else {
+    delay = rules.baseDelay * Math.pow(2, retry);
+  }
+
+  if (rules.jitter) {
+    delay = delay * (0.5 + Math.random() * 0.5);
+  }
+
+  return Math.min(Math.max(0, delay), rules.maxDelay);
+}
+
+/**
+ * Check for an Idempotency-Key header (case-insensitive)
+ * @param headers - Request headers
+ */
+export function hasIdempotencyKey(headers: Record<string, string>): boolean {
+  return Object.keys(headers).some(name => name.toLowerCase() === 'idempotency-key' && !!headers[name]);
+}
+
+/**
+ * Generate a random idempotency key
+ * Uses crypto.randomUUID when the runtime provides it.
+ */
+export function generateIdempotencyKey(): string {
+  const cryptoApi: any = typeof globalThis !== 'undefined' ? (globalThis as any).crypto : undefined;
+  if (cryptoApi && typeof cryptoApi.randomUUID === 'function') {
+    return cryptoApi.randomUUID();
+  }
+
+  // RFC 4122 version 4 layout from Math.random as a fallback
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.random() * 16 | 0;
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+}
+
+/**
+ * Wait for the given delay, rejecting early when the signal is aborted
+ * @param ms - Delay in ms
+ * @param signal - Optional AbortSignal cancelling the wait
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Wait for a promise shared with other callers, rejecting early when this caller's signal is aborted
+ * The shared work keeps running for the other callers.
+ * @param promise - Shared promise
+ * @param signal - Optional AbortSignal cancelling this caller's wait
+ */
+export function raceSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(new AbortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Parse a Retry-After header into seconds
+ * @param value - Header value (delay in seconds or HTTP date)
+ */
+export function parseRetryAfter(value?: string): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  return undefined;
+}
@@ -0,0 +1,619 @@
+/**
+ * HTML sanitizer for Metigan
+ * Tokenizes email HTML and keeps only allowlisted tags, attributes, URL schemes
+ * and CSS properties
+ */
+
+import { RAW_TEXT_ELEMENTS, readTag, findCommentEnd, findRawTextEnd, decodeAttributeEntities, createLineLocator } from './html';
+import type { RawAttribute, TagToken } from './html';
+import { findBlockEnd, splitCss, skipCssString, stripCssComments, unescapeCss } from './css';
+
+/**
+ * HTML sanitizer options
+ * Each list replaces the corresponding default; spread the exported defaults to extend them.
+ * Entries ending in `*` match by prefix (e.g. `data-*`, `mso-*`).
+ */
+export interface HtmlSanitizerOptions {
+  /** Tags kept in the output (default: DEFAULT_ALLOWED_TAGS) */
+  allowedTags?: string[];
+  /** Attributes kept per tag; `*` applies to every tag (default: DEFAULT_ALLOWED_ATTRIBUTES) */
+  allowedAttributes?: Record<string, string[]>;
+  /** URL schemes allowed in links, images and CSS url() (default: DEFAULT_ALLOWED_SCHEMES) */
+  allowedSchemes?: string[];
+  /** CSS properties kept in style attributes and <style> blocks (default: DEFAULT_ALLOWED_CSS_PROPERTIES) */
+  allowedCssProperties?: string[];
+  /** Keep base64 raster images in data: URIs (default: true) */
+  allowDataImages?: boolean;
+  /** Keep Outlook conditional comments (<!--[if mso]>), sanitizing their content (default: true) */
+  allowConditionalComments?: boolean;
+}
+
+/**
+ * Tags commonly used in email HTML
+ */
+export const DEFAULT_ALLOWED_TAGS = [
+  'a', 'abbr', 'address', 'article', 'b', 'bdi', 'bdo', 'big', 'blockquote', 'body', 'br',
+  'caption', 'center', 'cite', 'code', 'col', 'colgroup', 'dd', 'del', 'div', 'dl', 'dt',
+  'em', 'figcaption', 'figure', 'font', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'head', 'header', 'hr', 'html', 'i', 'img', 'ins', 'kbd', 'li', 'main', 'mark', 'meta',
+  'ol', 'p', 'pre', 'q', 's', 'samp', 'section', 'small', 'span', 'strike', 'strong',
+  'style', 'sub', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'time', 'title',
+  'tr', 'tt', 'u', 'ul', 'var', 'wbr'
+];
+
+/**
+ * Attributes commonly used in email HTML, per tag
+ */
+export const DEFAULT_ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  '*': [
+    'align', 'bgcolor', 'border', 'class', 'dir', 'height', 'id', 'lang', 'role',
+    'style', 'title', 'valign', 'width', 'aria-*', 'data-*'
+  ],
+  a: ['href', 'name', 'target', 'rel'],
+  blockquote: ['cite'],
+  body: ['background', 'text', 'link', 'vlink', 'alink', 'leftmargin', 'topmargin', 'marginwidth', 'marginheight'],
+  col: ['span'],
+  colgroup: ['span'],
+  del: ['cite', 'datetime'],
+  font: ['color', 'face', 'size'],
+  hr: ['noshade', 'size'],
+  html: ['xmlns', 'xmlns:*'],
+  img: ['src', 'srcset', 'sizes', 'alt', 'hspace', 'vspace'],
+  ins: ['cite', 'datetime'],
+  li: ['type', 'value'],
+  meta: ['charset', 'content', 'http-equiv', 'name'],
+  ol: ['reversed', 'start', 'type'],
+  q: ['cite'],
+  style: ['media', 'type'],
+  table: ['background', 'cellpadding', 'cellspacing', 'frame', 'rules', 'summary'],
+  td: ['abbr', 'background', 'colspan', 'headers', 'nowrap', 'rowspan', 'scope'],
+  th: ['abbr', 'background', 'colspan', 'headers', 'nowrap', 'rowspan', 'scope'],
+  time: ['datetime'],
+  tr: ['background'],
+  ul: ['type']
+};
+
+/**
+ * URL schemes allowed by default (relative URLs are always allowed)
+ */
+export const DEFAULT_ALLOWED_SCHEMES = ['http', 'https', 'mailto', 'tel', 'cid'];
+
+/**
+ * CSS properties commonly used in email HTML
+ */
+export const DEFAULT_ALLOWED_CSS_PROPERTIES = [
+  'background', 'background-*', 'border', 'border-*', 'box-shadow', 'box-sizing', 'caption-side',
+  'clear', 'color', 'direction', 'display', 'empty-cells', 'float', 'font', 'font-*', 'height',
+  'letter-spacing', 'line-height', 'list-style', 'list-style-*', 'margin', 'margin-*',
+  'max-height', 'max-width', 'min-height', 'min-width', 'mso-*', 'object-fit', 'opacity',
+  'outline', 'outline-*', 'overflow', 'overflow-x', 'overflow-y', 'overflow-wrap', 'padding',
+  'padding-*', 'src', 'table-layout', 'text-align', 'text-decoration', 'text-decoration-*',
+  'text-indent', 'text-shadow', 'text-size-adjust', 'text-transform', 'unicode-range',
+  'vertical-align', 'visibility', 'white-space', 'width', 'word-break', 'word-spacing',
+  'word-wrap', '-webkit-text-size-adjust', '-ms-text-size-adjust', '-webkit-font-smoothing',
+  '-moz-osx-font-smoothing'
+];
+
+/**
+ * Elements removed together with their content when not allowlisted
+ */
+const DROPPED_ELEMENTS = ['object', 'applet', 'embed', 'template', 'frameset', 'frame', 'select', 'svg', 'math'];
+
+/**
+ * Attributes holding a URL
+ */
+const URL_ATTRIBUTES = ['href', 'src', 'cite', 'background', 'poster', 'action', 'formaction', 'longdesc', 'xlink:href'];
+
+/**
+ * URL attributes that may hold a data: image
+ */
+const IMAGE_ATTRIBUTES = ['src', 'srcset', 'background', 'poster'];
+
+/**
+ * http-equiv values that cannot redirect or set cookies
+ */
+const SAFE_HTTP_EQUIV = ['content-type', 'x-ua-compatible'];
+
+/**
+ * At-rules kept in <style> blocks; group rules contain nested rules
+ */
+const GROUP_AT_RULES = ['media', 'supports', 'keyframes', '-webkit-keyframes'];
+const DECLARATION_AT_RULES = ['font-face', 'page'];
+
+/**
+ * Base64 raster images allowed as data: URIs
+ */
+const DATA_IMAGE_PATTERN = /^data:image\/(?:png|jpe?g|gif|webp|bmp|avif);base64,[a-z0-9+/]*=*$/;
+
+/**
+ * Why the sanitizer removed something
+ */
+export type HtmlRemovalReason = 'not-allowed' | 'event-handler' | 'unsafe-url' | 'unsafe-value' | 'malformed';
+
+/**
+ * Element, attribute or CSS declaration removed by the sanitizer
+ */
+export interface HtmlRemoval {
+  type: 'element' | 'attribute' | 'css';
+  /** Tag, attribute or CSS property (or at-rule) name */
+  name: string;
+  /** Element the attribute or CSS declaration belongs to */
+  tag?: string;
+  reason: HtmlRemovalReason;
+  /** Whether the element's content was removed too (elements only) */
+  contentRemoved?: boolean;
+  /** Zero-based offset of the tag or attribute in the input */
+  offset: number;
+  /** One-based line */
+  line: number;
+  /** One-based column */
+  column: number;
+}
+
+/**
+ * Result of analyzeHtml()
+ */
+export interface HtmlAnalysis {
+  /** Sanitized HTML */
+  html: string;
+  /** Everything removed, in document order */
+  removals: HtmlRemoval[];
+}
+
+type PendingRemoval = Omit<HtmlRemoval, 'line' | 'column'>;
+
+interface SanitizerConfig {
+  tags: string[];
+  attributes: Record<string, string[]>;
+  schemes: string[];
+  cssProperties: string[];
+  allowDataImages: boolean;
+  allowConditionalComments: boolean;
+  /** Collected removals (analyzeHtml only) */
+  removals?: PendingRemoval[];
+}
+
+/**
+ * Called for each CSS declaration or at-rule removed
+ */
+type CssRemovalHandler = (name: string, reason: HtmlRemovalReason) => void;
+
+/**
+ * Sanitize email HTML using an allowlist
+ * Disallowed tags are unwrapped (their text is kept), while scripts, frames,
+ * embedded objects, SVG and MathML are removed together with their content.
+ * Event handler attributes are always removed; URLs are checked after entity
+ * decoding, and style attributes and <style> blocks keep only allowlisted
+ * properties with safe values.
+ * @param html - HTML content to sanitize
+ * @param options - Allowlists (defaults are tuned for email)
+ * @returns Sanitized HTML
+ */
+export function sanitizeHtml(html: string, options: HtmlSanitizerOptions = {}): string {
+  if (!html || typeof html !== 'string') {
+    return '';
+  }
+
+  return sanitizeFragment(replaceNul(html), resolveConfig(options), 0);
+}
+
+/**
+ * Sanitize HTML and list everything the sanitizer removed
+ * Use it to fail templates in CI that would be altered when sent.
+ * Ordinary comments, doctypes other than `<!DOCTYPE html>` and escaped `<`
+ * characters are not reported.
+ * @param html - HTML content to analyze
+ * @param options - Allowlists (defaults are tuned for email)
+ * @returns Sanitized HTML and removals with their positions
+ */
+export function analyzeHtml(html: string, options: HtmlSanitizerOptions = {}): HtmlAnalysis {
+  if (!html || typeof html !== 'string') {
+    return { html: '', removals: [] };
+  }
+
+  const source = replaceNul(html);
+  const config: SanitizerConfig = { ...resolveConfig(options), removals: [] };
+  const sanitized = sanitizeFragment(source, config, 0);
+
+  const locate = createLineLocator(source);
+  const removals = (config.removals || []).map(removal => ({ ...removal, ...locate(removal.offset) }));
+
+  return { html: sanitized, removals };
+}
+
+/**
+ * Resolve options against the defaults
+ * @param options - Sanitizer options
+ */
+function resolveConfig(options: HtmlSanitizerOptions): SanitizerConfig {
+  return {
+    tags: (options.allowedTags || DEFAULT_ALLOWED_TAGS).map(tag => tag.toLowerCase()),
+    attributes: options.allowedAttributes || DEFAULT_ALLOWED_ATTRIBUTES,
+    schemes: (options.allowedSchemes || DEFAULT_ALLOWED_SCHEMES).map(scheme => scheme.toLowerCase()),
+    cssProperties: options.allowedCssProperties || DEFAULT_ALLOWED_CSS_PROPERTIES,
+    allowDataImages: options.allowDataImages !== false,
+    allowConditionalComments: options.allowConditionalComments !== false
+  };
+}
+
+/**
+ * Replace NUL characters with U+FFFD, as browsers do, keeping offsets intact
+ * @param html - Input HTML
+ */
+function replaceNul(html: string): string {
+  return html.replace(/\0/g, '\ufffd');
+}
+
+/**
+ * Record a removal when analyzing
+ * @param config - Resolved options
+ * @param removal - Removed element, attribute or declaration
+ */
+function record(config: SanitizerConfig, removal: PendingRemoval): void {
+  if (config.removals) {
+    config.removals.push(removal);
+  }
+}
+
+/**
+ * Sanitize an HTML fragment
+ * @param html - HTML without NUL characters
+ * @param config - Resolved options
+ * @param offset - Offset of the fragment in the input (for reported positions)
+ */
+function sanitizeFragment(html: string, config: SanitizerConfig, offset: number): string {
+  let out = '';
+  let pos = 0;
+  // Element dropped together with its content, with nesting depth
+  let skip: { name: string; depth: number } | null = null;
+
+  const appendText = (text: string) => {
+    if (!skip) {
+      out += text.replace(/</g, '&lt;');
+    }
+  };
+
+  while (pos < html.length) {
+    const lt = html.indexOf('<', pos);
+    if (lt === -1) {
+      appendText(html.slice(pos));
+      break;
+    }
+    appendText(html.slice(pos, lt));
+    pos = lt;
+
+    // Comments
+    if (html.startsWith('<!--', pos)) {
+      const end = findCommentEnd(html, pos + 4);
+      if (!skip) {
+        out += sanitizeComment(html.slice(pos, end), config, offset + pos);
+      }
+      pos = end;
+      continue;
+    }
+
+    // Doctype, CDATA, processing instructions and other bogus comments
+    const next = html[pos + 1];
+    if (next === '!' || next === '?' || (next === '/' && !/[a-zA-Z]/.test(html[pos + 2] || ''))) {
+      const close = html.indexOf('>', pos);
+      const end = close === -1 ? html.length : close + 1;
+      const token = html.slice(pos, end);
+      if (!skip && /^<!doctype\s+html\b[^<>]*>$/i.test(token)) {
+        out += token;
+      }
+      pos = end;
+      continue;
+    }
+
+    const tag = readTag(html, pos);
+    if (!tag) {
+      appendText('<');
+      pos++;
+      continue;
+    }
+    const tagOffset = offset + pos;
+    pos = tag.end;
+
+    const name = tag.name;
+    if (skip) {
+      if (name === skip.name && !tag.selfClosing) {
+        skip.depth += tag.closing ? -1 : 1;
+      }
+      if (skip.depth === 0) {
+        skip = null;
+      }
+      continue;
+    }
+    if (tag.unterminated) {
+      record(config, { type: 'element', name, reason: 'malformed', offset: tagOffset });
+      continue;
+    }
+
+    const allowed = config.tags.includes(name);
+    if (tag.closing) {
+      if (allowed) {
+        out += `</${name}>`;
+      }
+      continue;
+    }
+
+    if (RAW_TEXT_ELEMENTS.includes(name)) {
+      const { contentEnd, end } = findRawTextEnd(html, pos, name);
+      const content = html.slice(pos, contentEnd);
+      pos = end;
+      if (allowed && name === 'style') {
+        const css = sanitizeStylesheet(content, config, (property, reason) => {
+          record(config, { type: 'css', name: property, tag: name, reason, offset: tagOffset });
+        });
+        out += `${buildTag(tag, config, offset)}${css}</style>`;
+      } else if (allowed && name === 'title') {
+        out += `${buildTag(tag, config, offset)}${content.replace(/</g, '&lt;')}</title>`;
+      } else {
+        record(config, { type: 'element', name, reason: 'not-allowed', contentRemoved: true, offset: tagOffset });
+      }
+      continue;
+    }
+
+    if (!allowed) {
+      const dropContent = DROPPED_ELEMENTS.includes(name) && !tag.selfClosing;
+      if (dropContent) {
+        skip = { name, depth: 1 };
+      }
+      record(config, { type: 'element', name, reason: 'not-allowed', contentRemoved: dropContent, offset: tagOffset });
+      continue;
+    }
+
+    out += buildTag(tag, config, offset);
+  }
+
+  return out;
+}
+
+/**
+ * Serialize an allowed start tag with its sanitized attributes
+ * @param tag - Start tag
+ * @param config - Resolved options
+ * @param offset - Offset of the fragment in the input
+ */
+function buildTag(tag: TagToken, config: SanitizerConfig, offset: number): string {
+  let attributes = '';
+  for (const attribute of tag.attributes) {
+    const value = sanitizeAttribute(tag.name, attribute, config, offset + attribute.start);
+    if (value !== undefined) {
+      attributes += ` ${attribute.name}="${value}"`;
+    }
+  }
+  return `<${tag.name}${attributes}${tag.selfClosing ? ' /' : ''}>`;
+}
+
+/**
+ * Check an attribute and return its escaped value
+ * @param tagName - Lower-case tag name
+ * @param attribute - Raw attribute
+ * @param config - Resolved options
+ * @param offset - Offset of the attribute in the input
+ * @returns Escaped value, or undefined when the attribute is removed
+ */
+function sanitizeAttribute(tagName: string, attribute: RawAttribute, config: SanitizerConfig, offset: number): string | undefined {
+  const { name, value } = attribute;
+  const remove = (reason: HtmlRemovalReason) => {
+    record(config, { type: 'attribute', name, tag: tagName, reason, offset });
+    return undefined;
+  };
+
+  // Event handlers are never allowed, whatever the configuration
+  if (name.startsWith('on')) {
+    return remove('event-handler');
+  }
+  const allowed = [...(config.attributes['*'] || []), ...(config.attributes[tagName] || [])];
+  if (!/^[a-z_:][a-z0-9_:.-]*$/.test(name) || !allowed.some(pattern => matchesPattern(name, pattern))) {
+    return remove('not-allowed');
+  }
+
+  const decoded = decodeAttributeEntities(value);
+  const allowDataImage = IMAGE_ATTRIBUTES.includes(name);
+
+  if (name === 'style') {
+    const style = sanitizeDeclarations(decoded, config, (property, reason) => {
+      record(config, { type: 'css', name: property, tag: tagName, reason, offset });
+    });
+    return style ? escapeAttribute(style) : undefined;
+  }
+  if (URL_ATTRIBUTES.includes(name) && !isSafeUrl(decoded, config, allowDataImage)) {
+    return remove('unsafe-url');
+  }
+  if (name === 'srcset' && !decoded.split(',').every(candidate => isSafeUrl(candidate.trim().split(/\s+/)[0], config, true))) {
+    return remove('unsafe-url');
+  }
+  if (name === 'http-equiv' && !SAFE_HTTP_EQUIV.includes(decoded.trim().toLowerCase())) {
+    return remove('unsafe-value');
+  }
+
+  // Keep the raw value so unrelated entities are left untouched
+  return value.replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Check a URL against the allowed schemes
+ * Tabs, newlines and control characters are removed first, as browsers do.
+ * @param url - Entity-decoded URL
+ * @param config - Resolved options
+ * @param allowDataImage - Whether a data: raster image is acceptable here
+ */
+function isSafeUrl(url: string, config: SanitizerConfig, allowDataImage: boolean): boolean {
+  const normalized = url.replace(/[\u0000- \u007f-\u009f]/g, '').toLowerCase();
+  const match = normalized.match(/^([a-z][a-z0-9+.-]*):/);
+
+  // Relative URLs, fragments and merge tags
+  if (!match) {
+    return true;
+  }
+  if (match[1] === 'data') {
+    return allowDataImage && config.allowDataImages && DATA_IMAGE_PATTERN.test(normalized);
+  }
+  return config.schemes.includes(match[1]);
+}
+
+/**
+ * Keep only allowlisted declarations with safe values
+ * @param css - Declaration list (style attribute or rule body)
+ * @param config - Resolved options
+ * @param onRemove - Called for each removed declaration
+ * @returns Declarations joined with `; `
+ */
+function sanitizeDeclarations(css: string, config: SanitizerConfig, onRemove: CssRemovalHandler): string {
+  const kept: string[] = [];
+
+  for (const declaration of splitCss(stripCssComments(css), ';')) {
+    if (!declaration.trim()) continue;
+
+    const colon = declaration.indexOf(':');
+    const property = (colon > 0 ? declaration.slice(0, colon) : declaration).trim().toLowerCase();
+    const value = colon > 0 ? declaration.slice(colon + 1).trim() : '';
+    if (!value || !/^-?[a-z][a-z0-9-]*$/.test(property)) {
+      onRemove(property, 'malformed');
+      continue;
+    }
+    if (!config.cssProperties.some(pattern => matchesPattern(property, pattern))) {
+      onRemove(property, 'not-allowed');
+      continue;
+    }
+    if (!isSafeCssValue(value, config)) {
+      onRemove(property, 'unsafe-value');
+      continue;
+    }
+
+    kept.push(declaration.trim());
+  }
+
+  return kept.join('; ');
+}
+
+/**
+ * Check a CSS value for script vectors and unsafe url() targets
+ * @param value - Declaration value
+ * @param config - Resolved options
+ */
+function isSafeCssValue(value: string, config: SanitizerConfig): boolean {
+  const decoded = unescapeCss(value);
+  const compact = decoded.replace(/[\s\u0000-\u001f]/g, '').toLowerCase();
+
+  if (/expression\(|javascript:|vbscript:|livescript:|-moz-binding|behavior|@import|[<>\\]/.test(compact)) {
+    return false;
+  }
+
+  const urlPattern = /url\(\s*(?:"([^"]*)"|'([^']*)'|([^)]*))\s*\)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = urlPattern.exec(decoded)) !== null) {
+    if (!isSafeUrl(match[1] ?? match[2] ?? match[3] ?? '', config, true)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Sanitize the content of a <style> block
+ * Rule bodies keep only allowlisted declarations; @import and unknown
+ * at-rules are removed.
+ * @param css - Stylesheet text
+ * @param config - Resolved options
+ * @param onRemove - Called for each removed declaration or at-rule
+ */
+function sanitizeStylesheet(css: string, config: SanitizerConfig, onRemove: CssRemovalHandler): string {
+  const source = stripCssComments(css).replace(/</g, '');
+  let out = '';
+  let start = 0;
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '"' || char === "'") {
+      i = skipCssString(source, i);
+      continue;
+    }
+
+    if (char === ';') {
+      // Statement at-rules (@import, @namespace...) are dropped, @charset is kept
+      const statement = source.slice(start, i).trim();
+      if (/^@charset\s/i.test(statement)) {
+        out += `${statement};`;
+      } else if (statement) {
+        onRemove(statement.split(/\s/)[0], 'not-allowed');
+      }
+      start = i + 1;
+    } else if (char === '{') {
+      const end = findBlockEnd(source, i);
+      const prelude = source.slice(start, i);
+      const body = source.slice(i + 1, end);
+      const keyword = prelude.trim();
+      const atRule = keyword.startsWith('@') ? unescapeCss(keyword.slice(1)).split(/[\s(]/)[0].toLowerCase() : null;
+
+      if (atRule === null || DECLARATION_AT_RULES.includes(atRule)) {
+        out += `${prelude}{${sanitizeDeclarations(body, config, onRemove)}}`;
+      } else if (GROUP_AT_RULES.includes(atRule)) {
+        out += `${prelude}{${sanitizeStylesheet(body, config, onRemove)}}`;
+      } else {
+        onRemove(`@${atRule}`, 'not-allowed');
+      }
+      i = end + 1;
+      start = i;
+      continue;
+    } else if (char === '}') {
+      start = i + 1;
+    }
+    i++;
+  }
+
+  return out;
+}
+
+/**
+ * Keep a comment only if it is an Outlook conditional comment
+ * The content of `<!--[if mso]>...<![endif]-->` is sanitized like the rest of the document.
+ * @param comment - Full comment text
+ * @param config - Resolved options
+ * @param offset - Offset of the comment in the input
+ */
+function sanitizeComment(comment: string, config: SanitizerConfig, offset: number): string {
+  if (!config.allowConditionalComments) {
+    return '';
+  }
+
+  // Downlevel-revealed markers around content shown to every client
+  if (/^<!--\[if [a-z0-9 !()&|.]+\]><!-->$/i.test(comment) || comment === '<!--<![endif]-->') {
+    return comment;
+  }
+
+  const match = comment.match(/^<!--\[if ([a-z0-9 !()&|.]+)\]>([\s\S]*)<!\[endif\]-->$/i);
+  if (!match) {
+    return '';
+  }
+
+  const content = sanitizeFragment(match[2], config, offset + comment.indexOf(']>') + 2);
+  // Unwrapped tags must not form a new comment terminator
+  return `<!--[if ${match[1]}]>${content.replace(/--(!?)>/g, '--$1&gt;')}<![endif]-->`;
+}
+
+/**
+ * Escape a generated value for a double-quoted attribute
+ * @param value - Attribute value
+ */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Match a name against an allowlist entry (a trailing `*` matches by prefix)
+ * @param name - Lower-case name
+ * @param pattern - Allowlist entry
+ */
+function matchesPattern(name: string, pattern: string): boolean {
+  const normalized = pattern.toLowerCase();
+  return normalized.endsWith('*') ? name.startsWith(normalized.slice(0, -1)) : name === normalized;
+}
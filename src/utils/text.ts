@@ -0,0 +1,342 @@
+/**
+ * Plain-text utilities for Metigan
+ * Converts email HTML into a readable text/plain alternative
+ */
+
+import { RAW_TEXT_ELEMENTS, readTag, findCommentEnd, findRawTextEnd } from './html';
+import type { TagToken } from './html';
+
+/**
+ * HTML-to-text conversion options
+ */
+export interface HtmlToTextOptions {
+  /** Append link targets as `text (url)` (default: true) */
+  includeLinkUrls?: boolean;
+  /** Underline h1 with `=` and h2 with `-` (default: true) */
+  underlineHeadings?: boolean;
+}
+
+/**
+ * Elements whose content never appears in the text version
+ */
+const SKIPPED_ELEMENTS = ['head', 'style', 'script', 'title', 'noscript', 'template'];
+
+/**
+ * Elements rendered as separate paragraphs
+ */
+const PARAGRAPH_ELEMENTS = ['p', 'blockquote', 'pre', 'center', 'section', 'article', 'header', 'footer'];
+
+/**
+ * Elements rendered on their own line
+ */
+const LINE_ELEMENTS = ['div', 'address', 'dt', 'dd', 'caption'];
+
+/**
+ * Named entities decoded in text runs
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  middot: '·',
+  euro: '€',
+  zwnj: '',
+  zwj: ''
+};
+
+interface ListState {
+  ordered: boolean;
+  index: number;
+}
+
+interface LinkState {
+  href?: string;
+  start: number;
+}
+
+interface RowState {
+  start: number;
+  cells: string[];
+  cellStart?: number;
+}
+
+/**
+ * Convert email HTML into plain text
+ * Links become `text (url)`, list items are bulleted or numbered, headings are
+ * separated (and underlined for h1/h2) and table rows are rendered on one line
+ * with cells separated by ` | `. Layout tables whose cells contain block
+ * content are flattened into paragraphs instead.
+ * @param html - HTML to convert
+ * @param options - Conversion options
+ * @returns Plain-text version
+ */
+export function htmlToText(html: string, options: HtmlToTextOptions = {}): string {
+  if (!html || typeof html !== 'string') {
+    return '';
+  }
+
+  const includeLinkUrls = options.includeLinkUrls !== false;
+  const underlineHeadings = options.underlineHeadings !== false;
+
+  let out = '';
+  let skipDepth = 0;
+  let preDepth = 0;
+  let headingStart: number | undefined;
+  const lists: ListState[] = [];
+  const links: LinkState[] = [];
+  const rows: RowState[] = [];
+
+  const ensureNewlines = (count: number) => {
+    out = out.replace(/[ \t]+$/, '');
+    if (!out) return;
+    const trailing = out.length - out.replace(/\n+$/, '').length;
+    if (trailing < count) {
+      out += '\n'.repeat(count - trailing);
+    }
+  };
+
+  const appendText = (text: string) => {
+    if (preDepth === 0) {
+      text = text.replace(/\s+/g, ' ');
+      if (!out || /[\s]$/.test(out)) {
+        text = text.replace(/^ /, '');
+      }
+    }
+    out += text;
+  };
+
+  const closeCell = (row: RowState) => {
+    if (row.cellStart === undefined) return;
+    row.cells.push(out.slice(row.cellStart).trim());
+    out = out.slice(0, row.cellStart);
+    row.cellStart = undefined;
+  };
+
+  const closeRow = () => {
+    const row = rows.pop();
+    if (!row) return;
+    closeCell(row);
+    out = out.slice(0, row.start);
+
+    const cells = row.cells.filter(cell => cell.length > 0);
+    if (cells.length === 0) return;
+
+    // Cells holding block content come from layout tables
+    const isLayout = cells.some(cell => cell.includes('\n'));
+    ensureNewlines(isLayout ? 2 : 1);
+    out += cells.join(isLayout ? '\n\n' : ' | ');
+    ensureNewlines(isLayout ? 2 : 1);
+  };
+
+  let pos = 0;
+  while (pos < html.length) {
+    const lt = html.indexOf('<', pos);
+    const textEnd = lt === -1 ? html.length : lt;
+    if (textEnd > pos && skipDepth === 0) {
+      appendText(decodeEntities(html.slice(pos, textEnd)));
+    }
+    if (lt === -1) break;
+    pos = lt;
+
+    // Comments, doctype and processing instructions
+    if (html.startsWith('<!--', pos)) {
+      pos = findCommentEnd(html, pos + 4);
+      continue;
+    }
+    const next = html[pos + 1];
+    if (next === '!' || next === '?' || (next === '/' && !/[a-zA-Z]/.test(html[pos + 2] || ''))) {
+      const close = html.indexOf('>', pos);
+      pos = close === -1 ? html.length : close + 1;
+      continue;
+    }
+
+    const tag = readTag(html, pos);
+    if (!tag) {
+      // Stray '<'
+      if (skipDepth === 0) {
+        appendText('<');
+      }
+      pos++;
+      continue;
+    }
+    if (tag.unterminated) break;
+    pos = tag.end;
+
+    const name = tag.name;
+    const isClosing = tag.closing;
+
+    // Raw text content is never parsed as markup
+    if (!isClosing && RAW_TEXT_ELEMENTS.includes(name)) {
+      const { contentEnd, end } = findRawTextEnd(html, pos, name);
+      if (!SKIPPED_ELEMENTS.includes(name) && skipDepth === 0) {
+        appendText(decodeEntities(html.slice(pos, contentEnd)));
+      }
+      pos = end;
+      continue;
+    }
+
+    if (SKIPPED_ELEMENTS.includes(name)) {
+      skipDepth = Math.max(0, skipDepth + (isClosing ? -1 : 1));
+      continue;
+    }
+    if (skipDepth > 0) {
+      continue;
+    }
+
+    if (name === 'br') {
+      out = out.replace(/[ \t]+$/, '') + '\n';
+    } else if (name === 'hr') {
+      ensureNewlines(2);
+      out += '---';
+      ensureNewlines(2);
+    } else if (name === 'img') {
+      const alt = getAttribute(tag, 'alt');
+      if (!isClosing && alt && alt.trim()) {
+        appendText(alt.trim());
+      }
+    } else if (name === 'a') {
+      if (!isClosing) {
+        links.push({ href: getAttribute(tag, 'href'), start: out.length });
+      } else {
+        const link = links.pop();
+        if (link) {
+          const text = out.slice(link.start).trim();
+          const url = formatLinkUrl(link.href);
+          if (includeLinkUrls && url && url !== text) {
+            out = text ? `${out.replace(/\s+$/, '')} (${url})` : `${out}${url}`;
+          }
+        }
+      }
+    } else if (/^h[1-6]$/.test(name)) {
+      if (!isClosing) {
+        ensureNewlines(2);
+        headingStart = out.length;
+      } else {
+        if (headingStart !== undefined && underlineHeadings && (name === 'h1' || name === 'h2')) {
+          const heading = out.slice(headingStart).trim();
+          const width = Math.max(...heading.split('\n').map(line => line.length));
+          if (width > 0) {
+            ensureNewlines(1);
+            out += (name === 'h1' ? '=' : '-').repeat(width);
+          }
+        }
+        headingStart = undefined;
+        ensureNewlines(2);
+      }
+    } else if (name === 'ul' || name === 'ol') {
+      if (!isClosing) {
+        ensureNewlines(lists.length > 0 ? 1 : 2);
+        lists.push({ ordered: name === 'ol', index: 0 });
+      } else {
+        lists.pop();
+        ensureNewlines(lists.length > 0 ? 1 : 2);
+      }
+    } else if (name === 'li') {
+      if (!isClosing) {
+        ensureNewlines(1);
+        const list = lists[lists.length - 1];
+        const indent = '  '.repeat(Math.max(0, lists.length - 1));
+        out += indent + (list && list.ordered ? `${++list.index}. ` : '* ');
+      } else {
+        ensureNewlines(1);
+      }
+    } else if (name === 'tr') {
+      if (!isClosing) {
+        if (rows.length > 0 && rows[rows.length - 1].cellStart === undefined) {
+          // Unclosed row at the same level
+          closeRow();
+        }
+        rows.push({ start: out.length, cells: [] });
+      } else {
+        closeRow();
+      }
+    } else if (name === 'td' || name === 'th') {
+      const row = rows[rows.length - 1];
+      if (row) {
+        if (!isClosing) {
+          closeCell(row);
+          row.cellStart = out.length;
+        } else {
+          closeCell(row);
+        }
+      }
+    } else if (name === 'table') {
+      if (isClosing) {
+        const row = rows[rows.length - 1];
+        if (row && row.cellStart === undefined) {
+          closeRow();
+        }
+      }
+      ensureNewlines(1);
+    } else if (name === 'pre') {
+      preDepth = Math.max(0, preDepth + (isClosing ? -1 : 1));
+      ensureNewlines(2);
+    } else if (PARAGRAPH_ELEMENTS.includes(name)) {
+      ensureNewlines(2);
+    } else if (LINE_ELEMENTS.includes(name)) {
+      ensureNewlines(1);
+    }
+  }
+
+  while (rows.length > 0) {
+    closeRow();
+  }
+
+  return out
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Read a decoded attribute value from a tag
+ * @param tag - Start tag
+ * @param name - Attribute name
+ */
+function getAttribute(tag: TagToken, name: string): string | undefined {
+  const attribute = tag.attributes.find(item => item.name === name);
+  return attribute ? decodeEntities(attribute.value) : undefined;
+}
+
+/**
+ * Format a link target for display, dropping anchors and script URLs
+ * @param href - Raw href attribute
+ */
+function formatLinkUrl(href?: string): string | undefined {
+  const url = href?.trim();
+  if (!url || url.startsWith('#') || /^(javascript|data|vbscript):/i.test(url)) {
+    return undefined;
+  }
+  return url.replace(/^mailto:/i, '');
+}
+
+/**
+ * Decode HTML entities in a text run
+ * @param text - Text containing entities
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    const named = NAMED_ENTITIES[code.toLowerCase()];
+    return named !== undefined ? named : entity;
+  });
+}
@@ -0,0 +1,74 @@
+/**
+ * Test helpers shared by the unit and integration suites
+ */
+
+import type { HttpAdapter, HttpRequest, HttpResponse, HttpError } from '../src';
+
+export const API_KEY = 'test-api-key-0123456789';
+
+/**
+ * Reply of the mock adapter (statuses >= 400 and 0 are thrown as HttpError)
+ */
+export interface MockReply {
+  status?: number;
+  headers?: Record<string, string>;
+  data?: any;
+}
+
+/**
+ * Adapter recording every API request except usage logs
+ */
+export interface MockAdapter extends HttpAdapter {
+  requests: HttpRequest[];
+}
+
+/**
+ * Create an adapter answering requests with `reply`
+ * @param reply - Reply for the nth request (default: 200 with an empty object)
+ */
+export function createMockAdapter(
+  reply: (request: HttpRequest, index: number) => MockReply | Promise<MockReply> = () => ({})
+): MockAdapter {
+  const requests: HttpRequest[] = [];
+
+  return {
+    requests,
+    async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+      if (request.url.endsWith('/api/logs')) {
+        return { status: 200, headers: {}, data: {} as T };
+      }
+
+      requests.push(request);
+      const result = await reply(request, requests.length - 1);
+      const status = result.status ?? 200;
+      if (status === 0 || status >= 400) {
+        const error: HttpError = {
+          status,
+          data: result.data ?? {},
+          message: `Request failed with status code ${status}`,
+          headers: result.headers ?? {}
+        };
+        throw error;
+      }
+
+      return { status, headers: result.headers ?? {}, data: (result.data ?? {}) as T };
+    }
+  };
+}
+
+/**
+ * Successful reply to POST /api/email/send/batch
+ * @param request - Batch request
+ */
+export function batchReply(request: HttpRequest): MockReply {
+  return {
+    data: {
+      results: request.data.messages.map((message: any) => ({
+        success: true,
+        successfulEmails: message.recipients.map((recipient: string) => ({ recipient, trackingId: `t-${recipient}` })),
+        failedEmails: []
+      })),
+      emailsRemaining: 100
+    }
+  };
+}
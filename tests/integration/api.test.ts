@@ -0,0 +1,148 @@
+/**
+ * Transport pipeline: headers, error mapping, retries and cancellation
+ */
+
+import {
+  Transport,
+  NotFoundError,
+  AuthenticationError,
+  ServerError,
+  RateLimitError,
+  AbortError
+} from '../../src';
+import { API_KEY, createMockAdapter } from '../helpers';
+
+describe('Transport', () => {
+  it('sends the API key and returns the response data', async () => {
+    const adapter = createMockAdapter(() => ({ data: { id: 'c1' } }));
+    const transport = new Transport({ apiKey: API_KEY, baseUrl: 'https://api.example.com/', adapter });
+
+    const result = await transport.request('GET', '/api/contacts/c1');
+
+    expect(result).toEqual({ id: 'c1' });
+    expect(adapter.requests[0].url).toBe('https://api.example.com/api/contacts/c1');
+    expect(adapter.requests[0].headers['x-api-key']).toBe(API_KEY);
+  });
+
+  it('maps error statuses to error classes with the request ID', async () => {
+    const adapter = createMockAdapter(request => request.url.endsWith('/missing')
+      ? { status: 404, headers: { 'x-request-id': 'req-1' }, data: { message: 'Not found', code: 'not_found' } }
+      : { status: 401 });
+    const transport = new Transport({ apiKey: API_KEY, adapter });
+
+    const error = await transport.request('GET', '/api/missing').catch(e => e);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({ status: 404, code: 'not_found', requestId: 'req-1', message: 'Not found' });
+
+    await expect(transport.request('GET', '/api/other')).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it('retries transient failures and reuses the idempotency key on every attempt', async () => {
+    const adapter = createMockAdapter((_request, index) => index < 2 ? { status: 503 } : { data: { ok: true } });
+    const transport = new Transport({ apiKey: API_KEY, adapter, retryPolicy: { maxAttempts: 3, baseDelay: 1, jitter: false } });
+
+    await expect(transport.request('POST', '/api/contacts', { email: 'a@b.com' })).resolves.toEqual({ ok: true });
+
+    const keys = adapter.requests.map(request => request.headers['Idempotency-Key']);
+    expect(keys).toHaveLength(3);
+    expect(keys[0]).toBeTruthy();
+    expect(new Set(keys).size).toBe(1);
+  });
+
+  it('uses the caller idempotency key', async () => {
+    const adapter = createMockAdapter();
+    const transport = new Transport({ apiKey: API_KEY, adapter });
+
+    await transport.request('POST', '/api/contacts', {}, { idempotencyKey: 'key-1' });
+
+    expect(adapter.requests[0].headers['Idempotency-Key']).toBe('key-1');
+  });
+
+  it('does not retry POST requests without an idempotency key', async () => {
+    const adapter = createMockAdapter(() => ({ status: 503 }));
+    const transport = new Transport({ apiKey: API_KEY, adapter, idempotencyKeys: false, retryPolicy: { baseDelay: 1 } });
+
+    await expect(transport.request('POST', '/api/contacts', {})).rejects.toBeInstanceOf(ServerError);
+    expect(adapter.requests).toHaveLength(1);
+  });
+
+  it('honors Retry-After on 429 responses', async () => {
+    const adapter = createMockAdapter((_request, index) => index === 0
+      ? { status: 429, headers: { 'retry-after': '1' } }
+      : { data: { ok: true } });
+    const transport = new Transport({ apiKey: API_KEY, adapter, retryPolicy: { baseDelay: 1 } });
+
+    const start = Date.now();
+    await transport.request('GET', '/api/contacts');
+
+    expect(adapter.requests).toHaveLength(2);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(950);
+  });
+
+  it('fails with retryAfter instead of retrying early when Retry-After exceeds maxDelay', async () => {
+    const adapter = createMockAdapter((_request, index) => index === 0
+      ? { status: 503, headers: { 'retry-after': '3600' } }
+      : { data: { ok: true } });
+    const transport = new Transport({ apiKey: API_KEY, adapter, retryPolicy: { maxDelay: 50 } });
+
+    const start = Date.now();
+    const error = await transport.request('GET', '/api/contacts').catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({ status: 503, retryAfter: 3600 });
+    expect(adapter.requests).toHaveLength(1);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('fails with retryAfter when Retry-After exceeds the remaining maxElapsedTime', async () => {
+    const adapter = createMockAdapter(() => ({ status: 429, headers: { 'retry-after': '2' } }));
+    const transport = new Transport({ apiKey: API_KEY, adapter, retryPolicy: { maxElapsedTime: 1000 } });
+
+    const error = await transport.request('GET', '/api/contacts').catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({ status: 429, retryAfter: 2 });
+    expect(adapter.requests).toHaveLength(1);
+  });
+
+  it('does not retry when retryCount is 0', async () => {
+    const adapter = createMockAdapter(() => ({ status: 503 }));
+    const transport = new Transport({ apiKey: API_KEY, adapter, retryCount: 0, retryDelay: 1 });
+
+    await expect(transport.request('GET', '/api/contacts')).rejects.toBeInstanceOf(ServerError);
+    expect(adapter.requests).toHaveLength(1);
+  });
+
+  it('stops waiting for the next attempt when aborted during backoff', async () => {
+    const adapter = createMockAdapter(() => ({ status: 503 }));
+    const transport = new Transport({ apiKey: API_KEY, adapter, retryPolicy: { baseDelay: 10000, jitter: false } });
+    const controller = new AbortController();
+
+    const start = Date.now();
+    setTimeout(() => controller.abort(), 20);
+    await expect(transport.request('GET', '/api/contacts', undefined, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(AbortError);
+
+    expect(adapter.requests).toHaveLength(1);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('runs interceptors around each attempt', async () => {
+    const events: string[] = [];
+    const adapter = createMockAdapter((_request, index) => index === 0 ? { status: 500 } : {});
+    const transport = new Transport({
+      apiKey: API_KEY,
+      adapter,
+      retryPolicy: { baseDelay: 1 },
+      interceptors: [{
+        onRequest: context => { events.push(`request ${context.attempt}`); },
+        onRetry: () => { events.push('retry'); },
+        onResponse: context => { events.push(`response ${context.status}`); }
+      }]
+    });
+
+    await transport.request('GET', '/api/contacts');
+
+    expect(events).toEqual(['request 1', 'retry', 'request 2', 'response 200']);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Request cancellation while waiting between attempts or for the rate limiter
+ */
+
+import { Transport, TokenBucketLimiter, AbortError } from '../../src';
+import { API_KEY, createMockAdapter } from '../helpers';
+
+/**
+ * Abort a controller after `ms` and return its signal
+ */
+function abortAfter(ms: number): AbortSignal {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), ms);
+  return controller.signal;
+}
+
+describe('AbortSignal', () => {
+  it('fails before the first attempt when already aborted', async () => {
+    const adapter = createMockAdapter();
+    const transport = new Transport({ apiKey: API_KEY, adapter });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(transport.request('GET', '/api/contacts', undefined, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(AbortError);
+    expect(adapter.requests).toHaveLength(0);
+  });
+
+  describe('during backoff', () => {
+    it('rejects without waiting out the delay or making another attempt', async () => {
+      const adapter = createMockAdapter(() => ({ status: 503 }));
+      const onRetry = jest.fn();
+      const onError = jest.fn();
+      const transport = new Transport({
+        apiKey: API_KEY,
+        adapter,
+        retryPolicy: { maxAttempts: 5, baseDelay: 10000, jitter: false },
+        interceptors: [{ onRetry, onError }]
+      });
+
+      const start = Date.now();
+      const error = await transport.request('GET', '/api/contacts', undefined, { signal: abortAfter(30) }).catch(e => e);
+
+      expect(error).toBeInstanceOf(AbortError);
+      expect(Date.now() - start).toBeLessThan(1000);
+      expect(adapter.requests).toHaveLength(1);
+      expect(onRetry).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ error }));
+
+      // No attempt is scheduled after the abort
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(adapter.requests).toHaveLength(1);
+    });
+
+    it('rejects while waiting for Retry-After', async () => {
+      const adapter = createMockAdapter(() => ({ status: 429, headers: { 'retry-after': '10' } }));
+      const transport = new Transport({ apiKey: API_KEY, adapter });
+
+      const start = Date.now();
+      await expect(transport.request('GET', '/api/contacts', undefined, { signal: abortAfter(30) }))
+        .rejects.toBeInstanceOf(AbortError);
+
+      expect(Date.now() - start).toBeLessThan(1000);
+      expect(adapter.requests).toHaveLength(1);
+    });
+  });
+
+  describe('during the rate limiter wait', () => {
+    it('rejects without waiting for a token or sending the request', async () => {
+      const adapter = createMockAdapter();
+      const limiter = new TokenBucketLimiter({ requestsPerSecond: 0.1, burst: 1 });
+      const transport = new Transport({ apiKey: API_KEY, adapter, rateLimit: limiter });
+
+      await transport.request('GET', '/api/contacts');
+
+      const start = Date.now();
+      await expect(transport.request('GET', '/api/contacts', undefined, { signal: abortAfter(30) }))
+        .rejects.toBeInstanceOf(AbortError);
+
+      expect(Date.now() - start).toBeLessThan(1000);
+      expect(adapter.requests).toHaveLength(1);
+      expect(limiter.pending).toBe(0);
+      limiter.reset();
+    });
+
+    it('leaves the other queued requests waiting', async () => {
+      const adapter = createMockAdapter();
+      const limiter = new TokenBucketLimiter({ requestsPerSecond: 20, burst: 1 });
+      const transport = new Transport({ apiKey: API_KEY, adapter, rateLimit: limiter });
+
+      await transport.request('GET', '/api/contacts');
+      const aborted = transport.request('GET', '/api/contacts/1', undefined, { signal: abortAfter(10) });
+      const queued = transport.request('GET', '/api/contacts/2');
+
+      await expect(aborted).rejects.toBeInstanceOf(AbortError);
+      await expect(queued).resolves.toEqual({});
+      expect(adapter.requests.map(request => request.url)).toEqual([
+        expect.stringMatching(/\/api\/contacts$/),
+        expect.stringMatching(/\/api\/contacts\/2$/)
+      ]);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Per-client base URL
+ */
+
+import { Metigan, MetiganContacts, MetiganForms, MetiganTemplates, Transport } from '../../src';
+import { API_KEY, createMockAdapter } from '../helpers';
+
+describe('baseUrl', () => {
+  it('defaults to the Metigan API', async () => {
+    const adapter = createMockAdapter();
+    const transport = new Transport({ apiKey: API_KEY, adapter });
+
+    await transport.request('GET', '/api/contacts');
+
+    expect(transport.baseUrl).toBe('https://api.metigan.com');
+    expect(adapter.requests[0].url).toBe('https://api.metigan.com/api/contacts');
+  });
+
+  it('lets two clients in one process talk to different environments', async () => {
+    const staging = createMockAdapter();
+    const production = createMockAdapter();
+    const options = { apiKey: API_KEY, disableLogs: true, enableRateLimit: false };
+    const stagingClient = new Metigan({ ...options, baseUrl: 'https://staging.example.com/', adapter: staging });
+    const productionClient = new Metigan({ ...options, baseUrl: 'https://eu.example.com', adapter: production });
+
+    await stagingClient.contacts.get('c1');
+    await stagingClient.templates.get('t1');
+    await productionClient.contacts.get('c1');
+
+    expect(staging.requests.map(request => request.url)).toEqual([
+      'https://staging.example.com/api/contacts/c1',
+      'https://staging.example.com/api/templates/t1'
+    ]);
+    expect(production.requests.map(request => request.url)).toEqual(['https://eu.example.com/api/contacts/c1']);
+  });
+
+  it('is honored by standalone modules', async () => {
+    const adapter = createMockAdapter();
+    const baseUrl = 'https://eu.example.com/';
+
+    await new MetiganContacts({ apiKey: API_KEY, baseUrl, adapter }).get('c1');
+    await new MetiganForms({ apiKey: API_KEY, baseUrl, adapter }).getForm('f1');
+    await new MetiganTemplates({ apiKey: API_KEY, baseUrl, adapter }).get('t1');
+
+    expect(adapter.requests.map(request => request.url)).toEqual([
+      'https://eu.example.com/api/contacts/c1',
+      'https://eu.example.com/api/forms/f1',
+      'https://eu.example.com/api/templates/t1'
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Sending domain module
+ */
+
+import { MetiganDomains, AbortError, ValidationError, DomainNotVerifiedError } from '../../src';
+import { API_KEY, createMockAdapter } from '../helpers';
+
+const domainPage = {
+  data: {
+    domains: [
+      { id: 'd1', name: 'example.com', status: 'verified', records: [], createdAt: '2026-01-01T00:00:00Z' },
+      { id: 'd2', name: 'pending.example', status: 'pending', records: [], createdAt: '2026-01-01T00:00:00Z' }
+    ],
+    pagination: { pages: 1 }
+  }
+};
+
+describe('MetiganDomains', () => {
+  it('validates domain names before creating them', async () => {
+    const adapter = createMockAdapter(() => ({ data: { id: 'd1', name: 'example.com', status: 'pending', records: [] } }));
+    const domains = new MetiganDomains({ apiKey: API_KEY, adapter });
+
+    await domains.create({ name: ' Example.COM ' });
+
+    expect(adapter.requests[0].data).toMatchObject({ name: 'example.com' });
+    await expect(domains.create({ name: 'not a domain' })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('checks the sender domain against the cached statuses', async () => {
+    const adapter = createMockAdapter(() => domainPage);
+    const domains = new MetiganDomains({ apiKey: API_KEY, adapter });
+
+    await expect(domains.assertVerified('Shop <shop@Example.com>')).resolves.toBeUndefined();
+    await expect(domains.assertVerified('a@pending.example')).rejects.toMatchObject({ domain: 'pending.example', status: 'pending' });
+    await expect(domains.assertVerified('a@other.example')).rejects.toBeInstanceOf(DomainNotVerifiedError);
+    expect(adapter.requests).toHaveLength(1);
+  });
+
+  it('keeps loading for other callers when one caller aborts', async () => {
+    const adapter = createMockAdapter(() => new Promise(resolve => setTimeout(() => resolve(domainPage), 30)));
+    const domains = new MetiganDomains({ apiKey: API_KEY, adapter });
+    const controller = new AbortController();
+
+    const aborted = domains.assertVerified('a@example.com', { signal: controller.signal });
+    const other = domains.assertVerified('b@example.com');
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+    await expect(other).resolves.toBeUndefined();
+    expect(adapter.requests).toHaveLength(1);
+    expect(adapter.requests[0].signal).toBeUndefined();
+  });
+});
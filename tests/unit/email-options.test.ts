@@ -0,0 +1,76 @@
+/**
+ * Custom headers, tags, metadata and tracking IDs on outgoing emails
+ */
+
+import { Metigan, ValidationError } from '../../src';
+import { API_KEY, createMockAdapter } from '../helpers';
+import type { MockAdapter } from '../helpers';
+
+const sentReply = { success: true, message: 'Sent', successfulEmails: [], failedEmails: [], recipientCount: 1, emailsRemaining: 10 };
+
+const message = {
+  from: 'shop@example.com',
+  recipients: ['ann@example.com'],
+  subject: 'Your order',
+  content: '<p>Thanks for your order</p>'
+};
+
+function createClient(adapter: MockAdapter): Metigan {
+  return new Metigan({ apiKey: API_KEY, adapter, disableLogs: true, enableRateLimit: false });
+}
+
+describe('email headers, tags and metadata', () => {
+  it('are forwarded in the payload with the tracking ID', async () => {
+    const adapter = createMockAdapter(() => ({ data: sentReply }));
+    const client = createClient(adapter);
+
+    await client.email.sendEmail({
+      ...message,
+      headers: { 'List-Unsubscribe': '<https://example.com/unsubscribe>', 'X-Entity-Ref-ID': 'order-42' },
+      tags: ['orders', 'transactional'],
+      metadata: { orderId: 'order-42', total: 19.9, gift: false },
+      trackingId: 'order-42-confirmation'
+    });
+
+    expect(adapter.requests[0].data).toMatchObject({
+      headers: { 'List-Unsubscribe': '<https://example.com/unsubscribe>', 'X-Entity-Ref-ID': 'order-42' },
+      tags: ['orders', 'transactional'],
+      metadata: { orderId: 'order-42', total: 19.9, gift: false },
+      trackingId: 'order-42-confirmation'
+    });
+  });
+
+  it('are left out of the payload when empty', async () => {
+    const adapter = createMockAdapter(() => ({ data: sentReply }));
+    const client = createClient(adapter);
+
+    await client.email.sendEmail({ ...message, headers: {}, tags: [], metadata: {} });
+
+    const payload = adapter.requests[0].data;
+    expect(payload).not.toHaveProperty('headers');
+    expect(payload).not.toHaveProperty('tags');
+    expect(payload).not.toHaveProperty('metadata');
+    expect(payload).not.toHaveProperty('trackingId');
+  });
+
+  it.each([
+    ['a header value with a line break', { headers: { 'X-Ref': 'a\r\nBcc: eve@example.com' } }, 'Invalid value for header X-Ref'],
+    ['a header name with a colon', { headers: { 'X-Ref: 1': 'a' } }, 'Invalid or reserved header name: X-Ref: 1'],
+    ['a reserved header', { headers: { Bcc: 'eve@example.com' } }, 'Invalid or reserved header name: Bcc'],
+    ['an empty tag', { tags: ['orders', ' '] }, 'Invalid tag:  '],
+    ['a tag with a line break', { tags: ['a\nb'] }, 'Invalid tag'],
+    ['a metadata value that is not a scalar', { metadata: { order: { id: 1 } as any } }, 'Invalid metadata value for order'],
+    ['a metadata value with a line break', { metadata: { note: 'a\nb' } }, 'Invalid metadata value for note'],
+    ['an empty tracking ID', { trackingId: '' }, 'Invalid tracking ID'],
+    ['a tracking ID with a line break', { trackingId: 'ref\n1' }, 'Invalid tracking ID']
+  ])('reject %s before sending', async (_case, options, expected) => {
+    const adapter = createMockAdapter(() => ({ data: sentReply }));
+    const client = createClient(adapter);
+
+    const error = await client.email.sendEmail({ ...message, ...options }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toContain(expected);
+    expect(adapter.requests).toHaveLength(0);
+  });
+});
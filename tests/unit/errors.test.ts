@@ -0,0 +1,118 @@
+/**
+ * Error hierarchy and mapping of failed responses to typed errors
+ */
+
+import {
+  Metigan,
+  Transport,
+  MetiganError,
+  ApiError,
+  AuthenticationError,
+  PermissionError,
+  NotFoundError,
+  ConflictError,
+  RateLimitError,
+  ServerError,
+  NetworkError,
+  TimeoutError
+} from '../../src';
+import type { HttpAdapter, HttpError } from '../../src';
+import { API_KEY, createMockAdapter } from '../helpers';
+
+/**
+ * Fail the first request with `status` and return the resulting error
+ */
+async function failWith(status: number, headers: Record<string, string> = {}, data: any = {}): Promise<any> {
+  const adapter = createMockAdapter(() => ({ status, headers, data }));
+  const transport = new Transport({ apiKey: API_KEY, adapter, retryCount: 0 });
+  return transport.request('GET', '/api/contacts').catch(e => e);
+}
+
+describe('errors', () => {
+  it.each([
+    [401, AuthenticationError],
+    [403, PermissionError],
+    [404, NotFoundError],
+    [409, ConflictError],
+    [429, RateLimitError],
+    [500, ServerError],
+    [503, ServerError],
+    [422, ApiError]
+  ])('maps status %i to its error class', async (status, ErrorClass) => {
+    const error = await failWith(status);
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toBeInstanceOf(MetiganError);
+    expect(error.status).toBe(status);
+    expect(error.name).toBe(ErrorClass.name);
+  });
+
+  it('carries the server code, body, request ID and message', async () => {
+    const body = { message: 'Contact already exists', code: 'contact_exists' };
+    const error = await failWith(409, { 'x-request-id': 'req-42' }, body);
+
+    expect(error).toMatchObject({
+      message: 'Contact already exists',
+      code: 'contact_exists',
+      body,
+      requestId: 'req-42',
+      isRetryable: false
+    });
+  });
+
+  it('reads retryAfter from the Retry-After header', async () => {
+    const error = await failWith(429, { 'retry-after': '12' });
+
+    expect(error).toMatchObject({ retryAfter: 12, isRetryable: true });
+  });
+
+  it('flags retryable statuses', async () => {
+    expect((await failWith(408)).isRetryable).toBe(true);
+    expect((await failWith(502)).isRetryable).toBe(true);
+    expect((await failWith(400)).isRetryable).toBe(false);
+    expect((await failWith(404)).isRetryable).toBe(false);
+  });
+
+  it('maps missing responses to NetworkError and timeouts to TimeoutError', async () => {
+    const failures: HttpError[] = [
+      { status: 0, data: {}, message: 'socket hang up' },
+      { status: 0, data: {}, message: 'timeout of 10ms exceeded', timedOut: true }
+    ];
+    const adapter: HttpAdapter = {
+      async request() {
+        throw failures.shift();
+      }
+    };
+    const transport = new Transport({ apiKey: API_KEY, adapter, retryCount: 0 });
+
+    const network = await transport.request('GET', '/api/contacts').catch(e => e);
+    const timeout = await transport.request('GET', '/api/contacts').catch(e => e);
+
+    expect(network).toBeInstanceOf(NetworkError);
+    expect(network).not.toBeInstanceOf(TimeoutError);
+    expect(network).toMatchObject({ status: undefined, isRetryable: true });
+    expect(timeout).toBeInstanceOf(TimeoutError);
+    expect(timeout).toBeInstanceOf(NetworkError);
+    expect(timeout).toMatchObject({ message: 'timeout of 10ms exceeded' });
+  });
+
+  it('are raised with their status from the client modules', async () => {
+    const adapter = createMockAdapter(request => request.url.includes('/contacts/')
+      ? { status: 404, data: { message: 'Contact not found' } }
+      : { status: 401, data: { message: 'Invalid API key' } });
+    const client = new Metigan({ apiKey: API_KEY, adapter, disableLogs: true, enableRateLimit: false, retryCount: 0 });
+
+    await expect(client.contacts.get('c1')).rejects.toMatchObject({
+      name: 'NotFoundError',
+      status: 404,
+      message: 'Contact not found'
+    });
+    await expect(client.email.sendEmail({
+      from: 'shop@example.com',
+      recipients: ['ann@example.com'],
+      subject: 'Hi',
+      content: '<p>Hi</p>'
+    })).rejects.toBeInstanceOf(AuthenticationError);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Fetch adapter: request building, response parsing and failures
+ */
+
+import { Transport, fetchAdapter, NotFoundError, TimeoutError, NetworkError, AbortError } from '../../src';
+import type { HttpRequest } from '../../src';
+import { API_KEY } from '../helpers';
+
+function jsonResponse(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+function createRequest(overrides: Partial<HttpRequest> = {}): HttpRequest {
+  return { method: 'GET', url: 'https://api.example.com/api/contacts', headers: {}, timeout: 1000, ...overrides };
+}
+
+describe('fetchAdapter', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(globalThis, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('sends query parameters and a JSON body, and parses a JSON response', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ id: 'c1' }, 201, { 'X-Request-Id': 'req-1' }));
+
+    const response = await fetchAdapter.request(createRequest({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      data: { email: 'ann@example.com' },
+      params: { audienceId: 'a 1', skipped: undefined }
+    }));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.example.com/api/contacts?audienceId=a+1');
+    expect(init).toMatchObject({ method: 'POST', body: JSON.stringify({ email: 'ann@example.com' }) });
+    expect(response).toEqual({ status: 201, headers: expect.objectContaining({ 'x-request-id': 'req-1' }), data: { id: 'c1' } });
+  });
+
+  it('does not send a body with GET requests', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({}));
+
+    await fetchAdapter.request(createRequest({ data: { ignored: true } }));
+
+    expect(fetchMock.mock.calls[0][1].body).toBeUndefined();
+  });
+
+  it('keeps non-JSON responses as text', async () => {
+    fetchMock.mockResolvedValue(new Response('pong', { status: 200, headers: { 'Content-Type': 'text/plain' } }));
+
+    const response = await fetchAdapter.request(createRequest());
+
+    expect(response.data).toBe('pong');
+  });
+
+  it('rejects non-2xx responses with an HttpError', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ message: 'Missing' }, 404, { 'Retry-After': '3' }));
+
+    await expect(fetchAdapter.request(createRequest())).rejects.toMatchObject({
+      status: 404,
+      data: { message: 'Missing' },
+      headers: expect.objectContaining({ 'retry-after': '3' })
+    });
+  });
+
+  it('reports network failures with status 0', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(fetchAdapter.request(createRequest())).rejects.toMatchObject({
+      status: 0,
+      message: 'fetch failed',
+      timedOut: false,
+      aborted: false
+    });
+  });
+
+  it('aborts the request after the timeout', async () => {
+    fetchMock.mockImplementation((_url, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+
+    await expect(fetchAdapter.request(createRequest({ timeout: 20 }))).rejects.toMatchObject({
+      status: 0,
+      timedOut: true,
+      message: 'timeout of 20ms exceeded'
+    });
+  });
+
+  it('forwards the caller signal', async () => {
+    fetchMock.mockImplementation((_url, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(fetchAdapter.request(createRequest({ signal: controller.signal }))).rejects.toMatchObject({
+      status: 0,
+      timedOut: false,
+      aborted: true
+    });
+  });
+
+  describe('through the transport', () => {
+    it('is used by default when fetch is available', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ ok: true }));
+      const transport = new Transport({ apiKey: API_KEY });
+
+      await expect(transport.request('GET', '/api/contacts')).resolves.toEqual({ ok: true });
+      expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ 'x-api-key': API_KEY });
+    });
+
+    it('maps failures to typed errors', async () => {
+      const transport = new Transport({ apiKey: API_KEY, adapter: 'fetch', retryCount: 0 });
+
+      fetchMock.mockResolvedValueOnce(jsonResponse({ message: 'Missing' }, 404));
+      await expect(transport.request('GET', '/api/contacts/1')).rejects.toBeInstanceOf(NotFoundError);
+
+      fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+      await expect(transport.request('GET', '/api/contacts/1')).rejects.toBeInstanceOf(NetworkError);
+
+      fetchMock.mockImplementationOnce((_url, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+      await expect(transport.request('GET', '/api/contacts/1', undefined, { timeout: 20 })).rejects.toBeInstanceOf(TimeoutError);
+
+      const controller = new AbortController();
+      controller.abort();
+      await expect(transport.request('GET', '/api/contacts/1', undefined, { signal: controller.signal }))
+        .rejects.toBeInstanceOf(AbortError);
+    });
+  });
+});
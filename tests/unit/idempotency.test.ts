@@ -0,0 +1,93 @@
+/**
+ * Automatic idempotency keys on mutating requests
+ */
+
+import { Metigan } from '../../src';
+import { API_KEY, createMockAdapter } from '../helpers';
+import type { MockAdapter } from '../helpers';
+
+const sentReply = { success: true, message: 'Sent', successfulEmails: [], failedEmails: [], recipientCount: 1, emailsRemaining: 10 };
+
+const email = {
+  from: 'shop@example.com',
+  recipients: ['ann@example.com'],
+  subject: 'Hi',
+  content: '<p>Hi</p>'
+};
+
+function createClient(adapter: MockAdapter, options: { idempotencyKeys?: boolean } = {}): Metigan {
+  return new Metigan({
+    apiKey: API_KEY,
+    adapter,
+    disableLogs: true,
+    enableRateLimit: false,
+    retryPolicy: { baseDelay: 1, jitter: false },
+    ...options
+  });
+}
+
+function keysOf(adapter: MockAdapter): Array<string | undefined> {
+  return adapter.requests.map(request => request.headers['Idempotency-Key']);
+}
+
+describe('idempotency keys', () => {
+  it('are generated for every mutating call, one per call', async () => {
+    const adapter = createMockAdapter(() => ({ data: sentReply }));
+    const client = createClient(adapter);
+
+    await client.email.sendEmail(email);
+    await client.contacts.create({ email: 'ann@example.com', audienceId: 'aud_1' });
+    await client.contacts.bulkImport([{ email: 'bob@example.com' }], 'aud_1');
+    await client.forms.submit({ formId: 'form_1', data: { email: 'ann@example.com' } });
+    await client.audiences.create({ name: 'Customers' });
+
+    const keys = keysOf(adapter);
+    expect(keys).toHaveLength(5);
+    keys.forEach(key => expect(key).toMatch(/\S{16,}/));
+    expect(new Set(keys).size).toBe(5);
+  });
+
+  it('are not sent with GET or DELETE requests', async () => {
+    const adapter = createMockAdapter();
+    const client = createClient(adapter);
+
+    await client.contacts.get('c1');
+    await client.contacts.delete('c1');
+
+    expect(keysOf(adapter)).toEqual([undefined, undefined]);
+  });
+
+  it('use the key supplied by the caller', async () => {
+    const adapter = createMockAdapter(() => ({ data: sentReply }));
+    const client = createClient(adapter);
+
+    await client.email.sendEmail({ ...email, idempotencyKey: 'order-1' });
+    await client.contacts.create({ email: 'ann@example.com', audienceId: 'aud_1', idempotencyKey: 'contact-1' });
+    await client.forms.submit({ formId: 'form_1', data: { email: 'ann@example.com' }, idempotencyKey: 'submission-1' });
+    await client.audiences.create({ name: 'Customers', idempotencyKey: 'audience-1' });
+    await client.contacts.bulkImport([{ email: 'bob@example.com' }], 'aud_1', { idempotencyKey: 'import-1' });
+
+    expect(keysOf(adapter)).toEqual(['order-1', 'contact-1', 'submission-1', 'audience-1', 'import-1']);
+  });
+
+  it('are reused by every retry of a send', async () => {
+    const adapter = createMockAdapter((_request, index) => index < 2 ? { status: 503 } : { data: sentReply });
+    const client = createClient(adapter);
+
+    await client.email.sendEmail(email);
+
+    const keys = keysOf(adapter);
+    expect(keys).toHaveLength(3);
+    expect(keys[0]).toBeTruthy();
+    expect(new Set(keys).size).toBe(1);
+  });
+
+  it('can be turned off, which also stops retrying sends', async () => {
+    const adapter = createMockAdapter(() => ({ status: 503 }));
+    const client = createClient(adapter, { idempotencyKeys: false });
+
+    await expect(client.email.sendEmail(email)).rejects.toThrow();
+
+    expect(keysOf(adapter)).toEqual([undefined]);
+  });
+});
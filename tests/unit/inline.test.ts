@@ -0,0 +1,86 @@
+/**
+ * CSS inliner cascade
+ */
+
+import { inlineCss } from '../../src';
+
+/**
+ * Declarations inlined on the element with the given id
+ */
+const styleOf = (html: string, id: string): Record<string, string> | undefined => {
+  const tag = new RegExp(`<[^>]*\\sid="${id}"[^>]*>`).exec(html)?.[0] || '';
+  const style = /\sstyle="([^"]*)"/.exec(tag)?.[1];
+  if (style === undefined) return undefined;
+
+  const declarations: Record<string, string> = {};
+  for (const declaration of style.split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon > 0) {
+      declarations[declaration.slice(0, colon).trim()] = declaration.slice(colon + 1).trim();
+    }
+  }
+  return declarations;
+};
+
+describe('inlineCss', () => {
+  it('applies rules by specificity, then source order', () => {
+    const html = inlineCss(
+      '<style>#a .btn { color: green } a.btn { color: blue } .btn { color: red; padding: 4px } .btn { padding: 8px }</style>' +
+      '<div id="a"><a class="btn" id="x">Go</a></div><a class="btn" id="y">Go</a>'
+    );
+
+    expect(styleOf(html, 'x')).toEqual({ color: 'green', padding: '8px' });
+    expect(styleOf(html, 'y')).toEqual({ color: 'blue', padding: '8px' });
+  });
+
+  it('lets style attributes win over normal declarations but not over !important', () => {
+    const html = inlineCss(
+      '<style>p { color: red; margin: 0 !important } #b { color: blue }</style>' +
+      '<p id="a" style="color: black; margin: 4px">x</p><p id="b" style="color: black">y</p>'
+    );
+
+    expect(styleOf(html, 'a')).toEqual({ color: 'black', margin: '0' });
+    expect(styleOf(html, 'b')).toEqual({ color: 'black', margin: '0' });
+  });
+
+  it('keeps !important in style attributes over !important rules', () => {
+    const html = inlineCss('<style>p { color: red !important }</style><p id="a" style="color: black !important">x</p>');
+
+    expect(styleOf(html, 'a')).toEqual({ color: 'black !important' });
+  });
+
+  it('resolves structural pseudo-classes', () => {
+    const html = inlineCss(
+      '<style>td:first-child { color: red } tr:nth-child(2) td { color: blue }</style>' +
+      '<table><tr><td id="a">1</td><td id="b">2</td></tr><tr><td id="c">3</td></tr></table>'
+    );
+
+    expect(styleOf(html, 'a')).toEqual({ color: 'red' });
+    expect(styleOf(html, 'b')).toBeUndefined();
+    expect(styleOf(html, 'c')).toEqual({ color: 'blue' });
+  });
+
+  it('keeps rules that cannot be inlined in a style block', () => {
+    const html = inlineCss(
+      '<html><head><style>.a { color: red } a:hover { color: pink } @media (max-width: 600px) { .a { width: 100% } }</style></head>' +
+      '<body><p class="a" id="a">x</p></body></html>'
+    );
+
+    expect(styleOf(html, 'a')).toEqual({ color: 'red' });
+    expect(html).toMatch(/<head><style[^>]*>\s*a:hover \{ color: pink \}\s*@media \(max-width: 600px\) \{ \.a \{ width: 100% \} \}\s*<\/style><\/head>/);
+  });
+
+  it('leaves print and data-embed styles alone', () => {
+    const print = '<style media="print">.a { display: none }</style>';
+    const embed = '<style data-embed>.a { color: red }</style>';
+
+    expect(inlineCss(`${print}<p class="a">x</p>`)).toBe(`${print}<p class="a">x</p>`);
+    expect(inlineCss(`${embed}<p class="a">x</p>`)).toContain('<p class="a">x</p>');
+  });
+
+  it('applies extraCss before document styles', () => {
+    const html = inlineCss('<style>.a { color: blue }</style><p class="a" id="a">x</p>', { extraCss: '.a { color: red; margin: 0 }' });
+
+    expect(styleOf(html, 'a')).toEqual({ color: 'blue', margin: '0' });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Transport interceptors: hook order, request mutation, errors and retries
+ */
+
+import { Transport, ServerError, ValidationError } from '../../src';
+import type { Interceptor } from '../../src';
+import { API_KEY, createMockAdapter } from '../helpers';
+
+const retryPolicy = { baseDelay: 1, jitter: false };
+
+describe('interceptors', () => {
+  it('run in registration order for every hook', async () => {
+    const calls: string[] = [];
+    const record = (name: string): Interceptor => ({
+      onRequest: () => { calls.push(`${name}.onRequest`); },
+      onRetry: () => { calls.push(`${name}.onRetry`); },
+      onResponse: () => { calls.push(`${name}.onResponse`); }
+    });
+    const adapter = createMockAdapter((_request, index) => index === 0 ? { status: 503 } : { data: { ok: true } });
+    const transport = new Transport({ apiKey: API_KEY, adapter, retryPolicy, interceptors: [record('a')] });
+    transport.use(record('b'));
+
+    await transport.request('GET', '/api/contacts');
+
+    expect(calls).toEqual([
+      'a.onRequest', 'b.onRequest',
+      'a.onRetry', 'b.onRetry',
+      'a.onRequest', 'b.onRequest',
+      'a.onResponse', 'b.onResponse'
+    ]);
+  });
+
+  it('stop running once removed', async () => {
+    const onRequest = jest.fn();
+    const transport = new Transport({ apiKey: API_KEY, adapter: createMockAdapter() });
+    const remove = transport.use({ onRequest });
+
+    await transport.request('GET', '/api/contacts');
+    remove();
+    await transport.request('GET', '/api/contacts');
+
+    expect(onRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('let onRequest change the headers of each attempt', async () => {
+    const adapter = createMockAdapter((_request, index) => index === 0 ? { status: 503 } : {});
+    const transport = new Transport({
+      apiKey: API_KEY,
+      adapter,
+      retryPolicy,
+      interceptors: [{
+        onRequest: context => {
+          context.headers['X-Trace-Id'] = `trace-${context.attempt}`;
+          delete context.headers['User-Agent'];
+        }
+      }]
+    });
+
+    await transport.request('GET', '/api/contacts');
+
+    expect(adapter.requests.map(request => request.headers['X-Trace-Id'])).toEqual(['trace-1', 'trace-2']);
+    expect(adapter.requests[0].headers).not.toHaveProperty('User-Agent');
+    expect(adapter.requests[0].headers).toMatchObject({ 'x-api-key': API_KEY });
+  });
+
+  it('fail the request when onRequest throws', async () => {
+    const adapter = createMockAdapter();
+    const transport = new Transport({
+      apiKey: API_KEY,
+      adapter,
+      interceptors: [{ onRequest: () => { throw new ValidationError('Blocked'); } }]
+    });
+
+    await expect(transport.request('GET', '/api/contacts')).rejects.toThrow('Blocked');
+    expect(adapter.requests).toHaveLength(0);
+  });
+
+  describe('onError', () => {
+    it('runs once with the final error, which is rethrown when the hook returns', async () => {
+      const onError = jest.fn();
+      const adapter = createMockAdapter(() => ({ status: 503 }));
+      const transport = new Transport({ apiKey: API_KEY, adapter, retryPolicy: { ...retryPolicy, maxAttempts: 3 }, interceptors: [{ onError }] });
+
+      const error = await transport.request('GET', '/api/contacts').catch(e => e);
+
+      expect(error).toBeInstanceOf(ServerError);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0][0]).toMatchObject({ error, attempt: 3 });
+    });
+
+    it('replaces the error when the hook throws', async () => {
+      const replacement = new Error('Wrapped');
+      const transport = new Transport({
+        apiKey: API_KEY,
+        adapter: createMockAdapter(() => ({ status: 404 })),
+        interceptors: [{ onError: () => { throw replacement; } }]
+      });
+
+      await expect(transport.request('GET', '/api/contacts')).rejects.toBe(replacement);
+    });
+
+    it('is not called for successful requests', async () => {
+      const onError = jest.fn();
+      const transport = new Transport({ apiKey: API_KEY, adapter: createMockAdapter(), interceptors: [{ onError }] });
+
+      await transport.request('GET', '/api/contacts');
+
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onRetry', () => {
+    it('runs once per retry with the error that caused it', async () => {
+      const onRetry = jest.fn();
+      const onRequest = jest.fn();
+      const adapter = createMockAdapter((_request, index) => index < 2 ? { status: 503 } : {});
+      const transport = new Transport({ apiKey: API_KEY, adapter, retryPolicy, interceptors: [{ onRetry, onRequest }] });
+
+      await transport.request('GET', '/api/contacts');
+
+      expect(onRequest).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls.map(([context]) => context.attempt)).toEqual([1, 2]);
+      expect(onRetry.mock.calls[0][0].error).toBeInstanceOf(ServerError);
+    });
+
+    it('is not called when the failure is not retried', async () => {
+      const onRetry = jest.fn();
+      const transport = new Transport({
+        apiKey: API_KEY,
+        adapter: createMockAdapter(() => ({ status: 503 })),
+        retryPolicy,
+        idempotencyKeys: false,
+        interceptors: [{ onRetry }]
+      });
+
+      await expect(transport.request('POST', '/api/contacts', {})).rejects.toBeInstanceOf(ServerError);
+      expect(onRetry).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Email HTML linter diagnostics
+ */
+
+import { lintEmailHtml, EmailLintError, Metigan } from '../../src';
+import { API_KEY, createMockAdapter } from '../helpers';
+
+const rules = (html: string, options = {}) => lintEmailHtml(html, options).diagnostics.map(diagnostic => diagnostic.rule);
+
+describe('lintEmailHtml', () => {
+  it('reports images without alt and relative URLs with their position', () => {
+    const result = lintEmailHtml('<p>Hi</p>\n<img src="/logo.png">');
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ rule: 'img-alt', severity: 'warning', line: 2, column: 1 }),
+      expect.objectContaining({ rule: 'relative-url', severity: 'error', line: 2, column: 6 })
+    ]);
+  });
+
+  it('accepts absolute, anchor, mailto and merge tag URLs', () => {
+    expect(rules('<a href="https://x.com">a</a><a href="#top">b</a><a href="mailto:a@b.com">c</a><a href="{{url}}">d</a>')).toEqual([]);
+  });
+
+  it('reports CSS unsupported by the selected clients', () => {
+    const html = '<div style="display: flex; position: absolute">x</div>';
+
+    expect(lintEmailHtml(html).diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      'display: flex is not supported by outlook, yahoo',
+      'position is not supported by gmail, outlook, yahoo'
+    ]);
+    expect(rules(html, { clients: ['apple-mail'] })).toEqual([]);
+  });
+
+  it('reports unsupported CSS in style blocks', () => {
+    expect(rules('<style>@media (max-width: 600px) { .a { display: grid; } }</style>')).toEqual(['unsupported-css']);
+  });
+
+  it('reports HTML over the clipping size', () => {
+    const result = lintEmailHtml(`<p>${'é'.repeat(60000)}</p>`);
+
+    expect(result.size).toBe(120007);
+    expect(result.diagnostics.map(diagnostic => diagnostic.rule)).toEqual(['gmail-clipping']);
+  });
+
+  it('requires an unsubscribe link in marketing mail', () => {
+    expect(rules('<p>Hi</p>', { marketing: true })).toEqual(['unsubscribe-link']);
+    expect(rules('<a href="https://x.com/unsubscribe">Leave</a>', { marketing: true })).toEqual([]);
+  });
+
+  it('reports malformed and unknown merge tags outside comments and styles', () => {
+    const html = '<p>{{ name }} {{first name}} {{plan}</p><!-- {{ignored}} --><style>a { color: red }</style>';
+
+    expect(lintEmailHtml(html, { variables: { name: 'Ann' } }).diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      expect.stringContaining('{{first name}}'),
+      expect.stringContaining('{{plan}')
+    ]);
+  });
+
+  it('lints markup inside conditional comments', () => {
+    expect(rules('<!--[if mso]><img src="o.png"><![endif]-->')).toEqual(['img-alt', 'relative-url']);
+  });
+
+  it('changes rule severities and turns rules off', () => {
+    const result = lintEmailHtml('<img src="/a.png">', { rules: { 'relative-url': 'warning', 'img-alt': 'off' } });
+
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics).toEqual([expect.objectContaining({ rule: 'relative-url', severity: 'warning' })]);
+  });
+
+  it.each([
+    ['conditional comment', '<p>hi</p><!--[if mso'],
+    ['comment', '<p>hi</p><!-- {{name'],
+    ['endif', '<p>hi</p><![endif]']
+  ])('stops at an unterminated %s', (_name, html) => {
+    expect(lintEmailHtml(html).valid).toBe(true);
+  });
+});
+
+describe('sendEmail lint option', () => {
+  it('fails before sending when linting finds errors', async () => {
+    const adapter = createMockAdapter();
+    const client = new Metigan({ apiKey: API_KEY, adapter, disableLogs: true, enableRateLimit: false });
+
+    const error = await client.email.sendEmail({
+      from: 'shop@example.com',
+      recipients: ['ann@example.com'],
+      subject: 'Hi',
+      content: '<p>Hi</p><!--[if mso',
+      lint: { marketing: true }
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(EmailLintError);
+    expect(error.diagnostics.map((diagnostic: any) => diagnostic.rule)).toEqual(['unsubscribe-link']);
+    expect(adapter.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Message lookup: getMessage, listMessages and getEvents
+ */
+
+import { Metigan, ValidationError, NotFoundError } from '../../src';
+import { API_KEY, createMockAdapter } from '../helpers';
+import type { MockAdapter } from '../helpers';
+
+function createClient(adapter: MockAdapter): Metigan {
+  return new Metigan({ apiKey: API_KEY, adapter, disableLogs: true, enableRateLimit: false });
+}
+
+const sentMessage = {
+  trackingId: 'trk/1',
+  status: 'delivered',
+  from: 'shop@example.com',
+  recipient: 'ann@example.com',
+  subject: 'Your order',
+  createdAt: '2026-01-01T00:00:00Z'
+};
+
+describe('message lookup', () => {
+  describe('getMessage', () => {
+    it('fetches the message by its encoded tracking ID', async () => {
+      const adapter = createMockAdapter(() => ({ data: sentMessage }));
+      const client = createClient(adapter);
+
+      const message = await client.email.getMessage('trk/1');
+
+      expect(message).toEqual(sentMessage);
+      expect(adapter.requests[0].method).toBe('GET');
+      expect(adapter.requests[0].url).toMatch(/\/api\/email\/messages\/trk%2F1$/);
+    });
+
+    it('raises NotFoundError for unknown messages', async () => {
+      const client = createClient(createMockAdapter(() => ({ status: 404, data: { message: 'Message not found' } })));
+
+      await expect(client.email.getMessage('missing')).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('getEvents', () => {
+    it('returns the events of a message in order', async () => {
+      const events = {
+        trackingId: 'trk/1',
+        events: [
+          { type: 'delivered', timestamp: '2026-01-01T00:00:05Z' },
+          { type: 'opened', timestamp: '2026-01-01T00:10:00Z' },
+          { type: 'clicked', timestamp: '2026-01-01T00:11:00Z', url: 'https://example.com/orders/42' }
+        ]
+      };
+      const adapter = createMockAdapter(() => ({ data: events }));
+      const client = createClient(adapter);
+
+      const response = await client.email.getEvents('trk/1');
+
+      expect(response.events.map(event => event.type)).toEqual(['delivered', 'opened', 'clicked']);
+      expect(adapter.requests[0].url).toMatch(/\/api\/email\/messages\/trk%2F1\/events$/);
+    });
+  });
+
+  it('requires a tracking ID', async () => {
+    const adapter = createMockAdapter();
+    const client = createClient(adapter);
+
+    await expect(client.email.getMessage('')).rejects.toBeInstanceOf(ValidationError);
+    await expect(client.email.getEvents('')).rejects.toBeInstanceOf(ValidationError);
+    expect(adapter.requests).toHaveLength(0);
+  });
+
+  describe('listMessages', () => {
+    it('sends the filters as query parameters', async () => {
+      const adapter = createMockAdapter(() => ({
+        data: { messages: [sentMessage], pagination: { total: 1, page: 2, limit: 10, pages: 1 } }
+      }));
+      const client = createClient(adapter);
+
+      const response = await client.email.listMessages({
+        status: 'bounced',
+        recipient: 'ann@example.com',
+        tag: 'orders',
+        startDate: new Date('2026-01-01T00:00:00Z'),
+        page: 2,
+        limit: 10
+      });
+
+      const query = new URL(adapter.requests[0].url).searchParams;
+      expect(Object.fromEntries(query)).toEqual({
+        status: 'bounced',
+        recipient: 'ann@example.com',
+        tag: 'orders',
+        startDate: '2026-01-01T00:00:00.000Z',
+        page: '2',
+        limit: '10'
+      });
+      expect(response.messages).toHaveLength(1);
+    });
+
+    it('is iterated across pages', async () => {
+      const adapter = createMockAdapter((_request, index) => ({
+        data: {
+          messages: [{ ...sentMessage, trackingId: `trk-${index + 1}` }],
+          pagination: { total: 2, page: index + 1, limit: 1, pages: 2 }
+        }
+      }));
+      const client = createClient(adapter);
+
+      const trackingIds: string[] = [];
+      for await (const message of client.email.iterateMessages({ status: 'delivered' }, { pageSize: 1 })) {
+        trackingIds.push(message.trackingId);
+      }
+
+      expect(trackingIds).toEqual(['trk-1', 'trk-2']);
+      expect(adapter.requests.every(request => request.url.includes('status=delivered'))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Email client: validation and per-recipient merge tags
+ */
+
+import { Metigan, MetiganError, ValidationError, RateLimitError } from '../../src';
+import type { HttpAdapter, HttpRequest, HttpResponse } from '../../src';
+import { API_KEY, createMockAdapter, batchReply } from '../helpers';
+import type { MockAdapter } from '../helpers';
+
+function createClient(adapter: MockAdapter): Metigan {
+  return new Metigan({ apiKey: API_KEY, adapter, disableLogs: true, enableRateLimit: false });
+}
+
+const message = {
+  from: 'Shop <shop@example.com>',
+  recipients: ['ann@example.com', 'bob@example.com'],
+  subject: 'Hi {{name}}',
+  content: '<p>Hi {{name}}, your plan is {{plan}}</p>'
+};
+
+describe('Metigan', () => {
+  it('requires an API key', () => {
+    expect(() => new Metigan({ apiKey: '' })).toThrow(MetiganError);
+  });
+
+  describe('recipientVariables', () => {
+    it('renders merge tags for each recipient', async () => {
+      const adapter = createMockAdapter(batchReply);
+      const client = createClient(adapter);
+
+      const response = await client.email.sendEmail({
+        ...message,
+        variables: { plan: 'Pro' },
+        recipientVariables: { 'ann@example.com': { name: 'Ann' }, 'Bob <BOB@example.com>': { name: 'Bob' } }
+      });
+
+      const sent = adapter.requests[0].data.messages;
+      expect(sent.map((item: any) => item.subject)).toEqual(['Hi Ann', 'Hi Bob']);
+      expect(sent[1].content).toBe('<p>Hi Bob, your plan is Pro</p>');
+      expect(response).toMatchObject({ success: true, recipientCount: 2 });
+    });
+
+    it('derives an idempotency key for each recipient', async () => {
+      const adapter = createMockAdapter(batchReply);
+      const client = createClient(adapter);
+
+      await client.email.sendEmail({
+        ...message,
+        idempotencyKey: 'welcome-1',
+        recipientVariables: { 'ann@example.com': { name: 'Ann', plan: 'Pro' }, 'bob@example.com': { name: 'Bob', plan: 'Free' } }
+      });
+
+      const request = adapter.requests[0];
+      expect(request.data.messages.map((item: any) => item.idempotencyKey)).toEqual(['welcome-1:0', 'welcome-1:1']);
+    });
+
+    it('rethrows the original error when every personalized message fails', async () => {
+      const adapter = createMockAdapter(() => ({ status: 429, headers: { 'retry-after': '7', 'x-request-id': 'req-9' } }));
+      const client = new Metigan({ apiKey: API_KEY, adapter, disableLogs: true, enableRateLimit: false, retryPolicy: { maxAttempts: 1 } });
+
+      const error = await client.email.sendEmail({
+        ...message,
+        recipientVariables: { 'ann@example.com': { name: 'Ann', plan: 'Pro' }, 'bob@example.com': { name: 'Bob', plan: 'Free' } }
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error).toMatchObject({ retryAfter: 7, requestId: 'req-9' });
+    });
+
+    it('rejects variables for addresses that are not recipients', async () => {
+      const adapter = createMockAdapter(batchReply);
+      const client = createClient(adapter);
+
+      await expect(client.email.sendEmail({
+        ...message,
+        recipientVariables: { 'eve@example.com': { name: 'Eve', plan: 'Free' } }
+      })).rejects.toThrow('Recipient variables provided for unknown recipient: eve@example.com');
+      expect(adapter.requests).toHaveLength(0);
+    });
+
+    it('rejects missing variables before sending', async () => {
+      const adapter = createMockAdapter(batchReply);
+      const client = createClient(adapter);
+
+      await expect(client.email.sendEmail({
+        ...message,
+        recipientVariables: { 'ann@example.com': { name: 'Ann', plan: 'Pro' }, 'bob@example.com': { name: 'Bob' } }
+      })).rejects.toBeInstanceOf(ValidationError);
+      expect(adapter.requests).toHaveLength(0);
+    });
+
+    it('drops the variables of suppressed recipients', async () => {
+      const adapter = createMockAdapter(request => request.url.includes('/api/suppressions')
+        ? { data: { suppressions: [{ email: 'bob@example.com', reason: 'bounce', createdAt: '2026-01-01' }], pagination: { pages: 1 } } }
+        : batchReply(request));
+      const client = createClient(adapter);
+
+      const response = await client.email.sendEmail({
+        ...message,
+        filterSuppressed: true,
+        recipientVariables: { 'ann@example.com': { name: 'Ann', plan: 'Pro' }, 'Bob <bob@example.com>': { name: 'Bob', plan: 'Free' } }
+      });
+
+      const sent = adapter.requests[1].data.messages;
+      expect(sent.map((item: any) => item.recipients)).toEqual([['ann@example.com']]);
+      expect(response).toMatchObject({ skippedRecipients: [{ recipient: 'bob@example.com', reason: 'bounce' }] });
+    });
+
+    it('cannot be combined with CC', async () => {
+      const client = createClient(createMockAdapter(batchReply));
+
+      await expect(client.email.sendEmail({
+        ...message,
+        cc: ['cc@example.com'],
+        recipientVariables: { 'ann@example.com': { name: 'Ann', plan: 'Pro' } }
+      })).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe('sendBatch', () => {
+    it('reports messages with recipientVariables and no templateId as failed', async () => {
+      const adapter = createMockAdapter(batchReply);
+      const client = createClient(adapter);
+
+      const result = await client.email.sendBatch([
+        { ...message, recipientVariables: { 'ann@example.com': { name: 'Ann', plan: 'Pro' } } },
+        { ...message, recipients: ['ann@example.com'], variables: { name: 'Ann', plan: 'Pro' } }
+      ]);
+
+      expect(result.results[0]).toMatchObject({ success: false, error: expect.stringContaining('recipientVariables require templateId') });
+      expect(result.results[1]).toMatchObject({ success: true });
+      expect(adapter.requests[0].data.messages).toHaveLength(1);
+      expect(adapter.requests[0].data.messages[0].subject).toBe('Hi Ann');
+    });
+
+    it('does not derive chunk keys from the first and last message keys', async () => {
+      const adapter = createMockAdapter(batchReply);
+      const client = createClient(adapter);
+      const keyed = (key: string, recipient: string) => ({ ...message, recipients: [recipient], variables: { name: 'A', plan: 'B' }, idempotencyKey: key });
+
+      await client.email.sendBatch([keyed('a', 'ann@example.com'), keyed('b', 'bob@example.com'), keyed('c', 'cy@example.com')]);
+      await client.email.sendBatch([keyed('a', 'ann@example.com'), keyed('x', 'xi@example.com'), keyed('c', 'cy@example.com')]);
+
+      const [first, second] = adapter.requests;
+      expect(first.headers['Idempotency-Key']).not.toBe(second.headers['Idempotency-Key']);
+      expect(second.data.messages.map((item: any) => item.idempotencyKey)).toEqual(['a', 'x', 'c']);
+    });
+
+    it('leaves 429 retries to the transport', async () => {
+      const adapter = createMockAdapter(() => ({ status: 429, headers: { 'retry-after': '0' }, data: { message: 'Slow down' } }));
+      const client = new Metigan({
+        apiKey: API_KEY,
+        adapter,
+        disableLogs: true,
+        enableRateLimit: false,
+        retryPolicy: { maxAttempts: 2, baseDelay: 1 }
+      });
+
+      const result = await client.email.sendBatch([{ ...message, recipients: ['ann@example.com'], variables: { name: 'Ann', plan: 'Pro' } }]);
+
+      expect(result.results[0]).toMatchObject({ success: false, status: 429, error: 'Slow down' });
+      expect(adapter.requests).toHaveLength(2);
+    });
+
+    it('forwards recipientVariables with a template', async () => {
+      const adapter = createMockAdapter(batchReply);
+      const client = createClient(adapter);
+
+      await client.email.sendBatch([{
+        from: message.from,
+        recipients: message.recipients,
+        subject: 'Hi',
+        templateId: 'tpl-1',
+        recipientVariables: { 'ann@example.com': { name: 'Ann' } }
+      }]);
+
+      expect(adapter.requests[0].data.messages[0].recipientVariables).toEqual({ 'ann@example.com': { name: 'Ann' } });
+    });
+  });
+
+  describe('scheduled emails', () => {
+    it('encodes the message ID in reschedule and cancelScheduled', async () => {
+      const adapter = createMockAdapter(() => ({ data: { success: true } }));
+      const client = createClient(adapter);
+
+      await client.email.reschedule('sch/1?x', '2030-01-01T10:00:00Z');
+      await client.email.cancelScheduled('sch/1?x');
+
+      expect(adapter.requests.map(request => `${request.method} ${request.url}`)).toEqual([
+        expect.stringMatching(/^PATCH .*\/api\/email\/scheduled\/sch%2F1%3Fx$/),
+        expect.stringMatching(/^DELETE .*\/api\/email\/scheduled\/sch%2F1%3Fx$/)
+      ]);
+    });
+  });
+
+  describe('usage logs', () => {
+    it('are sent once, outside the rate limiter and interceptors', async () => {
+      const logs: HttpRequest[] = [];
+      const adapter: HttpAdapter = {
+        async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+          if (request.url.endsWith('/api/logs')) {
+            logs.push(request);
+            throw { status: 503, headers: {}, data: { message: 'Unavailable' } };
+          }
+          const data = { success: true, message: 'Sent', successfulEmails: [], failedEmails: [], recipientCount: 1, emailsRemaining: 10 };
+          return { status: 200, headers: {}, data: data as T };
+        }
+      };
+      const urls: string[] = [];
+      const client = new Metigan({
+        apiKey: API_KEY,
+        adapter,
+        rateLimit: { requestsPerSecond: 0.1, burst: 2, onLimit: 'throw' },
+        retryPolicy: { baseDelay: 1, jitter: false },
+        interceptors: [{ onRequest: context => { urls.push(context.url); } }]
+      });
+
+      await client.email.sendEmail({ ...message, recipients: ['ann@example.com'], variables: { name: 'Ann', plan: 'Pro' } });
+      await new Promise(resolve => setTimeout(resolve, 1200));
+
+      expect(logs).toHaveLength(1);
+      expect(logs[0].headers).toMatchObject({ 'x-api-key': API_KEY, 'User-Agent': 'SDK' });
+      expect(logs[0].data.logs[0]).toMatchObject({ endpoint: '/email/send', status: '200', method: 'POST' });
+      expect(urls.some(url => url.endsWith('/api/logs'))).toBe(false);
+
+      // The log request left the second burst token for the caller
+      await expect(client.email.sendEmail({ ...message, recipients: ['bob@example.com'], variables: { name: 'Bob', plan: 'Pro' } }))
+        .resolves.toMatchObject({ success: true });
+    });
+  });
+});
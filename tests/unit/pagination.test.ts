@@ -0,0 +1,206 @@
+/**
+ * Auto-paginating iterators of the list endpoints
+ */
+
+import { Metigan } from '../../src';
+import type { HttpRequest } from '../../src';
+import { API_KEY, createMockAdapter } from '../helpers';
+import type { MockAdapter, MockReply } from '../helpers';
+
+function createClient(adapter: MockAdapter): Metigan {
+  return new Metigan({ apiKey: API_KEY, adapter, disableLogs: true, enableRateLimit: false });
+}
+
+function queryOf(request: HttpRequest): URLSearchParams {
+  return new URL(request.url).searchParams;
+}
+
+/**
+ * Reply serving `total` numbered items under `key`, page by page
+ */
+function pagedReply(key: string, total: number, options: { reportPages?: boolean } = {}) {
+  return (request: HttpRequest): MockReply => {
+    const query = queryOf(request);
+    const page = Number(query.get('page') || 1);
+    const limit = Number(query.get('limit') || 50);
+    const items = Array.from({ length: total }, (_, index) => ({ id: `${key}-${index + 1}` }))
+      .slice((page - 1) * limit, page * limit);
+    const pagination = options.reportPages === false
+      ? undefined
+      : { total, page, limit, pages: Math.ceil(total / limit) };
+    return { data: { [key]: items, pagination } };
+  };
+}
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('iterators', () => {
+  describe('page mode', () => {
+    it('walk every page with the requested page size and filters', async () => {
+      const adapter = createMockAdapter(pagedReply('contacts', 5));
+      const client = createClient(adapter);
+
+      const contacts = await collect(client.contacts.iterate({ audienceId: 'aud_1', status: 'subscribed' }, { pageSize: 2 }));
+
+      expect(contacts.map(contact => contact.id)).toEqual(['contacts-1', 'contacts-2', 'contacts-3', 'contacts-4', 'contacts-5']);
+      expect(adapter.requests.map(request => queryOf(request).get('page'))).toEqual(['1', '2', '3']);
+      adapter.requests.forEach(request => {
+        expect(queryOf(request).get('limit')).toBe('2');
+        expect(queryOf(request).get('audienceId')).toBe('aud_1');
+        expect(queryOf(request).get('status')).toBe('subscribed');
+      });
+    });
+
+    it('fetch pages lazily and stop when the consumer breaks', async () => {
+      const adapter = createMockAdapter(pagedReply('audiences', 10));
+      const client = createClient(adapter);
+
+      const iterator = client.audiences.iterate({ pageSize: 2 });
+      expect(adapter.requests).toHaveLength(0);
+
+      for await (const audience of iterator) {
+        if (audience.id === 'audiences-3') break;
+      }
+
+      expect(adapter.requests).toHaveLength(2);
+    });
+
+    it('stop on a short page when the server does not report a page count', async () => {
+      const adapter = createMockAdapter(pagedReply('templates', 4, { reportPages: false }));
+      const client = createClient(adapter);
+
+      const templates = await collect(client.templates.iterate({ pageSize: 2 }));
+
+      expect(templates).toHaveLength(4);
+      // The third page comes back empty
+      expect(adapter.requests).toHaveLength(3);
+    });
+
+    it('prefetch following pages while the current one is consumed', async () => {
+      const adapter = createMockAdapter(pagedReply('forms', 10));
+      const client = createClient(adapter);
+
+      const iterator = client.forms.iterateForms({ pageSize: 2, prefetch: 2 });
+      for (let i = 0; i < 3; i++) {
+        await iterator.next();
+      }
+
+      // Pages 3 and 4 were requested along with page 2
+      expect(adapter.requests.map(request => queryOf(request).get('page'))).toEqual(['1', '2', '3', '4']);
+
+      const rest = await collect(iterator);
+      expect(rest).toHaveLength(7);
+      expect(adapter.requests).toHaveLength(5);
+    });
+
+    it('cover the submissions of a form', async () => {
+      const adapter = createMockAdapter(pagedReply('submissions', 3));
+      const client = createClient(adapter);
+
+      const submissions = await collect(client.forms.iterateSubmissions('form_1', { pageSize: 2 }));
+
+      expect(submissions).toHaveLength(3);
+      adapter.requests.forEach(request => {
+        expect(new URL(request.url).pathname).toBe('/api/submissions');
+        expect(queryOf(request).get('formId')).toBe('form_1');
+      });
+    });
+
+    it('reject a missing form ID before any request', () => {
+      const adapter = createMockAdapter();
+      const client = createClient(adapter);
+
+      expect(() => client.forms.iterateSubmissions('')).toThrow('Form ID is required');
+      expect(adapter.requests).toHaveLength(0);
+    });
+  });
+
+  describe('cursor mode', () => {
+    /**
+     * Reply serving `total` numbered contacts with opaque cursors
+     */
+    function cursorReply(total: number) {
+      return (request: HttpRequest): MockReply => {
+        const query = queryOf(request);
+        const limit = Number(query.get('limit') || 50);
+        const start = query.get('cursor') ? Number(query.get('cursor')!.replace('after-', '')) : 0;
+        const contacts = Array.from({ length: total }, (_, index) => ({ id: `contacts-${index + 1}` }))
+          .slice(start, start + limit);
+        const end = start + contacts.length;
+        return {
+          data: {
+            contacts,
+            pagination: { total, page: 1, limit, pages: 1, nextCursor: end < total ? `after-${end}` : null }
+          }
+        };
+      };
+    }
+
+    it('follow nextCursor when the server returns one', async () => {
+      const adapter = createMockAdapter(cursorReply(5));
+      const client = createClient(adapter);
+
+      const contacts = await collect(client.contacts.iterate({}, { pageSize: 2 }));
+
+      expect(contacts.map(contact => contact.id)).toEqual(['contacts-1', 'contacts-2', 'contacts-3', 'contacts-4', 'contacts-5']);
+      expect(adapter.requests.map(request => queryOf(request).get('cursor'))).toEqual([null, 'after-2', 'after-4']);
+      // The page number is only sent for the first request
+      expect(adapter.requests.map(request => queryOf(request).get('page'))).toEqual(['1', null, null]);
+    });
+
+    it('ignore the page count and prefetch in cursor mode', async () => {
+      const adapter = createMockAdapter(cursorReply(6));
+      const client = createClient(adapter);
+
+      const iterator = client.contacts.iterate({}, { pageSize: 2, prefetch: 3 });
+      for (let i = 0; i < 3; i++) {
+        await iterator.next();
+      }
+
+      expect(adapter.requests).toHaveLength(2);
+      expect(await collect(iterator)).toHaveLength(3);
+    });
+
+    it('start from the cursor given in the filters', async () => {
+      const adapter = createMockAdapter(cursorReply(5));
+      const client = createClient(adapter);
+
+      const contacts = await collect(client.contacts.iterate({ cursor: 'after-3' }, { pageSize: 2 }));
+
+      expect(contacts.map(contact => contact.id)).toEqual(['contacts-4', 'contacts-5']);
+      expect(queryOf(adapter.requests[0]).get('cursor')).toBe('after-3');
+    });
+
+    it('stop when a page comes back empty despite a cursor', async () => {
+      const adapter = createMockAdapter((_request, index) => ({
+        data: {
+          contacts: index === 0 ? [{ id: 'contacts-1' }] : [],
+          pagination: { total: 1, page: 1, limit: 2, pages: 1, nextCursor: 'again' }
+        }
+      }));
+      const client = createClient(adapter);
+
+      const contacts = await collect(client.contacts.iterate({}, { pageSize: 2 }));
+
+      expect(contacts).toHaveLength(1);
+      expect(adapter.requests).toHaveLength(2);
+    });
+
+    it('send the cursor instead of the page from list', async () => {
+      const adapter = createMockAdapter(cursorReply(5));
+      const client = createClient(adapter);
+
+      const response = await client.contacts.list({ cursor: 'after-2', page: 3, limit: 2 });
+
+      expect(queryOf(adapter.requests[0]).get('cursor')).toBe('after-2');
+      expect(queryOf(adapter.requests[0]).has('page')).toBe(false);
+      expect(response.pagination.nextCursor).toBe('after-4');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Token-bucket rate limiter
+ */
+
+import { TokenBucketLimiter, Transport, RateLimitError, AbortError } from '../../src';
+import { API_KEY, createMockAdapter } from '../helpers';
+
+describe('TokenBucketLimiter', () => {
+  describe("onLimit: 'throw'", () => {
+    it('allows a burst and then fails with the wait time', async () => {
+      const limiter = new TokenBucketLimiter({ requestsPerSecond: 2, onLimit: 'throw' });
+
+      await limiter.acquire('GET', '/api/contacts');
+      await limiter.acquire('GET', '/api/contacts');
+      const error = await limiter.acquire('GET', '/api/contacts').catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.code).toBe('client_rate_limit');
+      expect(error.retryAfter).toBeGreaterThan(0);
+      expect(error.retryAfter).toBeLessThanOrEqual(0.5);
+    });
+
+    it('limits endpoint buckets separately from the global bucket', async () => {
+      const limiter = new TokenBucketLimiter({
+        requestsPerSecond: 100,
+        onLimit: 'throw',
+        endpoints: { 'POST /api/email/send': { requestsPerSecond: 1 } }
+      });
+
+      await limiter.acquire('POST', '/api/email/send');
+
+      await expect(limiter.acquire('POST', '/api/email/send')).rejects.toBeInstanceOf(RateLimitError);
+      await expect(limiter.acquire('POST', '/api/email/send/batch')).rejects.toBeInstanceOf(RateLimitError);
+      await expect(limiter.acquire('GET', '/api/email/send')).resolves.toBeUndefined();
+      await expect(limiter.acquire('POST', '/api/contacts')).resolves.toBeUndefined();
+    });
+  });
+
+  describe("onLimit: 'wait'", () => {
+    it('queues requests until tokens refill, in order', async () => {
+      const limiter = new TokenBucketLimiter({ requestsPerSecond: 20, burst: 1 });
+      const order: number[] = [];
+
+      const start = Date.now();
+      await Promise.all([0, 1, 2].map(index => limiter.acquire('GET', '/api/contacts').then(() => order.push(index))));
+
+      expect(order).toEqual([0, 1, 2]);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+    });
+
+    it('fails when the queue is full or the wait times out', async () => {
+      const limiter = new TokenBucketLimiter({ requestsPerSecond: 1, maxQueueSize: 1, queueTimeout: 50 });
+
+      await limiter.acquire('GET', '/api/contacts');
+      const queued = limiter.acquire('GET', '/api/contacts').catch(e => e);
+      const full = await limiter.acquire('GET', '/api/contacts').catch(e => e);
+
+      expect(full).toMatchObject({ code: 'rate_limit_queue_full' });
+      expect(await queued).toMatchObject({ code: 'rate_limit_timeout' });
+      expect(limiter.pending).toBe(0);
+    });
+
+    it('leaves the queue when the signal is aborted', async () => {
+      const limiter = new TokenBucketLimiter({ requestsPerSecond: 1 });
+      const controller = new AbortController();
+
+      await limiter.acquire('GET', '/api/contacts');
+      const waiting = limiter.acquire('GET', '/api/contacts', controller.signal);
+      controller.abort();
+
+      await expect(waiting).rejects.toBeInstanceOf(AbortError);
+      expect(limiter.pending).toBe(0);
+    });
+  });
+
+  describe('adaptive', () => {
+    it('pauses for Retry-After and halves the rate after a 429', () => {
+      const limiter = new TokenBucketLimiter({ requestsPerSecond: 10 });
+
+      limiter.penalize('GET', '/api/contacts', 1);
+
+      expect(limiter.getWaitTime()).toBeGreaterThan(1000);
+      expect(limiter.getWaitTime()).toBeLessThanOrEqual(1200);
+    });
+
+    it('only slows down the endpoint bucket that got the 429', () => {
+      const limiter = new TokenBucketLimiter({
+        requestsPerSecond: 10,
+        endpoints: { '/api/contacts': { requestsPerSecond: 5 } }
+      });
+
+      limiter.penalize('GET', '/api/contacts', 1);
+
+      expect(limiter.getWaitTime('GET', '/api/contacts')).toBeGreaterThan(1000);
+      expect(limiter.getWaitTime('GET', '/api/domains')).toBe(0);
+      expect(limiter.getWaitTime('POST', '/api/email/send')).toBe(0);
+    });
+
+    it('can be turned off', () => {
+      const limiter = new TokenBucketLimiter({ requestsPerSecond: 10, adaptive: false });
+
+      limiter.penalize('GET', '/api/contacts', 1);
+
+      expect(limiter.getWaitTime()).toBe(0);
+    });
+  });
+
+  it('is applied by the transport before each request', async () => {
+    const adapter = createMockAdapter();
+    const transport = new Transport({
+      apiKey: API_KEY,
+      adapter,
+      rateLimit: new TokenBucketLimiter({ requestsPerSecond: 1, onLimit: 'throw' })
+    });
+
+    await transport.request('GET', '/api/contacts');
+
+    await expect(transport.request('GET', '/api/contacts')).rejects.toBeInstanceOf(RateLimitError);
+    expect(adapter.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Sanitization report: analyzeHtml and the strip/report/reject modes
+ */
+
+import { Metigan, analyzeHtml, UnsafeHtmlError } from '../../src';
+import type { MetiganClientOptions } from '../../src';
+import { API_KEY, createMockAdapter } from '../helpers';
+import type { MockAdapter } from '../helpers';
+
+const sentReply = { success: true, message: 'Sent', successfulEmails: [], failedEmails: [], recipientCount: 1, emailsRemaining: 10 };
+
+const unsafeContent = '<p>Hi</p>\n<a href="javascript:alert(1)" onclick="steal()">Pay</a><script>alert(1)</script>';
+
+const message = {
+  from: 'shop@example.com',
+  recipients: ['ann@example.com'],
+  subject: 'Hi',
+  content: unsafeContent
+};
+
+function createClient(adapter: MockAdapter, sanitizeHtml?: MetiganClientOptions['sanitizeHtml']): Metigan {
+  return new Metigan({ apiKey: API_KEY, adapter, disableLogs: true, enableRateLimit: false, sanitizeHtml });
+}
+
+describe('analyzeHtml', () => {
+  it('lists every removal with its position', () => {
+    const analysis = analyzeHtml(unsafeContent);
+
+    expect(analysis.html).toBe('<p>Hi</p>\n<a>Pay</a>');
+    expect(analysis.removals).toEqual([
+      expect.objectContaining({ type: 'attribute', name: 'href', tag: 'a', reason: 'unsafe-url', line: 2, column: 4 }),
+      expect.objectContaining({ type: 'attribute', name: 'onclick', tag: 'a', reason: 'event-handler', line: 2, column: 31 }),
+      expect.objectContaining({ type: 'element', name: 'script', reason: 'not-allowed', contentRemoved: true, line: 2, column: 56 })
+    ]);
+    analysis.removals.forEach(removal => {
+      expect(unsafeContent.slice(removal.offset).toLowerCase()).toMatch(new RegExp(`^<?${removal.name}`));
+    });
+  });
+
+  it('reports nothing for safe email markup', () => {
+    const html = '<table role="presentation"><tr><td style="color: #333"><a href="https://example.com">Shop</a></td></tr></table>';
+
+    expect(analyzeHtml(html)).toEqual({ html, removals: [] });
+  });
+
+  it('honors custom allowlists', () => {
+    const analysis = analyzeHtml('<p><u>Sale</u></p>', { allowedTags: ['p'] });
+
+    expect(analysis.removals).toEqual([expect.objectContaining({ type: 'element', name: 'u', contentRemoved: false })]);
+    expect(analysis.html).toBe('<p>Sale</p>');
+  });
+});
+
+describe('sanitize modes', () => {
+  it('strip silently by default', async () => {
+    const adapter = createMockAdapter(() => ({ data: sentReply }));
+    const client = createClient(adapter);
+
+    const response = await client.email.sendEmail(message);
+
+    expect(adapter.requests[0].data.content).toBe('<p>Hi</p>\n<a>Pay</a>');
+    expect(response).not.toHaveProperty('sanitizationReport');
+  });
+
+  it("return the removals in 'report' mode", async () => {
+    const adapter = createMockAdapter(() => ({ data: sentReply }));
+    const client = createClient(adapter, 'report');
+
+    const response = await client.email.sendEmail(message);
+
+    expect(adapter.requests[0].data.content).toBe('<p>Hi</p>\n<a>Pay</a>');
+    expect(response).toMatchObject({ sanitizationReport: analyzeHtml(unsafeContent).removals });
+  });
+
+  it("throw UnsafeHtmlError before sending in 'reject' mode", async () => {
+    const adapter = createMockAdapter(() => ({ data: sentReply }));
+    const client = createClient(adapter, { mode: 'reject' });
+
+    const error = await client.email.sendEmail(message).catch(e => e);
+
+    expect(error).toBeInstanceOf(UnsafeHtmlError);
+    expect(error.removals).toHaveLength(3);
+    expect(error.message).toContain('first: attribute "href" at line 2, column 4');
+    expect(adapter.requests).toHaveLength(0);
+  });
+
+  it("send safe content unchanged in 'reject' mode", async () => {
+    const adapter = createMockAdapter(() => ({ data: sentReply }));
+    const client = createClient(adapter, 'reject');
+
+    await client.email.sendEmail({ ...message, content: '<p>Hi</p>' });
+
+    expect(adapter.requests[0].data.content).toBe('<p>Hi</p>');
+  });
+
+  it('leave the content untouched when sanitization is off', async () => {
+    const adapter = createMockAdapter(() => ({ data: sentReply }));
+    const client = createClient(adapter, false);
+
+    await client.email.sendEmail(message);
+
+    expect(adapter.requests[0].data.content).toBe(unsafeContent);
+  });
+});
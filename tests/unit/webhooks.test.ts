@@ -0,0 +1,209 @@
+/**
+ * Webhook signing, verification and the request handler
+ */
+
+import {
+  computeSignature,
+  verifySignature,
+  constructEvent,
+  createWebhookHandler,
+  MetiganWebhooks,
+  WebhookSignatureError,
+  ValidationError
+} from '../../src';
+
+const secret = 'whsec_test';
+const body = JSON.stringify({
+  id: 'evt_1',
+  type: 'email.delivered',
+  createdAt: '2026-01-01T00:00:00Z',
+  data: { trackingId: 't1', recipient: 'ann@example.com', deliveredAt: '2026-01-01T00:00:00Z' }
+});
+
+function signHeader(payload: string, timestamp = Math.floor(Date.now() / 1000), key = secret): string {
+  return `t=${timestamp},v1=${computeSignature(payload, timestamp, key)}`;
+}
+
+describe('verifySignature', () => {
+  it('accepts a valid signature for a string or binary body', () => {
+    expect(verifySignature(body, signHeader(body), secret)).toBe(true);
+    expect(verifySignature(new TextEncoder().encode(body), signHeader(body), secret)).toBe(true);
+  });
+
+  it('accepts any of the signatures sent during secret rotation', () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const header = `t=${timestamp},v1=${computeSignature(body, timestamp, 'old')},v1=${computeSignature(body, timestamp, secret)}`;
+
+    expect(verifySignature(body, header, secret)).toBe(true);
+  });
+
+  it('rejects a tampered body, signature or secret', () => {
+    const header = signHeader(body);
+
+    expect(verifySignature(body.replace('ann', 'eve'), header, secret)).toBe(false);
+    expect(verifySignature(body, header.replace(/v1=(.)/, (_match, c) => `v1=${c === '0' ? '1' : '0'}`), secret)).toBe(false);
+    expect(verifySignature(body, header, 'whsec_other')).toBe(false);
+    expect(verifySignature(body, 'garbage', secret)).toBe(false);
+    expect(verifySignature(body, undefined, secret)).toBe(false);
+  });
+
+  it('rejects signatures outside the tolerance window', () => {
+    const header = signHeader(body, Math.floor(Date.now() / 1000) - 600);
+
+    expect(verifySignature(body, header, secret)).toBe(false);
+    expect(verifySignature(body, header, secret, { toleranceSeconds: 900 })).toBe(true);
+    expect(verifySignature(body, header, secret, { toleranceSeconds: false })).toBe(true);
+  });
+
+  it('rejects a tolerance that would disable the replay check', () => {
+    expect(() => verifySignature(body, signHeader(body), secret, { toleranceSeconds: 0 })).toThrow(ValidationError);
+    expect(() => verifySignature(body, signHeader(body), secret, { toleranceSeconds: -1 })).toThrow(ValidationError);
+    expect(() => createWebhookHandler({ secret, on: {}, toleranceSeconds: 0 })).toThrow(ValidationError);
+  });
+});
+
+describe('constructEvent', () => {
+  it('returns the typed event', () => {
+    const event = constructEvent(body, signHeader(body), secret);
+
+    expect(event.type).toBe('email.delivered');
+    expect(event.data).toMatchObject({ recipient: 'ann@example.com' });
+  });
+
+  it('throws WebhookSignatureError for expired signatures', () => {
+    const header = signHeader(body, Math.floor(Date.now() / 1000) - 600);
+
+    expect(() => constructEvent(body, header, secret)).toThrow(WebhookSignatureError);
+  });
+});
+
+describe('createWebhookHandler', () => {
+  it('dispatches verified Fetch requests to the matching handler', async () => {
+    const delivered = jest.fn();
+    const handler = createWebhookHandler({ secret, on: { 'email.delivered': delivered } });
+
+    const response = await handler(new Request('https://example.com/webhooks', {
+      method: 'POST',
+      headers: { 'x-metigan-signature': signHeader(body) },
+      body
+    }));
+
+    expect(response.status).toBe(200);
+    expect(delivered).toHaveBeenCalledWith(expect.objectContaining({ id: 'evt_1' }));
+  });
+
+  it('verifies signatures with WebCrypto', async () => {
+    const sign = jest.spyOn(globalThis.crypto.subtle, 'sign');
+    const handler = createWebhookHandler({ secret, on: {} });
+
+    try {
+      const response = await handler(new Request('https://example.com/webhooks', {
+        method: 'POST',
+        headers: { 'x-metigan-signature': signHeader(body) },
+        body
+      }));
+
+      expect(response.status).toBe(200);
+      expect(sign).toHaveBeenCalledWith('HMAC', expect.anything(), expect.any(Uint8Array));
+    } finally {
+      sign.mockRestore();
+    }
+  });
+
+  it('responds 401 to tampered requests', async () => {
+    const delivered = jest.fn();
+    const handler = createWebhookHandler({ secret, on: { 'email.delivered': delivered } });
+
+    const response = await handler(new Request('https://example.com/webhooks', {
+      method: 'POST',
+      headers: { 'x-metigan-signature': signHeader(body) },
+      body: body.replace('ann', 'eve')
+    }));
+
+    expect(response.status).toBe(401);
+    expect(delivered).not.toHaveBeenCalled();
+  });
+
+  it('passes Express handler failures to next when there is no onError', async () => {
+    const failure = new Error('db down');
+    const handler = createWebhookHandler({ secret, on: { 'email.delivered': () => { throw failure; } } });
+    const req = { method: 'POST', headers: { 'x-metigan-signature': signHeader(body) }, rawBody: body };
+    const res = { headersSent: false, statusCode: 0, setHeader: jest.fn(), end: jest.fn() };
+    const next = jest.fn();
+
+    await handler(req as any, res as any, next);
+
+    expect(next).toHaveBeenCalledWith(failure);
+    expect(res.end).not.toHaveBeenCalled();
+  });
+
+  it('still responds when onError throws', async () => {
+    const handler = createWebhookHandler({
+      secret,
+      on: { 'email.delivered': () => { throw new Error('db down'); } },
+      onError: () => { throw new Error('logger down'); }
+    });
+
+    const response = await handler(new Request('https://example.com/webhooks', {
+      method: 'POST',
+      headers: { 'x-metigan-signature': signHeader(body) },
+      body
+    }));
+
+    expect(response.status).toBe(500);
+  });
+
+  it('stops reading a streamed Fetch body once it exceeds maxBodyBytes', async () => {
+    let pulled = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new Uint8Array(64));
+      }
+    });
+    const handler = createWebhookHandler({ secret, on: {}, maxBodyBytes: 256 });
+
+    const response = await handler(new Request('https://example.com/webhooks', {
+      method: 'POST',
+      headers: { 'x-metigan-signature': signHeader(body) },
+      body: stream,
+      duplex: 'half'
+    } as RequestInit));
+
+    expect(response.status).toBe(413);
+    expect(pulled).toBeLessThan(10);
+  });
+
+  it('rejects a Fetch body whose Content-Length exceeds maxBodyBytes without reading it', async () => {
+    const request = new Request('https://example.com/webhooks', {
+      method: 'POST',
+      headers: { 'x-metigan-signature': signHeader(body), 'content-length': '5000' },
+      body
+    });
+    const read = jest.spyOn(request, 'arrayBuffer');
+    const handler = createWebhookHandler({ secret, on: {}, maxBodyBytes: 256 });
+
+    const response = await handler(request);
+
+    expect(response.status).toBe(413);
+    expect(request.bodyUsed).toBe(false);
+    expect(read).not.toHaveBeenCalled();
+  });
+});
+
+describe('MetiganWebhooks', () => {
+  it('keeps the module tolerance when an option is explicitly undefined', async () => {
+    const webhooks = new MetiganWebhooks({ secret, toleranceSeconds: 900 });
+    const header = signHeader(body, Math.floor(Date.now() / 1000) - 600);
+
+    expect(webhooks.verifySignature(body, header, undefined, { toleranceSeconds: undefined })).toBe(true);
+
+    const handler = webhooks.createHandler({ on: {}, toleranceSeconds: undefined });
+    const response = await handler(new Request('https://example.com/webhooks', {
+      method: 'POST',
+      headers: { 'x-metigan-signature': header },
+      body
+    }));
+    expect(response.status).toBe(200);
+  });
+});